@@ -8,6 +8,12 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    serverActions: {
+      // Photos sent for estimation are base64 data URIs of up to MAX_PHOTO_BYTES (src/ai/estimation-request.ts)
+      bodySizeLimit: '6mb',
+    },
+  },
   images: {
     remotePatterns: [
       {
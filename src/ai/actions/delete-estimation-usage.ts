@@ -0,0 +1,17 @@
+'use server';
+/**
+ * @fileOverview 刪除帳號時，刪除伺服器上記錄的 AI 估算使用次數。
+ *
+ * 使用次數的文件 (`aiUsage/{uid}`) 只有伺服器可以寫入，因此由此 server action 在驗證 ID 權杖後刪除。
+ *
+ * - deleteEstimationUsageAction - 刪除呼叫者的使用次數記錄。
+ */
+
+import {deleteEstimationUsage} from '@/ai/estimation-quota';
+import {adminAuth} from '@/lib/firebase/admin';
+
+export async function deleteEstimationUsageAction(idToken: string): Promise<void> {
+  // Throws for invalid tokens, so account deletion stops before the auth user is deleted
+  const {uid} = await adminAuth().verifyIdToken(idToken);
+  await deleteEstimationUsage(uid);
+}
@@ -0,0 +1,34 @@
+'use server';
+/**
+ * @fileOverview 用戶端呼叫的文字卡路里估算 server action。
+ *
+ * 由 runGuardedAiRequest 驗證呼叫者的 Firebase ID 權杖與使用者的配額，通過後才執行 estimateCalorieCountFromText 流程。
+ *
+ * - estimateCalorieCountFromTextAction - 依文字描述估算餐點的卡路里。
+ * - EstimateCalorieCountFromTextRequest - estimateCalorieCountFromTextAction 函數的輸入類型。
+ */
+
+import {z} from 'genkit';
+import {
+  EstimateCalorieCountFromTextInputSchema,
+  estimateCalorieCountFromText,
+} from '@/ai/flows/estimate-calorie-count-from-text';
+import {runGuardedAiRequest} from '@/ai/estimation-guard';
+import {estimationFailure, type EstimationResult} from '@/ai/estimation-request';
+import type {EstimateCalorieCountOutput} from '@/ai/schemas';
+
+const EstimateCalorieCountFromTextRequestSchema = EstimateCalorieCountFromTextInputSchema.extend({
+  idToken: z.string().min(1),
+  promptVariant: z.string().max(100).optional(),
+});
+export type EstimateCalorieCountFromTextRequest = z.infer<typeof EstimateCalorieCountFromTextRequestSchema>;
+
+export async function estimateCalorieCountFromTextAction(
+  request: EstimateCalorieCountFromTextRequest
+): Promise<EstimationResult<EstimateCalorieCountOutput>> {
+  const parsed = EstimateCalorieCountFromTextRequestSchema.safeParse(request);
+  if (!parsed.success) return estimationFailure('invalidRequest');
+  const {idToken, ...input} = parsed.data;
+
+  return runGuardedAiRequest({idToken}, () => estimateCalorieCountFromText(input));
+}
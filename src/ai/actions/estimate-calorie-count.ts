@@ -0,0 +1,35 @@
+'use server';
+/**
+ * @fileOverview 用戶端呼叫的照片卡路里估算 server action。
+ *
+ * 由 runGuardedAiRequest 驗證呼叫者的 Firebase ID 權杖、照片的格式與大小，以及使用者的每分鐘與每日配額，
+ * 全部通過後才執行 estimateCalorieCount 流程。錯誤以 EstimationResult 的錯誤代碼與中文訊息傳回。
+ *
+ * - estimateCalorieCountAction - 估算照片中食物的卡路里。
+ * - EstimateCalorieCountRequest - estimateCalorieCountAction 函數的輸入類型。
+ */
+
+import {z} from 'genkit';
+import {estimateCalorieCount, type EstimateCalorieCountOutput} from '@/ai/flows/estimate-calorie-count';
+import {runGuardedAiRequest} from '@/ai/estimation-guard';
+import {estimationFailure, type EstimationResult} from '@/ai/estimation-request';
+
+// Anyone can post to a server action, so the payload is checked before it is trusted
+const EstimateCalorieCountRequestSchema = z.object({
+  idToken: z.string().min(1), // From the signed-in user's getIdToken()
+  photoDataUri: z.string(),
+  promptVariant: z.string().max(100).optional(),
+});
+export type EstimateCalorieCountRequest = z.infer<typeof EstimateCalorieCountRequestSchema>;
+
+export async function estimateCalorieCountAction(
+  request: EstimateCalorieCountRequest
+): Promise<EstimationResult<EstimateCalorieCountOutput>> {
+  const parsed = EstimateCalorieCountRequestSchema.safeParse(request);
+  if (!parsed.success) return estimationFailure('invalidRequest');
+  const {idToken, photoDataUri, promptVariant} = parsed.data;
+
+  return runGuardedAiRequest({idToken, photoDataUris: [photoDataUri]}, () =>
+    estimateCalorieCount({photoDataUri, promptVariant})
+  );
+}
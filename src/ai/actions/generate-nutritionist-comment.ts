@@ -0,0 +1,33 @@
+'use server';
+/**
+ * @fileOverview 用戶端呼叫的營養師評論 server action。
+ *
+ * 由 runGuardedAiRequest 驗證呼叫者的 Firebase ID 權杖與使用者的配額，通過後才執行 generateNutritionistComment 流程。
+ *
+ * - generateNutritionistCommentAction - 為餐點撰寫營養師評論。
+ * - GenerateNutritionistCommentRequest - generateNutritionistCommentAction 函數的輸入類型。
+ */
+
+import {z} from 'genkit';
+import {
+  GenerateNutritionistCommentInputSchema,
+  generateNutritionistComment,
+  type GenerateNutritionistCommentOutput,
+} from '@/ai/flows/generate-nutritionist-comment';
+import {runGuardedAiRequest} from '@/ai/estimation-guard';
+import {estimationFailure, type EstimationResult} from '@/ai/estimation-request';
+
+const GenerateNutritionistCommentRequestSchema = GenerateNutritionistCommentInputSchema.extend({
+  idToken: z.string().min(1),
+});
+export type GenerateNutritionistCommentRequest = z.infer<typeof GenerateNutritionistCommentRequestSchema>;
+
+export async function generateNutritionistCommentAction(
+  request: GenerateNutritionistCommentRequest
+): Promise<EstimationResult<GenerateNutritionistCommentOutput>> {
+  const parsed = GenerateNutritionistCommentRequestSchema.safeParse(request);
+  if (!parsed.success) return estimationFailure('invalidRequest');
+  const {idToken, ...input} = parsed.data;
+
+  return runGuardedAiRequest({idToken, failure: 'requestFailed'}, () => generateNutritionistComment(input));
+}
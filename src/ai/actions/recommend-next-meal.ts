@@ -0,0 +1,33 @@
+'use server';
+/**
+ * @fileOverview 用戶端呼叫的下一餐推薦 server action。
+ *
+ * 由 runGuardedAiRequest 驗證呼叫者的 Firebase ID 權杖與使用者的配額，通過後才執行 recommendNextMeal 流程。
+ *
+ * - recommendNextMealAction - 推薦下一餐的選項。
+ * - RecommendNextMealRequest - recommendNextMealAction 函數的輸入類型。
+ */
+
+import {z} from 'genkit';
+import {
+  RecommendNextMealInputSchema,
+  recommendNextMeal,
+  type RecommendNextMealOutput,
+} from '@/ai/flows/recommend-next-meal';
+import {runGuardedAiRequest} from '@/ai/estimation-guard';
+import {estimationFailure, type EstimationResult} from '@/ai/estimation-request';
+
+const RecommendNextMealRequestSchema = RecommendNextMealInputSchema.extend({
+  idToken: z.string().min(1),
+});
+export type RecommendNextMealRequest = z.infer<typeof RecommendNextMealRequestSchema>;
+
+export async function recommendNextMealAction(
+  request: RecommendNextMealRequest
+): Promise<EstimationResult<RecommendNextMealOutput>> {
+  const parsed = RecommendNextMealRequestSchema.safeParse(request);
+  if (!parsed.success) return estimationFailure('invalidRequest');
+  const {idToken, ...input} = parsed.data;
+
+  return runGuardedAiRequest({idToken, failure: 'requestFailed'}, () => recommendNextMeal(input));
+}
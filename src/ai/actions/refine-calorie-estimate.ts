@@ -0,0 +1,31 @@
+'use server';
+/**
+ * @fileOverview 用戶端呼叫的重新估算 server action。
+ *
+ * 由 runGuardedAiRequest 驗證呼叫者的 Firebase ID 權杖、照片 (如有) 的格式與大小，以及使用者的配額，
+ * 全部通過後才執行 refineCalorieEstimate 流程。
+ *
+ * - refineCalorieEstimateAction - 依使用者的修正重新估算卡路里。
+ * - RefineCalorieEstimateRequest - refineCalorieEstimateAction 函數的輸入類型。
+ */
+
+import {z} from 'genkit';
+import {RefineCalorieEstimateInputSchema, refineCalorieEstimate} from '@/ai/flows/refine-calorie-estimate';
+import {runGuardedAiRequest} from '@/ai/estimation-guard';
+import {estimationFailure, type EstimationResult} from '@/ai/estimation-request';
+import type {EstimateCalorieCountOutput} from '@/ai/schemas';
+
+const RefineCalorieEstimateRequestSchema = RefineCalorieEstimateInputSchema.extend({
+  idToken: z.string().min(1),
+});
+export type RefineCalorieEstimateRequest = z.infer<typeof RefineCalorieEstimateRequestSchema>;
+
+export async function refineCalorieEstimateAction(
+  request: RefineCalorieEstimateRequest
+): Promise<EstimationResult<EstimateCalorieCountOutput>> {
+  const parsed = RefineCalorieEstimateRequestSchema.safeParse(request);
+  if (!parsed.success) return estimationFailure('invalidRequest');
+  const {idToken, ...input} = parsed.data;
+
+  return runGuardedAiRequest({idToken, photoDataUris: [input.photoDataUri]}, () => refineCalorieEstimate(input));
+}
@@ -1,12 +1,41 @@
-import {genkit} from 'genkit';
-import {googleAI} from '@genkit-ai/googleai';
+import {genkit, z} from 'genkit';
+import {resolveAiProvider} from '@/ai/providers';
+import {DEFAULT_PROMPT_VARIANT} from '@/ai/prompt-variants';
+import type {EstimationMetadata} from '@/ai/schemas';
+
+// The provider is chosen by configuration (AI_PROVIDER), so estimation can run offline against the stub model
+export const aiProvider = resolveAiProvider(process.env.AI_PROVIDER);
 
 export const ai = genkit({
   promptDir: './prompts',
-  plugins: [
-    googleAI({
-      apiKey: process.env.GOOGLE_GENAI_API_KEY,
-    }),
-  ],
-  model: 'googleai/gemini-2.0-flash',
+  plugins: aiProvider.plugins,
+  model: aiProvider.model,
 });
+
+// Which prompt file rendered a request, e.g. version 'estimateCalorieCount@1' and variant 'stepwise'
+export interface PromptInfo {
+  promptVersion: string;
+  promptVariant: string;
+}
+
+// A prompt from `prompts/` and the version in its front matter. The schemas it names must be registered
+// with `ai.defineSchema` before it is first called.
+export async function loadPrompt<I extends z.ZodTypeAny, O extends z.ZodTypeAny>(
+  name: string,
+  variant: string = DEFAULT_PROMPT_VARIANT
+) {
+  const fileVariant = variant === DEFAULT_PROMPT_VARIANT ? undefined : variant;
+  const key = fileVariant ? `${name}.${fileVariant}` : name;
+  const action = await ai.registry.lookupAction(`/prompt/${key}`);
+  if (!action) {
+    throw new Error(`找不到提示檔 prompts/${key}.prompt。`);
+  }
+  const version = action.__action.metadata?.prompt?.version ?? 0;
+  const info: PromptInfo = {promptVersion: `${name}@${version}`, promptVariant: variant};
+  return {prompt: ai.prompt<I, O>(name, {variant: fileVariant}), info};
+}
+
+// Which model and prompt produced an estimate, for a flow that started at `startedAt` (ms since epoch)
+export function estimationMetadata(prompt: PromptInfo, startedAt: number): EstimationMetadata {
+  return {model: aiProvider.model, ...prompt, latencyMs: Date.now() - startedAt};
+}
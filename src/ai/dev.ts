@@ -1 +1,6 @@
-import '@/ai/flows/estimate-calorie-count.ts';
\ No newline at end of file
+import '@/ai/flows/estimate-calorie-count.ts';
+import '@/ai/flows/estimate-calorie-count-from-text.ts';
+import '@/ai/flows/read-nutrition-label.ts';
+import '@/ai/flows/refine-calorie-estimate.ts';
+import '@/ai/flows/generate-nutritionist-comment.ts';
+import '@/ai/flows/recommend-next-meal.ts';
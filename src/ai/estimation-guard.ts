@@ -0,0 +1,48 @@
+/**
+ * @fileOverview AI server action 共用的呼叫者檢查 (僅限伺服器端)。
+ *
+ * 每個 AI server action 都依序驗證呼叫者的 Firebase ID 權杖、照片的格式與大小，以及使用者的每分鐘與每日配額，
+ * 全部通過後才執行流程。錯誤以 EstimationResult 的錯誤代碼與中文訊息傳回，詳細內容只記錄在伺服器日誌中。
+ *
+ * 此檔案不是 server action，只能由 src/ai/actions 中的 server action 呼叫。
+ *
+ * - runGuardedAiRequest - 檢查呼叫者後執行 AI 流程。
+ */
+
+import {consumeEstimationQuota} from '@/ai/estimation-quota';
+import {estimationFailure, validatePhotoDataUri, type EstimationErrorCode, type EstimationResult} from '@/ai/estimation-request';
+import {adminAuth} from '@/lib/firebase/admin';
+
+interface GuardedAiRequest {
+  idToken: string; // From the signed-in user's getIdToken()
+  photoDataUris?: (string | undefined)[]; // Photos sent to the model, if any
+  failure?: EstimationErrorCode; // Returned when the flow throws
+}
+
+export async function runGuardedAiRequest<T>(
+  {idToken, photoDataUris = [], failure = 'estimationFailed'}: GuardedAiRequest,
+  run: () => Promise<T>
+): Promise<EstimationResult<T>> {
+  let userId: string;
+  try {
+    userId = (await adminAuth().verifyIdToken(idToken)).uid;
+  } catch (error) {
+    console.error('ID 權杖驗證失敗:', error);
+    return estimationFailure('unauthenticated');
+  }
+
+  // Before the quota, so a rejected photo doesn't use up a request
+  for (const photoDataUri of photoDataUris) {
+    const photoError = photoDataUri === undefined ? null : validatePhotoDataUri(photoDataUri);
+    if (photoError) return estimationFailure(photoError);
+  }
+
+  try {
+    const quotaError = await consumeEstimationQuota(userId);
+    if (quotaError) return estimationFailure(quotaError);
+    return {ok: true, output: await run()};
+  } catch (error) {
+    console.error('AI 流程執行失敗:', error);
+    return estimationFailure(failure);
+  }
+}
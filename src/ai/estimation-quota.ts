@@ -0,0 +1,88 @@
+/**
+ * @fileOverview 每位使用者的 AI 請求配額 (僅限伺服器端)。
+ *
+ * 估算、重新估算、營養師評論與餐點推薦共用同一份配額。
+ * 使用次數記錄在 Firestore 的 `aiUsage/{uid}` 文件中，只有伺服器 (Admin SDK) 可以讀寫，
+ * 使用者無法自行重設。每日配額在台灣時間午夜重設，每分鐘配額以整分鐘計算。
+ * 上限可用環境變數 AI_ESTIMATES_PER_DAY 與 AI_ESTIMATES_PER_MINUTE 調整。
+ *
+ * - consumeEstimationQuota - 配額足夠時記錄一次請求，否則傳回超出的配額。
+ * - countEstimation - 依目前的使用次數計算記錄一次請求後的次數 (不存取 Firestore)。
+ * - deleteEstimationUsage - 刪除帳號時一併刪除使用次數的記錄。
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/admin';
+import type { EstimationErrorCode } from '@/ai/estimation-request';
+
+const USAGE_COLLECTION = 'aiUsage';
+const QUOTA_TIME_ZONE = 'Asia/Taipei';
+
+// Logging a meal also asks for a nutritionist comment, so a photo meal takes at least two requests
+const DEFAULT_ESTIMATES_PER_DAY = 100;
+const DEFAULT_ESTIMATES_PER_MINUTE = 10;
+
+export interface EstimationUsage {
+  day: string; // yyyy-MM-dd in QUOTA_TIME_ZONE
+  dayCount: number;
+  minute: number; // Minutes since the epoch
+  minuteCount: number;
+}
+
+function limitFromEnv(value: string | undefined, fallback: number): number {
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit > 0 ? limit : fallback;
+}
+
+// en-CA formats dates as yyyy-MM-dd
+const quotaDay = (date: Date) => new Intl.DateTimeFormat('en-CA', { timeZone: QUOTA_TIME_ZONE }).format(date);
+
+export interface EstimationLimits {
+  perDay: number;
+  perMinute: number;
+}
+
+type QuotaError = Extract<EstimationErrorCode, 'rateLimited' | 'dailyQuotaExceeded'>;
+
+// The usage after one more request, or the quota it would exceed. The counts start over on a new day
+// (in QUOTA_TIME_ZONE) and a new minute.
+export function countEstimation(
+  usage: EstimationUsage | undefined,
+  now: Date,
+  { perDay, perMinute }: EstimationLimits
+): { usage: EstimationUsage } | { error: QuotaError } {
+  const day = quotaDay(now);
+  const minute = Math.floor(now.getTime() / 60_000);
+  const dayCount = usage?.day === day ? usage.dayCount : 0;
+  const minuteCount = usage?.minute === minute ? usage.minuteCount : 0;
+  if (dayCount >= perDay) return { error: 'dailyQuotaExceeded' };
+  if (minuteCount >= perMinute) return { error: 'rateLimited' };
+  return { usage: { day, dayCount: dayCount + 1, minute, minuteCount: minuteCount + 1 } };
+}
+
+// Counts the request if both quotas allow it. Called before the model runs, so failed requests
+// count too: they cost the same.
+export async function consumeEstimationQuota(
+  userId: string,
+  now: Date = new Date()
+): Promise<QuotaError | null> {
+  const limits = {
+    perDay: limitFromEnv(process.env.AI_ESTIMATES_PER_DAY, DEFAULT_ESTIMATES_PER_DAY),
+    perMinute: limitFromEnv(process.env.AI_ESTIMATES_PER_MINUTE, DEFAULT_ESTIMATES_PER_MINUTE),
+  };
+
+  const db = adminDb();
+  const usageRef = db.collection(USAGE_COLLECTION).doc(userId);
+  // A transaction, so parallel requests from the same user can't both take the last request
+  return db.runTransaction(async transaction => {
+    const result = countEstimation((await transaction.get(usageRef)).data() as EstimationUsage | undefined, now, limits);
+    if ('error' in result) return result.error;
+    transaction.set(usageRef, { ...result.usage, updatedAt: FieldValue.serverTimestamp() });
+    return null;
+  });
+}
+
+// Part of account deletion; clients can't delete the document themselves (see firestore.rules)
+export async function deleteEstimationUsage(userId: string): Promise<void> {
+  await adminDb().collection(USAGE_COLLECTION).doc(userId).delete();
+}
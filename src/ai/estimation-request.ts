@@ -0,0 +1,69 @@
+/**
+ * @fileOverview AI 請求的照片限制、錯誤代碼與結果類型。
+ *
+ * AI 功能的 server action 會驗證呼叫者的 Firebase ID 權杖、檢查每位使用者的配額與照片格式，
+ * 並以 EstimationResult 傳回結果或附有中文訊息的錯誤代碼，而不是拋出例外。
+ *
+ * 此檔案不含伺服器端程式碼，用戶端可以先用同樣的規則檢查照片，再送出請求。
+ *
+ * - ALLOWED_PHOTO_MIME_TYPES - 接受的照片格式。
+ * - MAX_PHOTO_BYTES - 照片解碼後的大小上限。
+ * - EstimationErrorCode - AI 請求的錯誤代碼。
+ * - ESTIMATION_ERROR_MESSAGES - 各錯誤代碼對應的訊息。
+ * - EstimationResult - server action 的返回類型。
+ * - EstimationRequestError - 用戶端用來傳遞錯誤代碼的例外。
+ * - validatePhotoDataUri - 檢查照片的格式與大小。
+ */
+
+export const ALLOWED_PHOTO_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'] as const;
+
+// Decoded size; the base64 data URI is about a third larger (see serverActions.bodySizeLimit in next.config.ts)
+export const MAX_PHOTO_BYTES = 4 * 1024 * 1024;
+
+export type EstimationErrorCode =
+  | 'invalidRequest'
+  | 'unauthenticated'
+  | 'unsupportedImageType'
+  | 'imageTooLarge'
+  | 'rateLimited' // Per-minute quota
+  | 'dailyQuotaExceeded'
+  | 'estimationFailed'
+  | 'requestFailed'; // AI features other than estimation
+
+export const ESTIMATION_ERROR_MESSAGES: Record<EstimationErrorCode, string> = {
+  invalidRequest: 'AI 請求的格式不正確。',
+  unauthenticated: 'AI 功能需要登入。請使用 Google 帳號登入，或改用手動輸入。',
+  unsupportedImageType: '不支援此照片格式，請使用 JPEG、PNG、WebP 或 HEIC 照片。',
+  imageTooLarge: `照片太大了，請裁切後再試 (上限 ${MAX_PHOTO_BYTES / 1024 / 1024} MB)。`,
+  rateLimited: 'AI 請求過於頻繁，請稍候一分鐘再試。',
+  dailyQuotaExceeded: '今天的 AI 使用次數已用完，明天再試，或改用手動輸入。',
+  estimationFailed: '卡路里估算失敗。請再試一次。',
+  requestFailed: 'AI 暫時無法回應，請稍後再試。',
+};
+
+export type EstimationResult<T> =
+  | { ok: true; output: T }
+  | { ok: false; error: { code: EstimationErrorCode; message: string } };
+
+export const estimationFailure = (code: EstimationErrorCode): EstimationResult<never> => ({
+  ok: false,
+  error: { code, message: ESTIMATION_ERROR_MESSAGES[code] },
+});
+
+// Thrown on the client so the error handling can show the localized message as is
+export class EstimationRequestError extends Error {
+  constructor(readonly code: EstimationErrorCode, message: string = ESTIMATION_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'EstimationRequestError';
+  }
+}
+
+// The photo's problem, or null if it may be sent to the model. Only the header and length are read.
+export function validatePhotoDataUri(photoDataUri: string): EstimationErrorCode | null {
+  const match = /^data:([^;,]+);base64,/.exec(photoDataUri);
+  if (!match) return 'invalidRequest';
+  if (!(ALLOWED_PHOTO_MIME_TYPES as readonly string[]).includes(match[1].toLowerCase())) return 'unsupportedImageType';
+  const base64Length = photoDataUri.length - match[0].length;
+  const padding = photoDataUri.endsWith('==') ? 2 : photoDataUri.endsWith('=') ? 1 : 0;
+  return Math.floor(base64Length * 3 / 4) - padding > MAX_PHOTO_BYTES ? 'imageTooLarge' : null;
+}
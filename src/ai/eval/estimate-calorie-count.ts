@@ -0,0 +1,188 @@
+/**
+ * @fileOverview 卡路里估算提示的離線評估。
+ *
+ * 對一個標註好的照片資料夾執行 estimateCalorieCount 流程，回報卡路里的平均絕對誤差、名稱符合率、
+ * isFoodItem 的精確率與召回率，以及 confidence 的校準情形。每次執行都會寫出一份 JSON 報告，
+ * 記錄模型、提示版本與變體，以及資料集的雜湊，之後可以用 --baseline 與其他提示版本或變體的報告比較。
+ *
+ * 用法：
+ *   npm run eval:estimate -- <資料集資料夾> [--variant <提示變體>] [--out <報告.json>] [--baseline <先前的報告.json>]
+ *
+ * 資料集資料夾包含照片 (.jpg、.jpeg、.png、.webp) 與 labels.json (格式見 metrics.ts 的 EvalLabelSchema)。
+ * 設定 AI_PROVIDER=stub 並以 AI_STUB_FIXTURES 指向依照片雜湊 (mediaSha256) 對應的 fixture，
+ * 即可在沒有網路的 CI 中執行 (見 eval/sample 與 `npm run eval:estimate:stub`)。
+ * 有照片估算失敗時，結束代碼為 1。
+ */
+
+import {createHash} from 'crypto';
+import {existsSync, mkdirSync, readFileSync, writeFileSync} from 'fs';
+import {dirname, extname, join, resolve} from 'path';
+import {parseArgs} from 'util';
+import {z} from 'genkit';
+import {estimateCalorieCount} from '@/ai/flows/estimate-calorie-count';
+import {sha256} from '@/ai/providers/stub';
+import {
+  EvalLabelSchema,
+  computeMetrics,
+  type EvalMetrics,
+  type EvalSampleResult,
+} from '@/ai/eval/metrics';
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+export interface EvalReport {
+  createdAt: string;
+  dataset: string;
+  datasetSha256: string; // Reports are only comparable when computed on the same labels and photos
+  model: string | null; // From the estimates' metadata; null if every estimate failed
+  promptVersion: string | null;
+  promptVariant: string | null;
+  metrics: EvalMetrics;
+  samples: EvalSampleResult[];
+}
+
+function readPhotoDataUri(path: string): string {
+  const mimeType = MIME_TYPES[extname(path).toLowerCase()];
+  if (!mimeType) throw new Error(`不支援的照片格式：${path}`);
+  return `data:${mimeType};base64,${readFileSync(path).toString('base64')}`;
+}
+
+async function runEvaluation(datasetDir: string, promptVariant: string | undefined): Promise<EvalReport> {
+  const labelsText = readFileSync(join(datasetDir, 'labels.json'), 'utf-8');
+  const labels = z.array(EvalLabelSchema).parse(JSON.parse(labelsText));
+
+  const samples: EvalSampleResult[] = [];
+  let model: string | null = null;
+  let promptVersion: string | null = null;
+  let resolvedVariant: string | null = null; // Unknown variants fall back to the default prompt
+
+  // One photo at a time, so latencies are comparable and API rate limits aren't hit
+  for (const label of labels) {
+    const photoDataUri = readPhotoDataUri(join(datasetDir, label.file));
+    const mediaSha256 = sha256(photoDataUri);
+    const startedAt = Date.now();
+    try {
+      const output = await estimateCalorieCount({photoDataUri, promptVariant});
+      model ??= output.metadata?.model ?? null;
+      promptVersion ??= output.metadata?.promptVersion ?? null;
+      resolvedVariant ??= output.metadata?.promptVariant ?? null;
+      samples.push({
+        label,
+        mediaSha256,
+        prediction: {
+          isFoodItem: output.isFoodItem,
+          foodItem: output.foodItem,
+          calorieEstimate: output.calorieEstimate,
+          confidence: output.confidence,
+        },
+        latencyMs: Date.now() - startedAt,
+      });
+    } catch (error) {
+      samples.push({
+        label,
+        mediaSha256,
+        prediction: null,
+        error: error instanceof Error ? error.message : String(error),
+        latencyMs: Date.now() - startedAt,
+      });
+    }
+    console.log(`[${samples.length}/${labels.length}] ${label.file}${samples[samples.length - 1].error ? ' (失敗)' : ''}`);
+  }
+
+  const datasetSha256 = createHash('sha256')
+    .update(labelsText)
+    .update(samples.map(sample => sample.mediaSha256).join('\n'))
+    .digest('hex');
+
+  return {
+    createdAt: new Date().toISOString(),
+    dataset: datasetDir,
+    datasetSha256,
+    model,
+    promptVersion,
+    promptVariant: resolvedVariant,
+    metrics: computeMetrics(samples),
+    samples,
+  };
+}
+
+const formatMetric = (value: number | null, digits = 2) => (value === null ? '-' : value.toFixed(digits));
+
+// Summary lines of the report, with the change from the baseline where both have a value
+function printSummary(report: EvalReport, baseline: EvalReport | null) {
+  const rows: Array<[string, number | null, number | null | undefined]> = [
+    ['卡路里平均絕對誤差 (卡)', report.metrics.calorieMae, baseline?.metrics.calorieMae],
+    ['卡路里平均誤差百分比 (%)', report.metrics.calorieMape, baseline?.metrics.calorieMape],
+    ['名稱符合率', report.metrics.nameMatchRate, baseline?.metrics.nameMatchRate],
+    ['isFoodItem 精確率', report.metrics.foodPrecision, baseline?.metrics.foodPrecision],
+    ['isFoodItem 召回率', report.metrics.foodRecall, baseline?.metrics.foodRecall],
+    ['預期校準誤差 (ECE)', report.metrics.expectedCalibrationError, baseline?.metrics.expectedCalibrationError],
+    ['平均耗時 (毫秒)', report.metrics.meanLatencyMs, baseline?.metrics.meanLatencyMs],
+  ];
+
+  console.log(`\n模型：${report.model ?? '-'}，提示版本：${report.promptVersion ?? '-'} (${report.promptVariant ?? '-'})`);
+  console.log(`照片：${report.metrics.samples} 張，失敗：${report.metrics.failed} 張`);
+  if (baseline) {
+    console.log(`比較對象：${baseline.model ?? '-'}，提示版本：${baseline.promptVersion ?? '-'} (${baseline.promptVariant ?? '-'})，${baseline.createdAt}`);
+    if (baseline.datasetSha256 !== report.datasetSha256) {
+      console.warn('注意：兩次評估使用的資料集不同，指標無法直接比較。');
+    }
+  }
+  rows.forEach(([name, value, baselineValue]) => {
+    const change = baselineValue !== undefined && baselineValue !== null && value !== null
+      ? ` (${value - baselineValue >= 0 ? '+' : ''}${(value - baselineValue).toFixed(2)})`
+      : '';
+    console.log(`  ${name}：${formatMetric(value)}${change}`);
+  });
+
+  console.log('  confidence 校準 (區間：張數，平均 confidence → 正確率)：');
+  report.metrics.calibration.forEach(bin => {
+    console.log(`    ${bin.from.toFixed(1)}-${bin.to.toFixed(1)}：${bin.count}，${bin.meanConfidence.toFixed(2)} → ${bin.accuracy.toFixed(2)}`);
+  });
+
+  report.samples.filter(sample => sample.error).forEach(sample => {
+    console.error(`  失敗：${sample.label.file}：${sample.error}`);
+  });
+}
+
+function defaultReportPath(report: EvalReport): string {
+  const prompt = `${report.promptVersion ?? 'unknown'}-${report.promptVariant ?? 'unknown'}`.replace(/[^\w.-]+/g, '_');
+  return join('eval', 'reports', `${report.createdAt.replace(/[:.]/g, '-')}-${prompt}.json`);
+}
+
+async function main() {
+  const {values, positionals} = parseArgs({
+    allowPositionals: true,
+    options: {
+      variant: {type: 'string'},
+      out: {type: 'string'},
+      baseline: {type: 'string'},
+    },
+  });
+  const datasetDir = positionals[0];
+  if (!datasetDir || !existsSync(join(datasetDir, 'labels.json'))) {
+    console.error('用法：npm run eval:estimate -- <含有 labels.json 的資料集資料夾> [--variant <提示變體>] [--out <報告.json>] [--baseline <先前的報告.json>]');
+    process.exit(2);
+  }
+
+  const baseline = values.baseline ? (JSON.parse(readFileSync(values.baseline, 'utf-8')) as EvalReport) : null;
+  const report = await runEvaluation(resolve(datasetDir), values.variant);
+  printSummary(report, baseline);
+
+  const reportPath = values.out ?? defaultReportPath(report);
+  mkdirSync(dirname(reportPath), {recursive: true});
+  writeFileSync(reportPath, JSON.stringify(report, null, 2));
+  console.log(`\n報告已寫入 ${reportPath}`);
+
+  process.exit(report.metrics.failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('評估失敗：', error);
+  process.exit(1);
+});
@@ -0,0 +1,122 @@
+/**
+ * @fileOverview 卡路里估算評估的標註格式與指標計算。
+ *
+ * - EvalLabelSchema - 資料集 `labels.json` 中單一照片標註的結構。
+ * - EvalLabel - 照片標註的類型。
+ * - EvalSampleResult - 單一照片的估算結果與標註。
+ * - EvalMetrics - 整次評估的指標。
+ * - computeMetrics - 從各照片的結果計算指標。
+ */
+
+import {z} from 'genkit';
+
+export const EvalLabelSchema = z.object({
+  file: z.string(), // Photo file name, relative to the dataset directory
+  isFoodItem: z.boolean(),
+  foodItem: z.string().optional(), // Expected name, required for food photos
+  calories: z.number().nonnegative().optional(), // Known calories, required for food photos
+}).refine(label => !label.isFoodItem || (label.foodItem !== undefined && label.calories !== undefined), {
+  message: '食物照片的標註必須包含 foodItem 與 calories。',
+});
+export type EvalLabel = z.infer<typeof EvalLabelSchema>;
+
+export interface EvalPrediction {
+  isFoodItem: boolean;
+  foodItem: string;
+  calorieEstimate: number;
+  confidence: number;
+}
+
+export interface EvalSampleResult {
+  label: EvalLabel;
+  mediaSha256: string; // SHA-256 of the photo's data URI, which stub fixtures match on
+  prediction: EvalPrediction | null; // null if the flow failed
+  error?: string;
+  latencyMs: number;
+}
+
+export interface CalibrationBin {
+  from: number; // Confidence range [from, to); the last bin includes 1
+  to: number;
+  count: number;
+  meanConfidence: number;
+  accuracy: number; // Share of estimates within CALORIE_TOLERANCE of the known calories
+}
+
+export interface EvalMetrics {
+  samples: number;
+  failed: number;
+  calorieMae: number | null; // Mean absolute calorie error over food photos the flow recognized as food
+  calorieMape: number | null; // The same relative to the known calories, in percent
+  nameMatchRate: number | null; // Share of those photos whose name matches the label
+  foodPrecision: number | null; // isFoodItem: predicted food that is food
+  foodRecall: number | null; // isFoodItem: food that was predicted as food
+  calibration: CalibrationBin[];
+  expectedCalibrationError: number | null; // Weighted gap between confidence and accuracy over the bins (food photos only)
+  meanLatencyMs: number | null;
+}
+
+// `confidence` is the AI's confidence in the calorie estimate (0 for non-food), so calibration looks at food photos
+// recognized as food and counts an estimate as accurate when it is within this share of the known calories
+export const CALORIE_TOLERANCE = 0.2;
+
+const CALIBRATION_BINS = 5;
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null);
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : null);
+const normalizeName = (name: string) => name.replace(/\s+/g, '').toLowerCase();
+
+// Names match when one contains the other, e.g. 「牛肉麵」 and 「紅燒牛肉麵」
+export const namesMatch = (predicted: string, expected: string) => {
+  const a = normalizeName(predicted);
+  const b = normalizeName(expected);
+  return a.length > 0 && b.length > 0 && (a.includes(b) || b.includes(a));
+};
+
+const isWithinTolerance = (label: EvalLabel, prediction: EvalPrediction) =>
+  Math.abs(prediction.calorieEstimate - label.calories!) <= label.calories! * CALORIE_TOLERANCE;
+
+export function computeMetrics(results: EvalSampleResult[]): EvalMetrics {
+  const predicted = results.filter(result => result.prediction !== null) as Array<EvalSampleResult & {prediction: EvalPrediction}>;
+  const recognizedFood = predicted.filter(({label, prediction}) => label.isFoodItem && prediction.isFoodItem);
+
+  const truePositives = recognizedFood.length;
+  const predictedFood = predicted.filter(({prediction}) => prediction.isFoodItem).length;
+  const labeledFood = predicted.filter(({label}) => label.isFoodItem).length;
+
+  const calibration: CalibrationBin[] = Array.from({length: CALIBRATION_BINS}, (_, index) => {
+    const from = index / CALIBRATION_BINS;
+    const to = (index + 1) / CALIBRATION_BINS;
+    const inBin = recognizedFood.filter(({prediction}) => {
+      const confidence = Math.min(Math.max(prediction.confidence, 0), 1);
+      return confidence >= from && (confidence < to || (index === CALIBRATION_BINS - 1 && confidence <= to));
+    });
+    return {
+      from,
+      to,
+      count: inBin.length,
+      meanConfidence: mean(inBin.map(({prediction}) => prediction.confidence)) ?? 0,
+      accuracy: mean(inBin.map(({label, prediction}) => (isWithinTolerance(label, prediction) ? 1 : 0))) ?? 0,
+    };
+  });
+  const expectedCalibrationError = recognizedFood.length > 0
+    ? calibration.reduce((sum, bin) => sum + (bin.count / recognizedFood.length) * Math.abs(bin.accuracy - bin.meanConfidence), 0)
+    : null;
+
+  return {
+    samples: results.length,
+    failed: results.length - predicted.length,
+    calorieMae: mean(recognizedFood.map(({label, prediction}) => Math.abs(prediction.calorieEstimate - label.calories!))),
+    calorieMape: mean(
+      recognizedFood
+        .filter(({label}) => label.calories! > 0)
+        .map(({label, prediction}) => (Math.abs(prediction.calorieEstimate - label.calories!) / label.calories!) * 100)
+    ),
+    nameMatchRate: mean(recognizedFood.map(({label, prediction}) => (namesMatch(prediction.foodItem, label.foodItem!) ? 1 : 0))),
+    foodPrecision: ratio(truePositives, predictedFood),
+    foodRecall: ratio(truePositives, labeledFood),
+    calibration,
+    expectedCalibrationError,
+    meanLatencyMs: mean(predicted.map(result => result.latencyMs)),
+  };
+}
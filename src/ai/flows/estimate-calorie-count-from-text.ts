@@ -0,0 +1,66 @@
+/**
+ * @fileOverview 以文字描述估計卡路里的 AI 代理 (適用於沒有照片的餐點)。
+ *
+ * - estimateCalorieCountFromText - 處理文字卡路里估計流程的函數。
+ * - EstimateCalorieCountFromTextInput - estimateCalorieCountFromText 函數的輸入類型。
+ * - EstimateCalorieCountOutput - 與影像估計相同的返回類型。
+ *
+ * 此流程不檢查呼叫者，只供伺服器端使用；
+ * 用戶端請呼叫 src/ai/actions/estimate-calorie-count-from-text.ts 的 server action，它會驗證身分與配額。
+ */
+
+import {ai, estimationMetadata, loadPrompt} from '@/ai/ai-instance';
+import {resolvePromptVariant} from '@/ai/prompt-variants';
+import {
+  EstimateCalorieCountOutputSchema,
+  normalizeCalorieEstimate,
+  type EstimateCalorieCountOutput,
+} from '@/ai/schemas';
+import {z} from 'genkit';
+
+const PROMPT_NAME = 'estimateCalorieCountFromText';
+
+const EstimateCalorieCountFromTextPromptInputSchema = z.object({
+  description: z
+    .string()
+    .describe('使用者對餐點的自然語言描述，例如「一碗牛肉麵加滷蛋」。'),
+});
+
+export const EstimateCalorieCountFromTextInputSchema = EstimateCalorieCountFromTextPromptInputSchema.extend({
+  promptVariant: z.string().optional().describe('要使用的提示變體 (見 prompt-variants.ts)，未指定或未知時使用預設變體。'),
+});
+export type EstimateCalorieCountFromTextInput = z.infer<typeof EstimateCalorieCountFromTextInputSchema>;
+
+export async function estimateCalorieCountFromText(
+  input: EstimateCalorieCountFromTextInput
+): Promise<EstimateCalorieCountOutput> {
+  return estimateCalorieCountFromTextFlow(input);
+}
+
+const TextEstimateOutputSchema = EstimateCalorieCountOutputSchema.omit({nutritionLabel: true, metadata: true});
+
+// Schemas named in prompts/estimateCalorieCountFromText*.prompt
+ai.defineSchema('EstimateCalorieCountFromTextPromptInput', EstimateCalorieCountFromTextPromptInputSchema);
+ai.defineSchema('EstimateCalorieCountFromTextPromptOutput', TextEstimateOutputSchema);
+
+const estimateCalorieCountFromTextFlow = ai.defineFlow<
+  typeof EstimateCalorieCountFromTextInputSchema,
+  typeof EstimateCalorieCountOutputSchema
+>({
+  name: 'estimateCalorieCountFromTextFlow',
+  inputSchema: EstimateCalorieCountFromTextInputSchema,
+  outputSchema: EstimateCalorieCountOutputSchema,
+},
+async ({description, promptVariant}) => {
+  const startedAt = Date.now();
+  const {prompt, info} = await loadPrompt<typeof EstimateCalorieCountFromTextPromptInputSchema, typeof TextEstimateOutputSchema>(
+    PROMPT_NAME,
+    resolvePromptVariant(PROMPT_NAME, promptVariant)
+  );
+  const {output} = await prompt({description});
+  if (!output) {
+     throw new Error("AI 流程未傳回有效的輸出。");
+  }
+
+  return {...normalizeCalorieEstimate(output), metadata: estimationMetadata(info, startedAt)};
+});
@@ -1,32 +1,44 @@
-'use server';
 /**
  * @fileOverview 卡路里估計 AI 代理。
  *
  * - estimateCalorieCount - 處理卡路里估計流程的函數。
  * - EstimateCalorieCountInput - estimateCalorieCount 函數的輸入類型。
  * - EstimateCalorieCountOutput - estimateCalorieCount 函數的返回類型。
+ *
+ * 影像為營養標示時，會自動改用 readNutritionLabel 流程讀取標示上的數值。
+ *
+ * 此流程不檢查呼叫者，只供伺服器端使用 (離線評估、Genkit 開發伺服器)；
+ * 用戶端請呼叫 src/ai/actions/estimate-calorie-count.ts 的 server action，它會驗證身分、配額與照片。
  */
 
-import {ai} from '@/ai/ai-instance';
+import {ai, estimationMetadata, loadPrompt} from '@/ai/ai-instance';
+import {readNutritionLabel} from '@/ai/flows/read-nutrition-label';
+import {resolvePromptVariant} from '@/ai/prompt-variants';
+import {
+  EstimateCalorieCountOutputSchema,
+  normalizeCalorieEstimate,
+  type EstimateCalorieCountOutput,
+  type NutritionLabel,
+} from '@/ai/schemas';
+import {nutritionForServings} from '@/lib/nutrition';
 import {z} from 'genkit';
 
-const EstimateCalorieCountInputSchema = z.object({
+const PROMPT_NAME = 'estimateCalorieCount';
+
+const EstimateCalorieCountPromptInputSchema = z.object({
   photoDataUri: z
     .string()
     .describe(
       "食物品項的照片，格式為 data URI，必須包含 MIME 類型並使用 Base64 編碼。預期格式：'data:<mimetype>;base64,<encoded_data>'。"
     ),
 });
-export type EstimateCalorieCountInput = z.infer<typeof EstimateCalorieCountInputSchema>;
 
-// Updated Output Schema to include isFoodItem and adjusted descriptions
-const EstimateCalorieCountOutputSchema = z.object({
-  isFoodItem: z.boolean().describe('影像是否包含可辨識的食物品項。'),
-  foodItem: z.string().describe('影像中辨識出的食物品項 (如果 isFoodItem 為 true)。如果不是食物，則為影像內容描述。 請使用繁體中文輸出此欄位。'), // Added request for Traditional Chinese
-  calorieEstimate: z.number().describe('食物品項的估計卡路里數 (如果 isFoodItem 為 true)。如果不是食物，則為 0。'),
-  confidence: z.number().describe('卡路里估計的信賴度（0-1）。如果 isFoodItem 為 false，則為 0。'), // Clarified confidence for non-food
+const EstimateCalorieCountInputSchema = EstimateCalorieCountPromptInputSchema.extend({
+  promptVariant: z.string().optional().describe('要使用的提示變體 (見 prompt-variants.ts)，未指定或未知時使用預設變體。'),
 });
-export type EstimateCalorieCountOutput = z.infer<typeof EstimateCalorieCountOutputSchema>;
+export type EstimateCalorieCountInput = z.infer<typeof EstimateCalorieCountInputSchema>;
+
+export type {EstimateCalorieCountOutput};
 
 export async function estimateCalorieCount(
   input: EstimateCalorieCountInput
@@ -34,41 +46,15 @@ export async function estimateCalorieCount(
   return estimateCalorieCountFlow(input);
 }
 
-// Updated Prompt Definition
-const prompt = ai.definePrompt({
-  name: 'estimateCalorieCountPrompt',
-  input: {
-    schema: z.object({
-      photoDataUri: z
-        .string()
-        .describe(
-          "食物品項的照片，格式為 data URI，必須包含 MIME 類型並使用 Base64 編碼。預期格式：'data:<mimetype>;base64,<encoded_data>'。"
-        ),
-    }),
-  },
-  output: {
-    // Use the updated output schema here
-    schema: EstimateCalorieCountOutputSchema,
-  },
-  // Updated Prompt String to explicitly handle isFoodItem logic and request Traditional Chinese for foodItem
-  prompt: `你是營養專家。請分析以下影像。
-
-  1. 判斷影像中是否包含可辨識的食物品項。將此判斷結果設為 'isFoodItem' 欄位 (true 或 false)。
-  2. 如果 'isFoodItem' 為 true：
-     - 辨識主要的食物品項，並將其名稱設為 'foodItem'。**請務必以繁體中文輸出此名稱。**
-     - 估計該食物品項的卡路里數，並將其設為 'calorieEstimate'。
-     - 提供卡路里估計的信賴度（0 到 1 之間），並將其設為 'confidence'。
-  3. 如果 'isFoodItem' 為 false：
-     - 將 'foodItem' 設為影像內容的簡短描述 (**請以繁體中文輸出**，例如：「一本書」、「一隻貓」)。
-     - 將 'calorieEstimate' 設為 0。
-     - 將 'confidence' 設為 0。
-
-  請嚴格遵循上述格式輸出。
-
-  影像： {{media url=photoDataUri}}
-  `,
+// The photo prompt also reports whether the image is a nutrition label, so the flow can switch to the label reader
+const PhotoEstimateOutputSchema = EstimateCalorieCountOutputSchema.omit({nutritionLabel: true, metadata: true}).extend({
+  isNutritionLabel: z.boolean().describe('影像是否為包裝食品的營養標示 (而非食物本身)。'),
 });
 
+// Schemas named in prompts/estimateCalorieCount*.prompt
+ai.defineSchema('EstimateCalorieCountPromptInput', EstimateCalorieCountPromptInputSchema);
+ai.defineSchema('EstimateCalorieCountPromptOutput', PhotoEstimateOutputSchema);
+
 const estimateCalorieCountFlow = ai.defineFlow<
   typeof EstimateCalorieCountInputSchema,
   typeof EstimateCalorieCountOutputSchema
@@ -77,22 +63,45 @@ const estimateCalorieCountFlow = ai.defineFlow<
   inputSchema: EstimateCalorieCountInputSchema,
   outputSchema: EstimateCalorieCountOutputSchema, // Use updated schema
 },
-async input => {
-  const {output} = await prompt(input);
+async ({photoDataUri, promptVariant}) => {
+  const startedAt = Date.now();
+  const {prompt, info} = await loadPrompt<typeof EstimateCalorieCountPromptInputSchema, typeof PhotoEstimateOutputSchema>(
+    PROMPT_NAME,
+    resolvePromptVariant(PROMPT_NAME, promptVariant)
+  );
+  const {output} = await prompt({photoDataUri});
   // Ensure output matches the schema, especially when isFoodItem is false
   if (!output) {
      throw new Error("AI 流程未傳回有效的輸出。"); // Translated error
   }
   // The prompt now handles setting defaults for non-food items and language.
-  // We rely on Genkit's schema validation (implicit in definePrompt/defineFlow)
+  // We rely on Genkit's schema validation (the prompt file's output schema and defineFlow)
   // to ensure the output conforms to EstimateCalorieCountOutputSchema.
 
-   // Ensure foodItem is not empty, even if AI fails to provide one
-   if (output.isFoodItem && !output.foodItem) {
-       output.foodItem = "未命名食物"; // Default Traditional Chinese placeholder
-   } else if (!output.isFoodItem && !output.foodItem) {
-       output.foodItem = "未知影像"; // Default Traditional Chinese placeholder for non-food
-   }
+  const {isNutritionLabel, ...estimate} = output;
+  if (isNutritionLabel) {
+    // Read the exact values from the label instead of guessing
+    const label = await readNutritionLabel({photoDataUri});
+    return {...estimateFromNutritionLabel(label), metadata: estimationMetadata(info, startedAt)};
+  }
 
-  return output;
+  return {...normalizeCalorieEstimate(estimate), metadata: estimationMetadata(info, startedAt)};
 });
+
+// Present one serving of a labelled product in the same shape as a photo estimate
+function estimateFromNutritionLabel(label: NutritionLabel): EstimateCalorieCountOutput {
+  const {calorieEstimate, macros, portionGrams} = nutritionForServings(label, 1);
+  return normalizeCalorieEstimate({
+    isFoodItem: true,
+    foodItem: label.productName,
+    calorieEstimate,
+    confidence: 0.95, // Values are read, not estimated; only misreading remains
+    macros,
+    items: [{name: label.productName, portion: label.servingSize, calorieEstimate, macros}],
+    portionGrams,
+    servingUnit: label.servingSize,
+    caloriesPer100g: Math.round(label.per100g.calories),
+    foodCategory: 'packagedFood',
+    nutritionLabel: label,
+  });
+}
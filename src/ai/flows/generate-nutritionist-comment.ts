@@ -0,0 +1,65 @@
+/**
+ * @fileOverview 營養師評論 AI 代理。
+ *
+ * - generateNutritionistComment - 依餐點內容、使用者個人資料、健康目標與當天已吃的餐點撰寫營養師評論的函數。
+ * - GenerateNutritionistCommentInput - generateNutritionistComment 函數的輸入類型。
+ * - GenerateNutritionistCommentOutput - generateNutritionistComment 函數的返回類型。
+ *
+ * 此流程不檢查呼叫者，只供伺服器端使用；
+ * 用戶端請呼叫 src/ai/actions/generate-nutritionist-comment.ts 的 server action，它會驗證身分與配額。
+ */
+
+import {ai, loadPrompt} from '@/ai/ai-instance';
+import {MacronutrientsSchema, MealSummarySchema} from '@/ai/schemas';
+import {z} from 'genkit';
+
+export const GenerateNutritionistCommentInputSchema = z.object({
+  meal: MealSummarySchema.extend({
+    macros: MacronutrientsSchema.optional().describe('巨量營養素。'),
+    items: z.array(z.string()).optional().describe('餐點中的各個品項。'),
+  }).describe('要評論的餐點。'),
+  profile: z.object({
+    age: z.number().nullable(),
+    gender: z.string().nullable(),
+    heightCm: z.number().nullable(),
+    weightKg: z.number().nullable(),
+    activityLevel: z.string().nullable(),
+  }).nullable().describe('使用者個人資料；未填寫的欄位為 null。'),
+  healthGoal: z.string().nullable().describe('健康目標 (例如「減脂」)，未設定時為 null。'),
+  dailyCalorieTarget: z.number().nullable().describe('每日建議攝取熱量 (大卡)，個人資料不完整時為 null。'),
+  earlierMeals: z.array(MealSummarySchema).describe('當天在這餐之前已記錄的餐點。'),
+});
+export type GenerateNutritionistCommentInput = z.infer<typeof GenerateNutritionistCommentInputSchema>;
+
+const GenerateNutritionistCommentOutputSchema = z.object({
+  comment: z.string().describe('給使用者的營養師評論。請使用繁體中文輸出此欄位。'),
+});
+export type GenerateNutritionistCommentOutput = z.infer<typeof GenerateNutritionistCommentOutputSchema>;
+
+export async function generateNutritionistComment(
+  input: GenerateNutritionistCommentInput
+): Promise<GenerateNutritionistCommentOutput> {
+  return generateNutritionistCommentFlow(input);
+}
+
+// Schemas named in prompts/generateNutritionistComment.prompt
+ai.defineSchema('GenerateNutritionistCommentPromptInput', GenerateNutritionistCommentInputSchema);
+ai.defineSchema('GenerateNutritionistCommentPromptOutput', GenerateNutritionistCommentOutputSchema);
+
+const generateNutritionistCommentFlow = ai.defineFlow<
+  typeof GenerateNutritionistCommentInputSchema,
+  typeof GenerateNutritionistCommentOutputSchema
+>({
+  name: 'generateNutritionistCommentFlow',
+  inputSchema: GenerateNutritionistCommentInputSchema,
+  outputSchema: GenerateNutritionistCommentOutputSchema,
+},
+async input => {
+  const {prompt} = await loadPrompt<typeof GenerateNutritionistCommentInputSchema, typeof GenerateNutritionistCommentOutputSchema>('generateNutritionistComment');
+  const {output} = await prompt(input);
+  if (!output?.comment?.trim()) {
+     throw new Error("AI 流程未傳回有效的輸出。");
+  }
+
+  return {comment: output.comment.trim()};
+});
@@ -0,0 +1,56 @@
+/**
+ * @fileOverview 營養標示讀取 AI 代理。
+ *
+ * - readNutritionLabel - 從包裝上的營養標示照片讀出每份、每 100 公克數值與份數的函數。
+ * - ReadNutritionLabelInput - readNutritionLabel 函數的輸入類型。
+ * - NutritionLabel - readNutritionLabel 函數的返回類型。
+ *
+ * 此流程不檢查呼叫者，只由伺服器端的 estimateCalorieCount 流程呼叫，用戶端沒有對應的 server action。
+ */
+
+import {ai, loadPrompt} from '@/ai/ai-instance';
+import {NutritionLabelSchema, type NutritionLabel} from '@/ai/schemas';
+import {z} from 'genkit';
+
+const ReadNutritionLabelInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .describe(
+      "營養標示的照片，格式為 data URI，必須包含 MIME 類型並使用 Base64 編碼。預期格式：'data:<mimetype>;base64,<encoded_data>'。"
+    ),
+});
+export type ReadNutritionLabelInput = z.infer<typeof ReadNutritionLabelInputSchema>;
+
+export type {NutritionLabel};
+
+export async function readNutritionLabel(input: ReadNutritionLabelInput): Promise<NutritionLabel> {
+  return readNutritionLabelFlow(input);
+}
+
+// Schemas named in prompts/readNutritionLabel.prompt
+ai.defineSchema('ReadNutritionLabelPromptInput', ReadNutritionLabelInputSchema);
+ai.defineSchema('ReadNutritionLabelPromptOutput', NutritionLabelSchema);
+
+const readNutritionLabelFlow = ai.defineFlow<
+  typeof ReadNutritionLabelInputSchema,
+  typeof NutritionLabelSchema
+>({
+  name: 'readNutritionLabelFlow',
+  inputSchema: ReadNutritionLabelInputSchema,
+  outputSchema: NutritionLabelSchema,
+},
+async input => {
+  const {prompt} = await loadPrompt<typeof ReadNutritionLabelInputSchema, typeof NutritionLabelSchema>('readNutritionLabel');
+  const {output} = await prompt(input);
+  if (!output) {
+     throw new Error("AI 流程未傳回有效的輸出。");
+  }
+
+  // Servings are used as a multiplier on the client, so keep them positive
+  return {
+    ...output,
+    productName: output.productName || "未命名商品",
+    servingGrams: Math.max(0, output.servingGrams ?? 0),
+    servingsPerPackage: output.servingsPerPackage > 0 ? output.servingsPerPackage : 1,
+  };
+});
@@ -0,0 +1,77 @@
+/**
+ * @fileOverview 下一餐推薦 AI 代理。
+ *
+ * - recommendNextMeal - 依當天已吃的餐點、剩餘熱量與營養素預算、時間與健康目標，推薦幾個具體的下一餐選項的函數。
+ * - RecommendNextMealInput - recommendNextMeal 函數的輸入類型。
+ * - RecommendNextMealOutput - recommendNextMeal 函數的返回類型。
+ * - MealSuggestion - 單一推薦選項的類型。
+ *
+ * 此流程不檢查呼叫者，只供伺服器端使用；
+ * 用戶端請呼叫 src/ai/actions/recommend-next-meal.ts 的 server action，它會驗證身分與配額。
+ */
+
+import {ai, loadPrompt} from '@/ai/ai-instance';
+import {DetectedFoodItemSchema, MacronutrientsSchema, MealSummarySchema} from '@/ai/schemas';
+import {z} from 'genkit';
+
+export const RecommendNextMealInputSchema = z.object({
+  currentTime: z.string().describe('目前時間，格式為 HH:mm。'),
+  mealType: z.string().describe('要推薦的餐別 (例如「午餐」)。'),
+  healthGoal: z.string().nullable().describe('健康目標 (例如「減脂」)，未設定時為 null。'),
+  dailyCalorieTarget: z.number().nullable().describe('每日建議攝取熱量 (大卡)，個人資料不完整時為 null。'),
+  remainingCalories: z.number().nullable().describe('今天剩餘的熱量預算 (大卡)，可能為負數；沒有每日目標時為 null。'),
+  remainingMacros: z.object({
+    protein: z.number(),
+    carbohydrates: z.number(),
+    fat: z.number(),
+  }).nullable().describe('今天剩餘的蛋白質、碳水化合物與脂肪預算 (公克)；沒有每日目標時為 null。'),
+  eatenToday: z.array(MealSummarySchema).describe('今天已記錄的餐點。'),
+  count: z.number().describe('要推薦的選項數量。'),
+});
+export type RecommendNextMealInput = z.infer<typeof RecommendNextMealInputSchema>;
+
+const MealSuggestionSchema = z.object({
+  name: z.string().describe('餐點名稱，例如「雞胸肉沙拉佐糙米飯」。請使用繁體中文輸出此欄位。'),
+  reason: z.string().describe('一句話說明為什麼適合現在吃。請使用繁體中文輸出此欄位。'),
+  items: z.array(DetectedFoodItemSchema).describe('餐點中的各個品項與份量。'),
+  calorieEstimate: z.number().describe('所有品項的估計卡路里總數。'),
+  macros: MacronutrientsSchema.describe('所有品項的巨量營養素估計總和。'),
+  portionGrams: z.number().describe('整份餐點的估計重量 (公克)。'),
+});
+export type MealSuggestion = z.infer<typeof MealSuggestionSchema>;
+
+const RecommendNextMealOutputSchema = z.object({
+  suggestions: z.array(MealSuggestionSchema).describe('推薦的下一餐選項。'),
+});
+export type RecommendNextMealOutput = z.infer<typeof RecommendNextMealOutputSchema>;
+
+export async function recommendNextMeal(input: RecommendNextMealInput): Promise<RecommendNextMealOutput> {
+  return recommendNextMealFlow(input);
+}
+
+// Schemas named in prompts/recommendNextMeal.prompt
+ai.defineSchema('RecommendNextMealPromptInput', RecommendNextMealInputSchema);
+ai.defineSchema('RecommendNextMealPromptOutput', RecommendNextMealOutputSchema);
+
+const recommendNextMealFlow = ai.defineFlow<
+  typeof RecommendNextMealInputSchema,
+  typeof RecommendNextMealOutputSchema
+>({
+  name: 'recommendNextMealFlow',
+  inputSchema: RecommendNextMealInputSchema,
+  outputSchema: RecommendNextMealOutputSchema,
+},
+async input => {
+  const {prompt} = await loadPrompt<typeof RecommendNextMealInputSchema, typeof RecommendNextMealOutputSchema>('recommendNextMeal');
+  const {output} = await prompt(input);
+  if (!output) {
+     throw new Error("AI 流程未傳回有效的輸出。");
+  }
+
+  // Drop empty suggestions and cap the list at the requested count
+  return {
+    suggestions: output.suggestions
+      .filter(suggestion => suggestion.name && suggestion.calorieEstimate > 0)
+      .slice(0, input.count),
+  };
+});
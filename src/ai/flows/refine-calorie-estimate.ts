@@ -0,0 +1,64 @@
+/**
+ * @fileOverview 依使用者修正重新估計卡路里的 AI 代理。
+ *
+ * - refineCalorieEstimate - 根據原始影像 (或描述)、上一次估算與使用者的修正，產生更新後估算的函數。
+ * - RefineCalorieEstimateInput - refineCalorieEstimate 函數的輸入類型。
+ * - EstimateCalorieCountOutput - 與影像估計相同的返回類型。
+ *
+ * 此流程不檢查呼叫者，只供伺服器端使用；
+ * 用戶端請呼叫 src/ai/actions/refine-calorie-estimate.ts 的 server action，它會驗證身分、配額與照片。
+ */
+
+import {ai, loadPrompt} from '@/ai/ai-instance';
+import {
+  EstimateCalorieCountOutputSchema,
+  normalizeCalorieEstimate,
+  type EstimateCalorieCountOutput,
+} from '@/ai/schemas';
+import {z} from 'genkit';
+
+export const RefineCalorieEstimateInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .optional()
+    .describe(
+      "原始的餐點照片，格式為 data URI，必須包含 MIME 類型並使用 Base64 編碼。以文字記錄的餐點沒有照片。"
+    ),
+  description: z.string().optional().describe('沒有照片時，使用者原本對餐點的文字描述。'),
+  previousEstimate: EstimateCalorieCountOutputSchema.omit({nutritionLabel: true, metadata: true}).describe('上一次的估算結果 (可能已被使用者編輯)。'),
+  correction: z.string().describe('使用者這次的修正，例如「這是鹹酥雞不是炸雞，大約 200 克」。'),
+  previousCorrections: z.array(z.string()).describe('先前各輪的修正，由舊到新。'),
+});
+export type RefineCalorieEstimateInput = z.infer<typeof RefineCalorieEstimateInputSchema>;
+
+export type {EstimateCalorieCountOutput};
+
+export async function refineCalorieEstimate(
+  input: RefineCalorieEstimateInput
+): Promise<EstimateCalorieCountOutput> {
+  return refineCalorieEstimateFlow(input);
+}
+
+const RefinedEstimateOutputSchema = EstimateCalorieCountOutputSchema.omit({nutritionLabel: true, metadata: true});
+
+// Schemas named in prompts/refineCalorieEstimate.prompt
+ai.defineSchema('RefineCalorieEstimatePromptInput', RefineCalorieEstimateInputSchema);
+ai.defineSchema('RefineCalorieEstimatePromptOutput', RefinedEstimateOutputSchema);
+
+const refineCalorieEstimateFlow = ai.defineFlow<
+  typeof RefineCalorieEstimateInputSchema,
+  typeof EstimateCalorieCountOutputSchema
+>({
+  name: 'refineCalorieEstimateFlow',
+  inputSchema: RefineCalorieEstimateInputSchema,
+  outputSchema: EstimateCalorieCountOutputSchema,
+},
+async input => {
+  const {prompt} = await loadPrompt<typeof RefineCalorieEstimateInputSchema, typeof RefinedEstimateOutputSchema>('refineCalorieEstimate');
+  const {output} = await prompt(input);
+  if (!output) {
+     throw new Error("AI 流程未傳回有效的輸出。");
+  }
+
+  return normalizeCalorieEstimate(output);
+});
@@ -0,0 +1,44 @@
+/**
+ * @fileOverview 提示變體的 A/B 測試設定與指派。
+ *
+ * 提示存放在 `prompts/` 中的 dotprompt 檔案：`<名稱>.prompt` 是預設變體，`<名稱>.<變體>.prompt` 是其他變體。
+ * 這裡列出正在進行 A/B 測試的提示與其變體；每位使用者依 UID 固定分配到其中一個變體，
+ * 使用的變體會隨估算結果記錄在餐點記錄上，以便比較各變體被使用者修正的比例。
+ *
+ * 此檔案不含伺服器端程式碼，用戶端與 AI 流程都可以匯入。
+ *
+ * - DEFAULT_PROMPT_VARIANT - 預設變體的名稱 (即沒有變體名稱的提示檔)。
+ * - PROMPT_EXPERIMENTS - 進行 A/B 測試的提示與其變體。
+ * - assignPromptVariant - 將使用者固定分配到提示的某個變體。
+ * - resolvePromptVariant - 取得要使用的變體，未知的變體改用預設變體。
+ */
+
+export const DEFAULT_PROMPT_VARIANT = 'default';
+
+// Prompts under A/B test and their variants, each with a `prompts/<prompt>.<variant>.prompt` file.
+// Removing a variant moves its users back to one of the remaining variants.
+export const PROMPT_EXPERIMENTS: Record<string, readonly string[]> = {
+  estimateCalorieCount: [DEFAULT_PROMPT_VARIANT, 'stepwise'],
+};
+
+// FNV-1a; the same user gets the same variant on every device
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function assignPromptVariant(promptName: string, userId: string): string {
+  const variants = PROMPT_EXPERIMENTS[promptName];
+  if (!variants || variants.length === 0) return DEFAULT_PROMPT_VARIANT;
+  // Hashed with the prompt name, so assignments in different experiments are independent
+  return variants[hashString(`${promptName}:${userId}`) % variants.length];
+}
+
+// Requests may come from clients with an outdated experiment list
+export function resolvePromptVariant(promptName: string, variant: string | undefined): string {
+  return variant && PROMPT_EXPERIMENTS[promptName]?.includes(variant) ? variant : DEFAULT_PROMPT_VARIANT;
+}
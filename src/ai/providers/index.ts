@@ -0,0 +1,45 @@
+/**
+ * @fileOverview AI 模型供應者的選擇。
+ *
+ * 由環境變數 `AI_PROVIDER` 決定使用哪個供應者：
+ * - `googleai` (預設)：Google AI 的 Gemini 模型，需要 `GOOGLE_GENAI_API_KEY`。
+ * - `stub`：本機的確定性模型，依 fixture 回傳固定的估算結果，不需 API 金鑰或網路。
+ */
+
+import type {GenkitPlugin} from 'genkit/plugin';
+import {googleAI} from '@genkit-ai/googleai';
+import {stubAI, STUB_MODEL_NAME} from '@/ai/providers/stub';
+
+export type AiProviderName = 'googleai' | 'stub';
+
+export interface AiProvider {
+  name: AiProviderName;
+  plugins: GenkitPlugin[];
+  model: string; // Fully qualified model name, e.g. 'googleai/gemini-2.0-flash'
+}
+
+const providers: Record<AiProviderName, () => AiProvider> = {
+  googleai: () => ({
+    name: 'googleai',
+    plugins: [
+      googleAI({
+        apiKey: process.env.GOOGLE_GENAI_API_KEY,
+      }),
+    ],
+    model: 'googleai/gemini-2.0-flash',
+  }),
+  stub: () => ({
+    name: 'stub',
+    plugins: [stubAI({fixturesPath: process.env.AI_STUB_FIXTURES})],
+    model: STUB_MODEL_NAME,
+  }),
+};
+
+export function resolveAiProvider(name: string | undefined): AiProvider {
+  const providerName = (name || 'googleai') as AiProviderName;
+  const createProvider = providers[providerName];
+  if (!createProvider) {
+    throw new Error(`未知的 AI 供應者「${name}」。可用的供應者：${Object.keys(providers).join(', ')}`);
+  }
+  return createProvider();
+}
@@ -0,0 +1,110 @@
+/**
+ * @fileOverview 離線用的確定性 AI 模型。
+ *
+ * 依 fixture 回傳固定的結構化輸出，讓估算流程與整個記錄流程可以在沒有網路或 API 金鑰的環境下執行。
+ *
+ * 選擇 fixture 的規則 (依序)：
+ * 1. 只考慮輸出包含請求結構所有必要欄位的 fixture。
+ * 2. 有 `match` 條件且全部符合的 fixture 優先 (`text`：提示文字包含此字串；`mediaSha256`：影像 data URI 的 SHA-256)。
+ * 3. 否則使用沒有 `match` 條件的預設 fixture。
+ * 4. 都沒有時，依輸出結構產生空值 (0、空字串、false、空陣列)。
+ */
+
+import {createHash} from 'crypto';
+import {readFileSync} from 'fs';
+import type {GenerateRequest, GenerateResponseData} from 'genkit/model';
+import {genkitPlugin} from 'genkit/plugin';
+import defaultFixtures from '@/ai/providers/stub-fixtures.json';
+
+export const STUB_MODEL_NAME = 'stub/calorie-snap';
+
+export interface StubFixture {
+  name: string;
+  match?: {
+    text?: string;
+    mediaSha256?: string;
+  };
+  output: Record<string, unknown>;
+}
+
+interface StubOptions {
+  fixturesPath?: string; // JSON file with a StubFixture array, replaces the bundled fixtures
+}
+
+function loadFixtures(fixturesPath: string | undefined): StubFixture[] {
+  if (!fixturesPath) return defaultFixtures as StubFixture[];
+  return JSON.parse(readFileSync(fixturesPath, 'utf-8')) as StubFixture[];
+}
+
+export function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// Build an empty value that satisfies the given JSON schema
+function emptyValueForSchema(schema: Record<string, any> | undefined): unknown {
+  switch (schema?.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, propertySchema]) => [
+          key,
+          emptyValueForSchema(propertySchema as Record<string, any>),
+        ])
+      );
+    case 'array':
+      return [];
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'string':
+      return '';
+    default:
+      return null;
+  }
+}
+
+export function selectFixture(fixtures: StubFixture[], request: GenerateRequest): StubFixture | null {
+  const parts = request.messages.flatMap(message => message.content);
+  const text = parts.map(part => part.text ?? '').join('\n');
+  const mediaHashes = parts.filter(part => part.media?.url).map(part => sha256(part.media!.url));
+
+  const schema = request.output?.schema;
+  const requiredKeys: string[] = schema?.required ?? Object.keys(schema?.properties ?? {});
+  const candidates = fixtures.filter(fixture => requiredKeys.every(key => key in fixture.output));
+
+  const matched = candidates.find(
+    ({match}) =>
+      match &&
+      (!match.text || text.includes(match.text)) &&
+      (!match.mediaSha256 || mediaHashes.includes(match.mediaSha256))
+  );
+  return matched ?? candidates.find(fixture => !fixture.match) ?? null;
+}
+
+export function stubAI(options: StubOptions = {}) {
+  return genkitPlugin('stub', async ai => {
+    const fixtures = loadFixtures(options.fixturesPath);
+
+    ai.defineModel(
+      {
+        name: STUB_MODEL_NAME,
+        label: 'CalorieSnap 離線測試模型',
+        // Constrained output makes Genkit pass the output schema in the request, which fixture selection relies on
+        supports: {media: true, multiturn: true, systemRole: true, constrained: 'all', output: ['json', 'text']},
+      },
+      async (request): Promise<GenerateResponseData> => {
+        const fixture = selectFixture(fixtures, request);
+        const output = fixture?.output ?? emptyValueForSchema(request.output?.schema);
+        return {
+          message: {
+            role: 'model',
+            content: [{text: JSON.stringify(output)}],
+          },
+          finishReason: 'stop',
+          custom: {fixture: fixture?.name ?? null},
+        };
+      }
+    );
+  });
+}
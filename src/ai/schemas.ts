@@ -0,0 +1,132 @@
+/**
+ * @fileOverview 各 AI 流程共用的結構定義。
+ *
+ * 'use server' 檔案只能匯出非同步函數，因此需要在多個流程之間共用的 zod 結構放在這裡。
+ *
+ * - MacronutrientsSchema - 巨量營養素明細的結構。
+ * - Macronutrients - 巨量營養素明細的類型。
+ * - DetectedFoodItemSchema - 影像中辨識出的單一食物品項的結構。
+ * - DetectedFoodItem - 單一食物品項的類型。
+ * - NutritionFactsSchema - 營養標示中一欄 (每份或每 100 公克) 數值的結構。
+ * - NutritionLabelSchema - 從營養標示讀出的完整資料結構。
+ * - NutritionLabel - 營養標示資料的類型。
+ * - FOOD_CATEGORIES - 餐點的分類 (用於統計使用者修正 AI 估算的情形)。
+ * - FoodCategory - 餐點分類的類型。
+ * - EstimationMetadataSchema - 產生估算的模型、提示版本與耗時的結構 (由流程填入)。
+ * - EstimationMetadata - 估算中繼資料的類型。
+ * - EstimateCalorieCountOutputSchema - 卡路里估計流程 (影像或文字) 的輸出結構。
+ * - EstimateCalorieCountOutput - 卡路里估計流程的輸出類型。
+ * - normalizeCalorieEstimate - 補齊並修正 AI 輸出中缺漏或無效的欄位。
+ * - MealSummarySchema - 當天已記錄餐點的摘要結構 (供營養師評論與餐點推薦流程使用)。
+ * - MealSummary - 餐點摘要的類型。
+ */
+
+import {z} from 'genkit';
+
+export const MacronutrientsSchema = z.object({
+  protein: z.number().describe('蛋白質 (公克)。'),
+  carbohydrates: z.number().describe('碳水化合物 (公克)。'),
+  fat: z.number().describe('脂肪 (公克)。'),
+  fiber: z.number().describe('膳食纖維 (公克)。'),
+  sugar: z.number().describe('糖 (公克)。'),
+  sodium: z.number().describe('鈉 (毫克)。'),
+});
+export type Macronutrients = z.infer<typeof MacronutrientsSchema>;
+
+export const DetectedFoodItemSchema = z.object({
+  name: z.string().describe('食物品項名稱。請使用繁體中文輸出此欄位。'),
+  portion: z.string().describe('份量描述，例如「一碗」、「半份」、「約 100 公克」。請使用繁體中文輸出此欄位。'),
+  calorieEstimate: z.number().describe('此品項的估計卡路里數。'),
+  macros: MacronutrientsSchema.describe('此品項的巨量營養素估計。'),
+});
+export type DetectedFoodItem = z.infer<typeof DetectedFoodItemSchema>;
+
+export const NutritionFactsSchema = z.object({
+  calories: z.number().describe('熱量 (大卡)。'),
+  macros: MacronutrientsSchema.describe('營養素數值；標示上沒有列出的項目請設為 0。'),
+});
+
+export const NutritionLabelSchema = z.object({
+  productName: z.string().describe('商品名稱；標示上沒有時，請依包裝內容以繁體中文簡短描述。'),
+  servingSize: z.string().describe('每一份量的描述，照標示原文輸出，例如「30 公克」、「250 毫升」。'),
+  servingGrams: z.number().describe('每一份量的重量 (公克)；以毫升標示時視為公克。'),
+  servingsPerPackage: z.number().describe('本包裝所含份數。'),
+  perServing: NutritionFactsSchema.describe('每份的數值。'),
+  per100g: NutritionFactsSchema.describe('每 100 公克 (或 100 毫升) 的數值。'),
+});
+export type NutritionLabel = z.infer<typeof NutritionLabelSchema>;
+
+// Broad enough that each category collects corrections quickly, distinct enough to show where a model struggles
+export const FOOD_CATEGORIES = [
+  'riceAndNoodles',
+  'mixedMeal',
+  'meatAndSeafood',
+  'vegetablesAndFruit',
+  'dairyAndEggs',
+  'snacksAndDesserts',
+  'beverages',
+  'packagedFood',
+  'other',
+] as const;
+export const FoodCategorySchema = z.enum(FOOD_CATEGORIES);
+export type FoodCategory = z.infer<typeof FoodCategorySchema>;
+
+export const EstimationMetadataSchema = z.object({
+  model: z.string(), // Fully qualified model name, e.g. 'googleai/gemini-2.0-flash'
+  promptVersion: z.string(), // Prompt file and the version in its front matter, e.g. 'estimateCalorieCount@1'
+  promptVariant: z.string(), // A/B test variant of the prompt, 'default' outside of experiments
+  latencyMs: z.number(), // Time spent in the flow, model calls included
+});
+export type EstimationMetadata = z.infer<typeof EstimationMetadataSchema>;
+
+// Shared by the photo and text estimation flows, so both paths produce the same structured estimate
+export const EstimateCalorieCountOutputSchema = z.object({
+  isFoodItem: z.boolean().describe('影像或描述是否包含可辨識的食物品項。'),
+  foodItem: z.string().describe('辨識出的餐點名稱 (如果 isFoodItem 為 true)，多個品項時為整體餐點的簡短名稱。如果不是食物，則為內容描述。 請使用繁體中文輸出此欄位。'), // Added request for Traditional Chinese
+  calorieEstimate: z.number().describe('所有食物品項的估計卡路里總數 (如果 isFoodItem 為 true)。如果不是食物，則為 0。'),
+  confidence: z.number().describe('卡路里估計的信賴度（0-1）。如果 isFoodItem 為 false，則為 0。'), // Clarified confidence for non-food
+  macros: MacronutrientsSchema.describe('所有食物品項的巨量營養素估計總和 (如果 isFoodItem 為 true)。如果不是食物，所有數值皆為 0。'),
+  items: z.array(DetectedFoodItemSchema).describe('辨識出的各個食物品項。如果不是食物，則為空陣列。'),
+  portionGrams: z.number().describe('整份餐點的估計重量 (公克)。如果不是食物，則為 0。'),
+  servingUnit: z.string().describe('整份餐點的份量單位描述，例如「一個便當」、「一碗」。請使用繁體中文輸出此欄位。如果不是食物，則為空字串。'),
+  caloriesPer100g: z.number().describe('整份餐點每 100 公克的估計卡路里數。如果不是食物，則為 0。'),
+  foodCategory: FoodCategorySchema.describe(
+    '整份餐點的分類：riceAndNoodles (飯、麵等主食)、mixedMeal (便當、自助餐、合菜等多樣組合)、meatAndSeafood (肉類、海鮮)、vegetablesAndFruit (蔬菜、水果、沙拉)、dairyAndEggs (蛋、奶製品)、snacksAndDesserts (零食、甜點)、beverages (飲料)、packagedFood (包裝食品)、other (其他)。如果不是食物，則為 other。'
+  ),
+  // Filled in by the label-reading flow, never by the estimation prompts; lets the client rescale by servings
+  nutritionLabel: NutritionLabelSchema.optional(),
+  // Filled in by the estimation flows, never by the prompts; stored with the logged entry to evaluate models and prompts
+  metadata: EstimationMetadataSchema.optional(),
+});
+export type EstimateCalorieCountOutput = z.infer<typeof EstimateCalorieCountOutputSchema>;
+
+// Fill in placeholders and clamp values the AI may have left empty or invalid
+export function normalizeCalorieEstimate(output: EstimateCalorieCountOutput): EstimateCalorieCountOutput {
+  // Ensure foodItem is not empty, even if AI fails to provide one
+  if (output.isFoodItem && !output.foodItem) {
+    output.foodItem = "未命名食物"; // Default Traditional Chinese placeholder
+  } else if (!output.isFoodItem && !output.foodItem) {
+    output.foodItem = "未知影像"; // Default Traditional Chinese placeholder for non-food
+  }
+
+  // Portion weight is used to rescale calories on the client, so never let it go negative
+  output.portionGrams = Math.max(0, output.portionGrams ?? 0);
+  output.caloriesPer100g = Math.max(0, output.caloriesPer100g ?? 0);
+  output.foodCategory = output.isFoodItem ? (output.foodCategory ?? 'other') : 'other';
+
+  // Name any items the AI left unnamed
+  output.items = (output.items ?? []).map(item => ({
+    ...item,
+    name: item.name || "未命名食物",
+  }));
+
+  return output;
+}
+
+export const MealSummarySchema = z.object({
+  foodItem: z.string().describe('餐點名稱。'),
+  calorieEstimate: z.number().describe('卡路里。'),
+  mealType: z.string().nullable().describe('餐別 (例如「早餐」)，未設定時為 null。'),
+  time: z.string().describe('用餐時間，格式為 HH:mm。'),
+});
+export type MealSummary = z.infer<typeof MealSummarySchema>;
@@ -5,6 +5,7 @@ import {Geist, Geist_Mono} from 'next/font/google';
 import './globals.css';
 import { Toaster } from "@/components/ui/toaster"; // Import Toaster
 import { AuthProvider } from '@/context/auth-context'; // Import AuthProvider
+import { RepositoryProvider } from '@/context/repository-context';
 
 const geistSans = Geist({
   variable: '--font-geist-sans',
@@ -29,10 +30,12 @@ export default function RootLayout({
   return (
     <html lang="zh-Hant" className="h-full">{/* Remove whitespace around body */}
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased h-full`}> {/* Full height */}
-        <AuthProvider> {/* Wrap children with AuthProvider */}
-          {children}
-          <Toaster /> {/* Add Toaster here */}
-        </AuthProvider>
+        <RepositoryProvider> {/* Data access for AuthProvider and the app */}
+          <AuthProvider> {/* Wrap children with AuthProvider */}
+            {children}
+            <Toaster /> {/* Add Toaster here */}
+          </AuthProvider>
+        </RepositoryProvider>
       </body>
     </html>
   );
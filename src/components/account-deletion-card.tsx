@@ -0,0 +1,204 @@
+"use client";
+
+import React, { useState } from 'react';
+import { addDays, startOfDay } from 'date-fns';
+import { Download, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingSpinner } from '@/components/loading-spinner';
+import { useAuth } from '@/context/auth-context';
+import { useRepository } from '@/context/repository-context';
+import { useToast } from '@/hooks/use-toast';
+import useLocalStorage from '@/hooks/use-local-storage';
+import { exportUserData, downloadBlob } from '@/lib/data/export';
+import type { DeletionProgress, UserProfile } from '@/lib/data/types';
+
+// Typed by the user in the final step, so the account can't be deleted by a stray click
+const CONFIRMATION_TEXT = '刪除我的帳號';
+
+type Step = 'export' | 'confirm' | 'deleting';
+
+// Failures of the sign-in that confirms the user's identity; nothing has been deleted yet
+const REAUTHENTICATION_ERROR_CODES = ['auth/popup-closed-by-user', 'auth/cancelled-popup-request', 'auth/user-mismatch', 'auth/popup-blocked'];
+
+const errorCode = (error: unknown) => (error as { code?: string } | null)?.code ?? '';
+
+const deletionErrorMessage = (error: unknown) => {
+  switch (errorCode(error)) {
+    case 'auth/popup-closed-by-user':
+    case 'auth/cancelled-popup-request':
+      return "需要重新登入以確認身分，帳號未刪除。";
+    case 'auth/user-mismatch':
+      return "請使用目前登入的 Google 帳號確認身分，帳號未刪除。";
+    case 'auth/popup-blocked':
+      return "瀏覽器封鎖了登入視窗，請允許彈出視窗後再試一次。";
+    default:
+      return "刪除未完成，已刪除的資料無法復原。請檢查網路連線後按「繼續刪除」完成剩下的部分。";
+  }
+};
+
+interface AccountDeletionCardProps {
+  profile: UserProfile | null;
+}
+
+// Settings card to permanently delete the account: offers a full export first, asks for a typed
+// confirmation, then erases all data in batches and deletes the auth user. If that is interrupted,
+// the card offers to continue where it stopped.
+export function AccountDeletionCard({ profile }: AccountDeletionCardProps) {
+  const { user, deleteAccount } = useAuth();
+  const repository = useRepository();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [step, setStep] = useState<Step>('export');
+  const [confirmation, setConfirmation] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState<DeletionProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // UID of an account whose deletion was started on this device but didn't finish
+  const [unfinishedDeletion, setUnfinishedDeletion] = useLocalStorage<string | null>('unfinishedAccountDeletion', null);
+
+  if (!user || user.isGuest) return null;
+  const isUnfinished = unfinishedDeletion === user.uid;
+
+  const openDialog = () => {
+    // An unfinished deletion skips the export: the data is already partly gone
+    setStep(isUnfinished ? 'confirm' : 'export');
+    setConfirmation('');
+    setProgress(null);
+    setError(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleExport = async () => {
+    if (!repository) return;
+    setIsExporting(true);
+    try {
+      const everything = { start: new Date(0), end: addDays(startOfDay(new Date()), 1) };
+      const result = await exportUserData(repository, user.uid, profile, everything, { format: 'json', includePhotos: true });
+      downloadBlob(result.blob, result.fileName);
+      toast({
+        title: "匯出完成",
+        description: `已匯出 ${result.calorieCount} 筆餐點記錄與 ${result.waterCount} 筆飲水記錄。` +
+          (result.missingPhotos > 0 ? ` 有 ${result.missingPhotos} 張照片無法下載，未包含在壓縮檔中。` : ''),
+      });
+    } catch (exportError) {
+      console.error("Error exporting data before account deletion:", exportError);
+      toast({
+        title: "匯出失敗",
+        description: "無法匯出資料，請檢查網路連線後再試一次。",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setStep('deleting');
+    setError(null);
+    try {
+      setUnfinishedDeletion(user.uid);
+      await deleteAccount(setProgress);
+      setUnfinishedDeletion(null);
+      setIsDialogOpen(false);
+      toast({ title: "帳號已刪除", description: "您的帳號、所有記錄與照片都已永久刪除。" });
+    } catch (deleteError) {
+      console.error("Error deleting account:", deleteError);
+      if (!isUnfinished && REAUTHENTICATION_ERROR_CODES.includes(errorCode(deleteError))) setUnfinishedDeletion(null);
+      setError(deletionErrorMessage(deleteError));
+      setStep('confirm');
+    }
+  };
+
+  const isDeleting = step === 'deleting';
+
+  return (
+    <Card className="border-destructive/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-destructive"><Trash2 size={20} /> 刪除帳號</CardTitle>
+        <CardDescription>永久刪除您的帳號、個人資料、所有餐點與飲水記錄，以及上傳的照片。此操作無法復原。</CardDescription>
+      </CardHeader>
+      {isUnfinished && (
+        <CardContent>
+          <Alert variant="destructive">
+            <AlertTitle>帳號刪除尚未完成</AlertTitle>
+            <AlertDescription>先前的刪除在完成前中斷了，部分資料可能已經刪除。請按「繼續刪除」完成剩下的部分。</AlertDescription>
+          </Alert>
+        </CardContent>
+      )}
+      <CardFooter>
+        <Button variant="destructive" onClick={openDialog} disabled={!repository} className="w-full">
+          <Trash2 className="mr-2 h-4 w-4" />
+          {isUnfinished ? "繼續刪除" : "刪除我的帳號"}
+        </Button>
+      </CardFooter>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => { if (!isDeleting) setIsDialogOpen(open); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-destructive">刪除帳號</DialogTitle>
+            <DialogDescription>
+              {step === 'export' && "刪除後將無法復原。建議先下載一份完整的資料備份 (JSON 與照片的壓縮檔)。"}
+              {step === 'confirm' && `確認後會請您重新登入 Google 以驗證身分，接著永久刪除所有資料。請輸入「${CONFIRMATION_TEXT}」以確認。`}
+              {step === 'deleting' && "正在刪除資料，請勿關閉此頁面..."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {step === 'export' && (
+            <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+              {isExporting ? <LoadingSpinner size={16} className="mr-2" /> : <Download className="mr-2 h-4 w-4" />}
+              {isExporting ? "匯出中..." : "下載我的所有資料"}
+            </Button>
+          )}
+
+          {step === 'confirm' && (
+            <div className="space-y-2">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertTitle>錯誤</AlertTitle>
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              <Label htmlFor="delete-account-confirmation">確認文字</Label>
+              <Input
+                id="delete-account-confirmation"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder={CONFIRMATION_TEXT}
+                autoComplete="off"
+              />
+            </div>
+          )}
+
+          {step === 'deleting' && (
+            <div className="flex items-center gap-3 text-sm text-muted-foreground">
+              <LoadingSpinner size={20} />
+              <span>
+                {progress
+                  ? `已刪除 ${progress.calorieEntries} 筆餐點、${progress.waterEntries} 筆飲水記錄與 ${progress.photos} 個照片檔案`
+                  : "正在驗證身分..."}
+              </span>
+            </div>
+          )}
+
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isDeleting || isExporting}>取消</Button>
+            {step === 'export' && (
+              <Button variant="destructive" onClick={() => setStep('confirm')} disabled={isExporting}>下一步</Button>
+            )}
+            {step !== 'export' && (
+              <Button variant="destructive" onClick={handleDelete} disabled={isDeleting || confirmation.trim() !== CONFIRMATION_TEXT}>
+                {isDeleting && <LoadingSpinner size={16} className="mr-2" />}
+                永久刪除
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import React, { useState } from 'react';
+import { addDays, startOfDay, subDays } from 'date-fns';
+import { Sparkles } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useCalorieEntries } from '@/hooks/use-log-data';
+import { FOOD_CATEGORY_LABELS, correctionStatsByCategory, correctionStatsByPrompt } from '@/lib/data/ai-corrections';
+
+const STATS_DAYS = 90;
+
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${Math.round(value)}`;
+
+// Settings card showing how often and by how much the user corrected AI estimates in each food category
+// and for each prompt version and A/B variant
+export function AiCorrectionStatsCard() {
+  // Fixed on mount, so the subscription isn't restarted on every render
+  const [range] = useState(() => ({ start: subDays(startOfDay(new Date()), STATS_DAYS - 1), end: addDays(startOfDay(new Date()), 1) }));
+  const { entries, loading, error } = useCalorieEntries(range);
+
+  const stats = correctionStatsByCategory(entries);
+  const promptStats = correctionStatsByPrompt(entries);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Sparkles size={20} /> AI 估算修正統計</CardTitle>
+        <CardDescription>最近 {STATS_DAYS} 天中，各類餐點的 AI 估算被您修正的頻率與幅度 (卡路里)。</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {loading && <Skeleton className="h-24 w-full" />}
+        {!loading && error && <p className="text-sm text-destructive">{error}</p>}
+        {!loading && !error && stats.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">還沒有 AI 估算的記錄。</p>
+        )}
+        {!loading && !error && stats.length > 0 && (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>分類</TableHead>
+                  <TableHead className="text-right">修正 / 記錄</TableHead>
+                  <TableHead className="text-right">平均修正 (卡)</TableHead>
+                  <TableHead className="text-right">平均幅度</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stats.map(row => (
+                  <TableRow key={row.category}>
+                    <TableCell>{FOOD_CATEGORY_LABELS[row.category] ?? row.category}</TableCell>
+                    <TableCell className="text-right">
+                      {row.overridden} / {row.entries} ({Math.round((row.overridden / row.entries) * 100)}%)
+                    </TableCell>
+                    <TableCell className="text-right">{row.overridden > 0 ? formatSigned(row.meanCalorieChange) : '-'}</TableCell>
+                    <TableCell className="text-right">{row.overridden > 0 ? `${Math.round(row.meanAbsolutePercentChange)}%` : '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>提示版本 (變體)</TableHead>
+                  <TableHead className="text-right">修正 / 記錄</TableHead>
+                  <TableHead className="text-right">平均幅度</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promptStats.map(row => (
+                  <TableRow key={`${row.promptVersion}-${row.promptVariant}`}>
+                    <TableCell className="break-all">{row.promptVersion} ({row.promptVariant})</TableCell>
+                    <TableCell className="text-right">
+                      {row.overridden} / {row.entries} ({Math.round((row.overridden / row.entries) * 100)}%)
+                    </TableCell>
+                    <TableCell className="text-right">{row.overridden > 0 ? `${Math.round(row.meanAbsolutePercentChange)}%` : '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground">平均修正為正數表示 AI 低估。</p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
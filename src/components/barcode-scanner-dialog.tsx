@@ -0,0 +1,144 @@
+"use client";
+
+import React, { useState, useEffect, useRef } from 'react';
+import { ScanBarcode, Info } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { normalizeBarcode } from '@/lib/product-database';
+
+// Minimal typing for the Shape Detection API's BarcodeDetector (not yet in TypeScript's DOM lib)
+interface DetectedBarcode {
+  rawValue: string;
+}
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorInstance;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | null => {
+  if (typeof window === 'undefined') return null;
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null;
+};
+
+const SCAN_INTERVAL_MS = 500;
+
+interface BarcodeScannerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDetected: (barcode: string) => void;
+}
+
+export function BarcodeScannerDialog({ open, onOpenChange, onDetected }: BarcodeScannerDialogProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [manualBarcode, setManualBarcode] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+
+    const BarcodeDetector = getBarcodeDetector();
+    if (!BarcodeDetector) {
+      setScanError('您的瀏覽器不支援條碼掃描，請手動輸入條碼。');
+      return;
+    }
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setScanError('您的瀏覽器不支援相機存取，請手動輸入條碼。');
+      return;
+    }
+
+    setScanError(null);
+    let stream: MediaStream | null = null;
+    let scanTimer: ReturnType<typeof setInterval> | null = null;
+    let cancelled = false;
+    const detector = new BarcodeDetector({ formats: ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128'] });
+
+    const startScanning = async () => {
+      try {
+        // Prefer the rear camera on phones
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (cancelled || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        scanTimer = setInterval(async () => {
+          if (!videoRef.current || videoRef.current.readyState < 2) return; // Wait for video frames
+          try {
+            const barcodes = await detector.detect(videoRef.current);
+            if (barcodes.length > 0 && !cancelled) {
+              cancelled = true; // Report only the first detection
+              onDetected(normalizeBarcode(barcodes[0].rawValue));
+            }
+          } catch (detectError) {
+            console.error('偵測條碼時發生錯誤:', detectError);
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (error) {
+        console.error('啟動條碼掃描相機時發生錯誤:', error);
+        setScanError('無法存取相機，請手動輸入條碼。');
+      }
+    };
+
+    startScanning();
+
+    // Stop scanning and release the camera when the dialog closes
+    return () => {
+      cancelled = true;
+      if (scanTimer) clearInterval(scanTimer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [open, onDetected]);
+
+  const submitManualBarcode = () => {
+    const barcode = normalizeBarcode(manualBarcode);
+    if (!barcode) return;
+    setManualBarcode('');
+    onDetected(barcode);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><ScanBarcode size={20} /> 掃描條碼</DialogTitle>
+          <DialogDescription>將包裝上的條碼對準鏡頭，或手動輸入條碼號碼。</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          {scanError ? (
+            <Alert variant="orange">
+              <Info className="h-4 w-4" />
+              <AlertTitle>無法掃描</AlertTitle>
+              <AlertDescription>{scanError}</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="relative w-full aspect-video rounded-md overflow-hidden border bg-muted">
+              <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+              {/* Aiming guide */}
+              <div className="absolute inset-x-8 top-1/2 -translate-y-1/2 h-16 border-2 border-primary/70 rounded-md pointer-events-none" />
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="manual-barcode">手動輸入條碼</Label>
+            <div className="flex gap-2">
+              <Input
+                id="manual-barcode"
+                inputMode="numeric"
+                value={manualBarcode}
+                onChange={(e) => setManualBarcode(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') submitManualBarcode(); }}
+                placeholder="條碼下方的數字，例如 2000000000015 (範例商品)"
+                className="bg-muted"
+              />
+              <Button onClick={submitManualBarcode} disabled={!manualBarcode.trim()}>查詢</Button>
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>取消</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -36,6 +36,15 @@ import {
   Target, // Icon for Health Goal
   ListChecks, // Icon for 7-day summary
   LineChart as LineChartIcon, // Icon for chart
+  PencilLine, // Icon for describing a meal in text
+  Sparkles, // Icon for AI estimation from text
+  ScanBarcode, // Icon for barcode scanning
+  MessageSquareText, // Icon for refining an estimate with a correction
+  Lightbulb, // Icon for meal recommendations
+  CalendarClock, // Icon for planned entries
+  CircleCheck, // Icon for marking a planned entry as eaten
+  CloudOff, // Icon for entries waiting to sync
+  FileUp, // Icon for importing history
 } from 'lucide-react';
 import {
   Tabs,
@@ -48,9 +57,33 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { LoadingSpinner } from '@/components/loading-spinner';
-import { estimateCalorieCount, EstimateCalorieCountOutput } from '@/ai/flows/estimate-calorie-count';
+import { estimateCalorieCountAction } from '@/ai/actions/estimate-calorie-count';
+import { EstimationRequestError, validatePhotoDataUri, type EstimationResult } from '@/ai/estimation-request';
+import { estimateCalorieCountFromTextAction } from '@/ai/actions/estimate-calorie-count-from-text';
+import { refineCalorieEstimateAction } from '@/ai/actions/refine-calorie-estimate';
+import { assignPromptVariant } from '@/ai/prompt-variants';
+import { generateNutritionistCommentAction } from '@/ai/actions/generate-nutritionist-comment';
+import { recommendNextMealAction } from '@/ai/actions/recommend-next-meal';
+import type { MealSuggestion } from '@/ai/flows/recommend-next-meal';
+import type { DetectedFoodItem, EstimateCalorieCountOutput, Macronutrients } from '@/ai/schemas';
+import { macroFields, emptyMacros, parseMacroValue, formatMacroValue, sumMacros, summarizeItems, scaleToPortion, nutritionForServings } from '@/lib/nutrition';
+import { Checkbox } from '@/components/ui/checkbox';
+import { PortionInput } from '@/components/portion-input';
+import { ServingsInput } from '@/components/servings-input';
+import { BarcodeScannerDialog } from '@/components/barcode-scanner-dialog';
+import { DataExportCard } from '@/components/data-export-card';
+import { TrashCard } from '@/components/trash-card';
+import { AiCorrectionStatsCard } from '@/components/ai-correction-stats-card';
+import { EntryRevisionHistory } from '@/components/entry-revision-history';
+import { AccountDeletionCard } from '@/components/account-deletion-card';
+import { ImportWizardDialog } from '@/components/import-wizard-dialog';
+import { GuestMergeDialog } from '@/components/guest-merge-dialog';
+import { ProductFormDialog } from '@/components/product-form-dialog';
+import { findProductByBarcode, CUSTOM_PRODUCTS_STORAGE_KEY, type CustomProducts, type PackagedProduct } from '@/lib/product-database';
 import useLocalStorage, { LocalStorageError } from '@/hooks/use-local-storage';
+import { useDayKey } from '@/hooks/use-day-key';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { isValidDate, cn } from '@/lib/utils';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
@@ -73,7 +106,7 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { Calendar } from "@/components/ui/calendar";
-import { format, isSameDay, startOfDay, subDays, startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
+import { format, isSameDay, startOfDay, subDays, addDays, addMonths, startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
 import { zhTW } from 'date-fns/locale';
 import { Skeleton } from "@/components/ui/skeleton";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"; // Import Accordion components
@@ -85,56 +118,45 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip"; // Import Tooltip components
 import { useAuth } from '@/context/auth-context'; // Import useAuth hook
-import { LoginButton } from '@/components/login-button'; // Import LoginButton
+import { LoginButton, GuestModeButton } from '@/components/login-button'; // Import LoginButton
 import { UserProfileDisplay } from '@/components/user-profile-display'; // Import UserProfileDisplay
-import { collection, addDoc, query, where, getDocs, updateDoc, deleteDoc, doc, orderBy, limit, onSnapshot, Timestamp, writeBatch, setDoc } from 'firebase/firestore'; // Firestore imports
-import { db } from '@/lib/firebase/config'; // Import db instance
+import { Timestamp } from 'firebase/firestore';
+import { auth, storage } from '@/lib/firebase/config'; // Import storage instance
+import { useRepository } from '@/context/repository-context';
+import { useCalorieEntries, useWaterEntries, useProfile, useSyncStatus } from '@/hooks/use-log-data';
+import { trashCalorieEntry, restoreCalorieEntry, trashWaterEntries, restoreWaterEntries, purgeExpiredTrash, TRASH_RETENTION_DAYS } from '@/lib/data/trash';
+import type { CalorieLogEntry, CalorieEntryUpdate, WaterLogEntry, UserProfile, MealType, HealthGoal, EstimateRefinement, OriginalEstimate, AiEstimationMetadata, DateRange } from '@/lib/data/types';
+import { toOriginalEstimate, withRevision } from '@/lib/data/revisions';
+import { aiMetadataAfterEdit, isEstimateOverridden, toAiMetadata } from '@/lib/data/ai-corrections';
+import { migrateDataUrlPhotos, isDataUrl } from '@/lib/firebase/meal-photos';
+import { fetchMonthSummary, invalidateMonthSummary, summarizeByDay, type DaySummary, type MonthSummary } from '@/lib/data/month-summaries';
 import { LineChart, Line, CartesianGrid, XAxis, YAxis, LabelList, ResponsiveContainer, Tooltip as RechartsTooltip } from 'recharts';
 import { ChartContainer, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
 
 
-type MealType = 'Breakfast' | 'Lunch' | 'Dinner' | 'Snack';
 type LogViewMode = 'daily' | 'monthly';
 type MonthlySortCriteria = 'time-desc' | 'time-asc' | 'calories-desc' | 'calories-asc';
-type HealthGoal = 'muscleGain' | 'fatLoss' | 'maintenance'; // New type for health goals
-
-// Update CalorieLogEntry to store Firestore document ID
-export interface CalorieLogEntry {
-  id: string; // Firestore document ID
-  userId: string; // Added userId field
-  foodItem: string;
-  calorieEstimate: number;
-  imageUrl: string | null; // Can be null if no image or during loading
-  timestamp: Timestamp; // Use Firestore Timestamp
-  mealType: MealType | null;
-  location: string | null;
-  cost: number | null; // Changed to number | null
-  notes?: string; // Optional user notes
-  confidence?: number; // AI confidence score (0-1)
-  nutritionistComment?: string; // Placeholder for nutritionist comments
-}
 
-// Update WaterLogEntry to store Firestore document ID
-export interface WaterLogEntry {
-    id: string; // Firestore document ID
-    userId: string; // Added userId field
-    timestamp: Timestamp; // Use Firestore Timestamp
-    amount: number; // in ml
-}
+const OFFLINE_SAVE_NOTE = '目前離線，已先儲存在此裝置，恢復連線後會自動同步。';
+const MONTHLY_PAGE_SIZE = 20; // Entries per page in the monthly view (newest first)
+const RECENT_DAYS = 7; // Days kept live for today's budget, the 7-day summary and recent calendar highlights
 
-// Update UserProfile to store Firestore document ID and sync with Firestore
-// These fields should match the ones potentially initialized in AuthProvider
-export interface UserProfile {
-  id: string; // Firestore document ID (usually the same as auth uid)
-  age: number | null;
-  gender: 'male' | 'female' | 'other' | null;
-  height: number | null; // cm
-  weight: number | null; // kg
-  activityLevel: 'sedentary' | 'light' | 'moderate' | 'active' | 'veryActive' | null;
-  healthGoal: HealthGoal | null; // Added health goal
-  // Potentially add other fields like displayName, email if needed locally
+// A detected food item in the estimation dialog, with whether the user kept it
+interface EditableFoodItem extends DetectedFoodItem {
+  included: boolean;
 }
 
+// Estimation result as edited in the estimation dialog
+type EditableEstimation = Omit<EstimateCalorieCountOutput, 'items'> & {
+  items: EditableFoodItem[];
+  barcode?: string; // Set when the estimation comes from a barcode lookup instead of the AI
+  sampleProduct?: boolean; // The product is from the sample list, so its values are not real label data
+  servings?: number; // Servings eaten, set when the estimation was read from a nutrition label
+  refinements?: EstimateRefinement[]; // Refine rounds so far, oldest first
+  originalEstimate?: OriginalEstimate; // The AI's first answer, stored with the entry (not set for products)
+  aiMetadata?: AiEstimationMetadata; // Model, prompt and raw output of the first answer, stored with the entry
+};
+
 const activityLevelMultipliers = {
   sedentary: 1.2,
   light: 1.375,
@@ -167,9 +189,6 @@ const healthGoalTranslations: Record<HealthGoal, string> = {
   maintenance: "維持",
 };
 
-// Default User Profile (Initial state before Firestore loads/creates)
-const initialUserProfileState: UserProfile | null = null; // Start as null
-
 // Helper function to calculate BMR (Harris-Benedict Equation)
 const calculateBMR = (profile: Partial<UserProfile>): number | null => { // Allow partial profile
   if (!profile.weight || !profile.height || !profile.age || !profile.gender) {
@@ -212,6 +231,57 @@ const calculateDailyCalories = (profile: Partial<UserProfile>): number | null =>
   return maintenanceCalories;
 };
 
+// Share of daily calories from protein, carbohydrates and fat for each health goal
+const macroSplitByGoal: Record<HealthGoal, { protein: number; carbohydrates: number; fat: number }> = {
+  muscleGain: { protein: 0.3, carbohydrates: 0.45, fat: 0.25 },
+  fatLoss: { protein: 0.35, carbohydrates: 0.35, fat: 0.3 },
+  maintenance: { protein: 0.2, carbohydrates: 0.5, fat: 0.3 },
+};
+
+// Helper function to calculate daily protein, carbohydrate and fat targets (grams) from the daily calorie target
+const calculateMacroTargets = (profile: Partial<UserProfile>): { protein: number; carbohydrates: number; fat: number } | null => {
+  const dailyCalories = calculateDailyCalories(profile);
+  if (!dailyCalories) {
+    return null;
+  }
+  const split = macroSplitByGoal[profile.healthGoal ?? 'maintenance'];
+  return {
+    protein: (dailyCalories * split.protein) / 4, // 4 kcal per gram
+    carbohydrates: (dailyCalories * split.carbohydrates) / 4, // 4 kcal per gram
+    fat: (dailyCalories * split.fat) / 9, // 9 kcal per gram
+  };
+};
+
+// First day of the range that is kept live (today and the previous RECENT_DAYS - 1 days)
+const recentRangeStart = (): Date => subDays(startOfDay(new Date()), RECENT_DAYS - 1);
+
+// Dates (local midnight) of the per-day summaries matching a condition, for calendar highlighting
+const summaryDates = (summaries: MonthSummary, matches: (day: DaySummary) => boolean): Date[] =>
+  Object.keys(summaries)
+    .filter(dateKey => matches(summaries[dateKey]))
+    .map(dateKey => {
+      const [year, month, day] = dateKey.split('-').map(Number);
+      return new Date(year, month - 1, day); // Use Date constructor with parts so the key is read as a local date
+    })
+    .filter(date => isValidDate(date));
+
+// Suggest which meal comes next from the time of day
+const mealTypeForTime = (time: Date): MealType => {
+  const hour = time.getHours();
+  if (hour < 10) return 'Breakfast';
+  if (hour < 14) return 'Lunch';
+  if (hour >= 17 && hour < 21) return 'Dinner';
+  return 'Snack';
+};
+
+// Compact meal description sent to the AI flows
+const toMealSummary = (meal: { foodItem: string; calorieEstimate: number; mealType: MealType | null }, time: Date) => ({
+  foodItem: meal.foodItem,
+  calorieEstimate: Math.round(meal.calorieEstimate),
+  mealType: meal.mealType ? (mealTypeTranslations[meal.mealType] ?? meal.mealType) : null,
+  time: format(time, 'HH:mm'),
+});
+
 // Helper function to calculate BMI
 const calculateBMI = (profile: Partial<UserProfile>): number | null => { // Allow partial profile
   if (!profile.weight || !profile.height) {
@@ -270,23 +340,35 @@ export default function CalorieLogger() {
   const { user, loading: authLoading, authError } = useAuth(); // Get auth error from context
   const [imageSrc, setImageSrc] = useState<string | null>(null); // Stores original uploaded/captured image for display in crop dialog
   const [imageForEstimationCard, setImageForEstimationCard] = useState<string | null>(null); // Stores image to display in estimation card (could be original or cropped)
-  const [estimation, setEstimation] = useState<EstimateCalorieCountOutput | null>(null);
+  const [estimation, setEstimation] = useState<EditableEstimation | null>(null);
+  const [mealDescription, setMealDescription] = useState(''); // Free-text meal description for logging without a photo
+  const [refinementText, setRefinementText] = useState(''); // User's correction for the current estimate
+  const [isRefining, setIsRefining] = useState(false); // Loading state for re-estimation
+  const [mealSuggestions, setMealSuggestions] = useState<MealSuggestion[] | null>(null); // Next-meal recommendations, null until requested
+  const [isRecommending, setIsRecommending] = useState(false); // Loading state for recommendations
+  const mealDescriptionRef = useRef<HTMLTextAreaElement>(null);
   const [isLoading, setIsLoading] = useState(false); // General loading state for AI/DB operations
   const [error, setError] = useState<string | null>(null); // General error state
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const photoMigrationAttemptedRef = useRef(new Set<string>()); // Entries whose data-URL photo migration was already started this session
+  const monthSummaryRequestsRef = useRef(new Set<string>()); // Month summaries being fetched, to avoid duplicate reads
+  const loadMoreRef = useRef<HTMLDivElement>(null); // Sentinel at the end of the monthly list for infinite scroll
   const [hasCameraPermission, setHasCameraPermission] = useState<boolean | null>(null);
 
-  // --- Firestore state ---
-  const [calorieLog, setCalorieLog] = useState<CalorieLogEntry[]>([]);
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(initialUserProfileState); // Start as null
-  const [waterLog, setWaterLog] = useState<Record<string, WaterLogEntry[]>>({}); // Keep structure for daily aggregation
-  const [dbLoading, setDbLoading] = useState(true); // Loading state for Firestore data
-  const [dbError, setDbError] = useState<string | null>(null); // Error state for Firestore operations
+  // --- Data state (loaded through the repository, see the hooks below) ---
+  const repository = useRepository();
+  const [monthlyPageCount, setMonthlyPageCount] = useState(1);
+  const [monthSummaries, setMonthSummaries] = useState<Record<string, MonthSummary>>({}); // Per-day totals keyed by yyyy-MM
+  const [dbError, setDbError] = useState<string | null>(null); // Error state for loading and saving data
 
   // --- LocalStorage state (for settings) ---
   const [notificationSettings, setNotificationSettings, notificationSettingsError] = useLocalStorage<NotificationSettings>('notificationSettings', defaultNotificationSettings);
+  const [customProducts, setCustomProducts, customProductsError] = useLocalStorage<CustomProducts>(CUSTOM_PRODUCTS_STORAGE_KEY, {});
+  const [isScanningBarcode, setIsScanningBarcode] = useState(false); // State for barcode scanner dialog
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [unknownBarcode, setUnknownBarcode] = useState<string | null>(null); // Barcode not found in the product database, opens the product form
 
   const [editingEntry, setEditingEntry] = useState<CalorieLogEntry | null>(null); // State for the entry being edited
   const [isEditing, setIsEditing] = useState(false); // State to control the edit dialog
@@ -300,6 +382,7 @@ export default function CalorieLogger() {
   const [aspect, setAspect] = useState<number | undefined>(undefined); // Aspect ratio for crop - undefined for free crop
   const [isClient, setIsClient] = useState(false); // State for client-side rendering check
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(startOfDay(new Date())); // State for calendar date selection
+  const [calendarMonth, setCalendarMonth] = useState<Date>(startOfMonth(new Date())); // Month shown in the log calendar
   const [customWaterAmount, setCustomWaterAmount] = useState<string>(''); // State for custom water input
   const [logViewMode, setLogViewMode] = useState<LogViewMode>('daily'); // State for log view mode
   const [monthlySortCriteria, setMonthlySortCriteria] = useState<MonthlySortCriteria>('time-desc'); // State for monthly sorting
@@ -313,121 +396,160 @@ export default function CalorieLogger() {
     setIsClient(true); // Set client to true once component mounts
   }, []);
 
-   // --- Firestore Data Fetching and Realtime Updates ---
-   useEffect(() => {
-    // Ensure db instance is available
-    if (!db) {
-      console.error("Firestore (db) is not available. Cannot fetch data.");
-      setDbError("資料庫連線失敗，無法載入資料。");
-      setDbLoading(false);
-      return;
-    }
+   // --- Data Fetching and Realtime Updates ---
+   // Only the date ranges on screen are subscribed to; older periods come from cached per-day summaries
+   const { profile: userProfile, loading: profileLoading, error: profileError, updateProfile } = useProfile();
+   // Keep the last RECENT_DAYS days live: today's budget, the 7-day summary and recent achievements read from them
+   const dayKey = useDayKey();
+   // eslint-disable-next-line react-hooks/exhaustive-deps
+   const recentRange = useMemo<DateRange>(() => ({ start: recentRangeStart(), end: addDays(startOfDay(new Date()), 1) }), [user, dayKey]); // Recomputed on sign-in and at midnight so "today" is current
+   const { entries: recentCalorieEntries, loading: recentCaloriesLoading, error: recentCaloriesError } = useCalorieEntries(recentRange);
+   const { entries: recentWaterEntries, loading: recentWaterLoading, error: recentWaterError } = useWaterEntries(recentRange);
+   const dbLoading = profileLoading || recentCaloriesLoading || recentWaterLoading;
+   const { status: syncStatus, syncNow } = useSyncStatus(); // Writes waiting for a connection
+
+  // Day or month shown in the log list
+  const displayedRange = useMemo<DateRange | null>(() => {
+      if (!selectedDate) return null;
+      return logViewMode === 'daily'
+          ? { start: startOfDay(selectedDate), end: addDays(startOfDay(selectedDate), 1) }
+          : { start: startOfMonth(selectedDate), end: addMonths(startOfMonth(selectedDate), 1) };
+  }, [selectedDate, logViewMode]);
+  // Newest-first monthly lists are paged; other sort orders need the whole month
+  const displayedPageSize = logViewMode === 'monthly' && monthlySortCriteria === 'time-desc' ? MONTHLY_PAGE_SIZE * monthlyPageCount : null;
+
+  const displayedRangeStart = displayedRange?.start.getTime();
+
+  // Start from the first page whenever a different period is shown
+  useEffect(() => {
+      setMonthlyPageCount(1);
+  }, [displayedRangeStart, logViewMode]);
 
-    if (!user) {
-      // Clear local state if user logs out
-      setCalorieLog([]);
-      setUserProfile(initialUserProfileState); // Reset to initial null state
-      setWaterLog({});
-      setDbLoading(false);
-      setDbError(null);
-      console.log("User logged out, clearing local data.");
-      return;
-    }
+  // Subscribe only to the displayed period
+  const { entries: displayedCalorieEntries, hasMore: hasMoreEntries, error: displayedCaloriesError } = useCalorieEntries(displayedRange, displayedPageSize);
+  const { entries: displayedWaterEntries, error: displayedWaterError } = useWaterEntries(displayedRange);
 
-    console.log("User logged in, setting up Firestore listeners for:", user.uid);
-    setDbLoading(true);
-    setDbError(null);
-    const userId = user.uid;
-
-    // Fetch User Profile (Profile creation/initialization is now handled in AuthProvider)
-    const profileRef = doc(db, 'users', userId);
-    const unsubscribeProfile = onSnapshot(profileRef, (docSnap) => {
-        if (docSnap.exists()) {
-            const profileData = { id: docSnap.id, ...docSnap.data() } as UserProfile;
-            console.log("Firestore Profile Snapshot received:", profileData);
-            setUserProfile(profileData);
-        } else {
-            // This case should ideally be handled by AuthProvider creating the profile.
-            // If it still happens, log an error and set profile to null.
-            console.error("User profile document not found in Firestore for user:", userId);
-            setUserProfile(null); // Set profile to null if not found
-            setDbError("使用者個人資料未找到，請稍後再試或聯繫支援。");
-        }
-         // Consider setting dbLoading to false only after all listeners are attached
-         // setDbLoading(false);
-    }, (error) => {
-        console.error("Error fetching user profile:", error);
-        setDbError("無法載入使用者個人資料。");
-        setUserProfile(null); // Set profile to null on error
-        setDbLoading(false); // Loading stops on error
-    });
+  // Surface loading errors like errors of writes
+  const loadError = profileError ?? recentCaloriesError ?? recentWaterError ?? displayedCaloriesError ?? displayedWaterError;
+  useEffect(() => {
+      setDbError(loadError);
+  }, [loadError]);
 
-    // Fetch Calorie Logs (Order by timestamp descending, limit for performance?)
-    const calorieQuery = query(
-      collection(db, 'calorieEntries'),
-      where('userId', '==', userId),
-      orderBy('timestamp', 'desc')
-      // limit(100) // Consider limiting initial load
-    );
-    const unsubscribeCalorie = onSnapshot(calorieQuery, (querySnapshot) => {
-      const logs: CalorieLogEntry[] = [];
-      querySnapshot.forEach((doc) => {
-        logs.push({ id: doc.id, ...doc.data() } as CalorieLogEntry);
+  // Per-day summaries belong to the signed-in user
+  useEffect(() => {
+      setMonthSummaries({});
+  }, [user]);
+
+  // Load per-day summaries for the months shown in the calendars (highlights and achievements)
+  useEffect(() => {
+      if (!user || !repository) return;
+      const months = [calendarMonth, startOfMonth(selectedAchievementDate)];
+      months.forEach(month => {
+          const key = format(month, 'yyyy-MM');
+          if (monthSummaries[key] || monthSummaryRequestsRef.current.has(key)) return;
+          monthSummaryRequestsRef.current.add(key);
+          fetchMonthSummary(repository, user.uid, month)
+              .then(summary => setMonthSummaries(prev => ({ ...prev, [key]: summary })))
+              .catch(error => console.error(`載入 ${key} 的每日摘要時發生錯誤:`, error))
+              .finally(() => monthSummaryRequestsRef.current.delete(key));
       });
-      console.log(`Firestore Calorie Log Snapshot received: ${logs.length} entries`);
-      setCalorieLog(logs);
-       // setDbLoading(false); // Calorie loading finished
-    }, (error) => {
-      console.error("Error fetching calorie logs:", error);
-      setDbError("無法載入卡路里記錄。");
-      // setDbLoading(false);
-    });
+  }, [user, repository, calendarMonth, selectedAchievementDate, monthSummaries]);
 
-    // Fetch Water Logs (Fetch all for the user, aggregation happens in useMemo)
-    const waterQuery = query(
-      collection(db, 'waterEntries'),
-      where('userId', '==', userId)
-      // No ordering needed here as we aggregate by date client-side
-    );
-    const unsubscribeWater = onSnapshot(waterQuery, (querySnapshot) => {
-        const waterEntries: WaterLogEntry[] = [];
-        querySnapshot.forEach((doc) => {
-            waterEntries.push({ id: doc.id, ...doc.data() } as WaterLogEntry);
-        });
+  // Keep the calendar on the month of the selected date
+  useEffect(() => {
+      if (selectedDate) setCalendarMonth(startOfMonth(selectedDate));
+  }, [selectedDate]);
 
-        // Aggregate water entries by date
-        const aggregatedWaterLog: Record<string, WaterLogEntry[]> = {};
-        waterEntries.forEach(entry => {
-            if (entry.timestamp) {
-                try {
-                   const dateKey = format(entry.timestamp.toDate(), 'yyyy-MM-dd');
-                   if (!aggregatedWaterLog[dateKey]) {
-                       aggregatedWaterLog[dateKey] = [];
-                   }
-                   aggregatedWaterLog[dateKey].push(entry);
-                } catch (e) {
-                    console.error("Error processing water entry timestamp:", e, entry);
-                }
-            }
-        });
-        console.log(`Firestore Water Log Snapshot received: ${waterEntries.length} entries, aggregated into ${Object.keys(aggregatedWaterLog).length} dates`);
-        setWaterLog(aggregatedWaterLog);
-        setDbLoading(false); // Set loading false after all listeners are attached and initial data received
-    }, (error) => {
-        console.error("Error fetching water logs:", error);
-        setDbError("無法載入飲水記錄。");
-        setDbLoading(false); // Loading stops on error
-    });
+  // Infinite scroll: load the next page when the end of the monthly list comes into view
+  useEffect(() => {
+      const sentinel = loadMoreRef.current;
+      if (!sentinel || !hasMoreEntries) return;
+      const observer = new IntersectionObserver(([entry]) => {
+          if (entry.isIntersecting) setMonthlyPageCount(count => count + 1);
+      });
+      observer.observe(sentinel);
+      return () => observer.disconnect();
+  }, [hasMoreEntries, displayedCalorieEntries]);
+
+  // All loaded calorie entries (recent days plus the displayed period), newest first
+  const calorieLog = useMemo(() => {
+      const byId = new Map<string, CalorieLogEntry>();
+      [...recentCalorieEntries, ...displayedCalorieEntries].forEach(entry => byId.set(entry.id, entry));
+      return Array.from(byId.values()).sort((a, b) => b.timestamp.toMillis() - a.timestamp.toMillis());
+  }, [recentCalorieEntries, displayedCalorieEntries]);
+
+  // Loaded water entries aggregated by date (yyyy-MM-dd)
+  const waterLog = useMemo(() => {
+      const byId = new Map<string, WaterLogEntry>();
+      [...recentWaterEntries, ...displayedWaterEntries].forEach(entry => byId.set(entry.id, entry));
+      const aggregatedWaterLog: Record<string, WaterLogEntry[]> = {};
+      byId.forEach(entry => {
+          if (entry.timestamp) {
+              try {
+                 const dateKey = format(entry.timestamp.toDate(), 'yyyy-MM-dd');
+                 (aggregatedWaterLog[dateKey] ??= []).push(entry);
+              } catch (e) {
+                  console.error("Error processing water entry timestamp:", e, entry);
+              }
+          }
+      });
+      return aggregatedWaterLog;
+  }, [recentWaterEntries, displayedWaterEntries]);
+
+  // Per-day totals: fetched month summaries, overridden by live data for the recent days
+  const daySummaries = useMemo(() => {
+      const merged: MonthSummary = {};
+      Object.values(monthSummaries).forEach(summary => Object.assign(merged, summary));
+      const recent = summarizeByDay(recentCalorieEntries, recentWaterEntries);
+      for (let date = recentRangeStart(); date <= new Date(); date = addDays(date, 1)) {
+          const dateKey = format(date, 'yyyy-MM-dd');
+          merged[dateKey] = recent[dateKey] ?? { calories: 0, entryCount: 0, water: 0 };
+      }
+      return merged;
+  }, [monthSummaries, recentCalorieEntries, recentWaterEntries]);
+
+  // Refetch the summary of an older month after one of its entries changed
+  const refreshMonthSummary = (date: Date) => {
+      if (!user || date >= recentRangeStart()) return; // Recent days are already live
+      invalidateMonthSummary(user.uid, date);
+      setMonthSummaries(prev => {
+          const { [format(date, 'yyyy-MM')]: _, ...rest } = prev;
+          return rest;
+      });
+  };
 
+  // Imported, merged or restored entries often land in older months, whose cached summaries are now stale
+  const refreshMonthSummaries = (dates: Date[]) => {
+      const months = new Map(dates.map(date => [format(date, 'yyyy-MM'), date]));
+      months.forEach(date => refreshMonthSummary(date));
+  };
 
-    // Cleanup Firestore listeners on unmount or user change
-    return () => {
-      console.log("Cleaning up Firestore listeners for user:", userId);
-      unsubscribeProfile();
-      unsubscribeCalorie();
-      unsubscribeWater();
-    };
-  }, [user]); // Rerun effect when user changes
+  // Move photos of older entries, stored as data URLs inside the documents, to Storage in the background.
+  // Runs on the loaded periods, so older months are migrated as they are viewed.
+  useEffect(() => {
+      // Guest data stays on this device, photos included
+      if (!user || user.isGuest || !repository || !storage) return;
+      // Entries waiting to sync show their queued photo as a data URL; the queue uploads those itself
+      const legacyEntries = calorieLog.filter(entry => isDataUrl(entry.imageUrl) && !entry.pendingSync && !photoMigrationAttemptedRef.current.has(entry.id));
+      if (legacyEntries.length === 0) return;
+
+      legacyEntries.forEach(entry => photoMigrationAttemptedRef.current.add(entry.id));
+      console.log(`正在將 ${legacyEntries.length} 筆記錄的照片移至雲端儲存空間...`);
+      migrateDataUrlPhotos(repository, storage, user.uid, legacyEntries).then(({ migrated, failed }) => {
+          console.log(`照片遷移完成：成功 ${migrated} 筆，失敗 ${failed} 筆。`);
+          if (migrated > 0) {
+              toast({ title: "照片已移至雲端", description: `已將 ${migrated} 筆舊記錄的照片移至雲端儲存空間，載入速度會更快。` });
+          }
+      });
+  }, [user, repository, calorieLog, toast]);
+
+  // Delete entries that have been in the trash for longer than the retention period
+  useEffect(() => {
+      if (!user || !repository) return;
+      purgeExpiredTrash(repository, user.uid)
+          .then(purged => { if (purged > 0) console.log(`已永久刪除 ${purged} 個在垃圾桶中超過 ${TRASH_RETENTION_DAYS} 天的項目。`); })
+          .catch(purgeError => console.error("清除垃圾桶中過期項目時發生錯誤:", purgeError));
+  }, [user, repository]);
 
   // --- End Firestore Data Fetching ---
 
@@ -767,21 +889,28 @@ const handleCropCancel = () => {
   };
 
 
-  // Consolidated function to handle estimation after capture or upload (and cropping)
-  const handleImageEstimation = async (imageDataUrl: string) => {
+  // Shared handling for photo and text estimations: loading/error state, result normalization and non-food warning
+  const runEstimation = async (estimate: () => Promise<EstimateCalorieCountOutput>) => {
       setIsLoading(true);
       setError(null);
       // Keep previous estimation data while loading for editing calories
       // setEstimation(null); // Don't clear estimation immediately
 
       try {
-          console.log("正在估算影像...");
-          const result = await estimateCalorieCount({ photoDataUri: imageDataUrl });
+          console.log("正在估算...");
+          const result = await estimate();
           console.log("估算結果:", result);
           // Update with new estimation, defaulting foodItem if empty
+           const foodItem = result.foodItem || "未命名食物"; // Set default if AI returns empty string
+           const aiMetadata = toAiMetadata(result);
+           const { metadata: _metadata, ...estimated } = result;
            setEstimation({
-               ...result,
-               foodItem: result.foodItem || "未命名食物", // Set default if AI returns empty string
+               ...estimated,
+               foodItem,
+               items: (result.items ?? []).map(item => ({ ...item, included: true })), // All detected items start ticked
+               ...(result.nutritionLabel ? { servings: 1 } : {}), // Label results start at one serving
+               originalEstimate: toOriginalEstimate({ ...result, foodItem }),
+               ...(aiMetadata ? { aiMetadata } : {}),
            });
 
           // Display warning if not a food item, but allow logging
@@ -797,7 +926,9 @@ const handleCropCancel = () => {
       } catch (e: any) {
           console.error("卡路里估算期間發生錯誤:", e);
           let errorMsg = "卡路里估算失敗。請再試一次。";
-          if (e instanceof Error) {
+          if (e instanceof EstimationRequestError) {
+              errorMsg = e.message; // Already localized by the server action
+          } else if (e instanceof Error) {
               errorMsg += ` (${e.message})`;
           }
           setError(errorMsg);
@@ -810,9 +941,100 @@ const handleCropCancel = () => {
   };
 
 
+  // Consolidated function to handle estimation after capture or upload (and cropping)
+  // Each user always gets the same variant of prompts under A/B test; it is stored with the entry's AI metadata
+  const promptVariantFor = (promptName: string) => (user ? assignPromptVariant(promptName, user.uid) : undefined);
+
+  // AI server actions check the signed-in user's ID token and quota; guests have no token.
+  // Their errors are thrown with the localized message from the server.
+  const callAiAction = async <T,>(action: (idToken: string) => Promise<EstimationResult<T>>): Promise<T> => {
+      const idToken = await auth?.currentUser?.getIdToken();
+      if (!idToken) throw new EstimationRequestError('unauthenticated');
+      const result = await action(idToken);
+      if (!result.ok) throw new EstimationRequestError(result.error.code, result.error.message);
+      return result.output;
+  };
+
+  const handleImageEstimation = (imageDataUrl: string) =>
+      runEstimation(() => {
+          const photoError = validatePhotoDataUri(imageDataUrl); // Don't upload a photo the server would reject
+          if (photoError) throw new EstimationRequestError(photoError);
+          return callAiAction(idToken =>
+              estimateCalorieCountAction({ idToken, photoDataUri: imageDataUrl, promptVariant: promptVariantFor('estimateCalorieCount') })
+          );
+      });
+
+  // Estimate a meal from its text description (no photo)
+  const handleTextEstimation = async () => {
+      const description = mealDescription.trim();
+      if (!description) {
+          toast({ variant: 'destructive', title: '請輸入描述', description: '請描述您吃了什麼，例如「一碗牛肉麵加滷蛋」。' });
+          return;
+      }
+      // Text entries have no photo
+      setImageSrc(null);
+      setImageForEstimationCard(null);
+      setEstimation(null);
+      setShowEstimationDialog(true);
+      await runEstimation(() => callAiAction(idToken =>
+          estimateCalorieCountFromTextAction({ idToken, description, promptVariant: promptVariantFor('estimateCalorieCountFromText') })
+      ));
+  };
+
+  // Prefill the estimation dialog with exact values from a packaged product (no AI involved)
+  const showProductEstimation = (product: PackagedProduct) => {
+      const item = {
+          name: product.name,
+          portion: product.servingDescription,
+          calorieEstimate: product.calories,
+          macros: product.macros,
+      };
+      setImageSrc(null);
+      setImageForEstimationCard(null);
+      setMealDescription('');
+      setError(null);
+      setEstimation({
+          isFoodItem: true,
+          foodItem: product.name,
+          calorieEstimate: product.calories,
+          // Values of user-created products come straight from the label; sample values are only illustrative
+          confidence: product.sample ? 0.5 : 1,
+          macros: product.macros,
+          items: [{ ...item, included: true }],
+          portionGrams: product.servingGrams,
+          servingUnit: product.servingDescription,
+          caloriesPer100g: product.servingGrams > 0 ? Math.round((product.calories / product.servingGrams) * 100) : 0,
+          foodCategory: 'packagedFood',
+          barcode: product.barcode,
+          ...(product.sample ? { sampleProduct: true } : {}),
+      });
+      setActiveTab('logging');
+      setShowEstimationDialog(true);
+  };
+
+  const handleBarcodeDetected = useCallback((barcode: string) => {
+      setIsScanningBarcode(false);
+      const product = findProductByBarcode(barcode, customProducts);
+      if (product) {
+          showProductEstimation(product);
+      } else {
+          // Unknown code: let the user create the product record for next time
+          setUnknownBarcode(barcode);
+      }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [customProducts]);
+
+  const handleProductSave = (product: PackagedProduct) => {
+      setCustomProducts(prev => ({ ...prev, [product.barcode]: product }));
+      setUnknownBarcode(null);
+      toast({ title: "已新增商品", description: `「${product.name}」已加入商品資料庫。` });
+      showProductEstimation(product);
+  };
+
+
   // --- Logging Logic (Firestore) ---
 
-  // Updated placeholder function for nutritionist comment, considering health goals
+  // Rule-based nutritionist comment, considering health goals. Used when the AI comment can't be generated.
   const getNutritionistComment = (
       entry: Omit<CalorieLogEntry, 'id' | 'nutritionistComment' | 'userId' | 'timestamp'> & { timestamp: Date }, // Use JS Date for temp calculations
       goal: HealthGoal | null
@@ -860,17 +1082,61 @@ const handleCropCancel = () => {
       return comment.trim(); // Trim leading/trailing whitespace
   };
 
+  // AI-written nutritionist comment based on the meal, the user's profile and goal, and what they already ate that day.
+  // Falls back to the rule-based comment if the model is unavailable.
+  const buildNutritionistComment = async (
+      entry: Omit<CalorieLogEntry, 'id' | 'nutritionistComment' | 'userId' | 'timestamp'> & { timestamp: Date },
+      excludeEntryId?: string // The entry being edited, so it isn't counted as an earlier meal
+  ): Promise<string> => {
+      const goal = userProfile?.healthGoal ?? null;
+      // Offline, saving must not wait for the server action to fail
+      if (navigator.onLine === false) return getNutritionistComment(entry, goal);
+
+      try {
+          const earlierMeals = calorieLog
+              .filter(other => other.id !== excludeEntryId && !other.planned && other.timestamp)
+              .map(other => ({ other, time: other.timestamp.toDate() }))
+              .filter(({ time }) => isSameDay(time, entry.timestamp) && time <= entry.timestamp)
+              .sort((a, b) => a.time.getTime() - b.time.getTime())
+              .map(({ other, time }) => toMealSummary(other, time));
+          const dailyCalorieTarget = calculateDailyCalories(userProfile ?? {});
+
+          const { comment } = await callAiAction(idToken => generateNutritionistCommentAction({
+              idToken,
+              meal: {
+                  ...toMealSummary(entry, entry.timestamp),
+                  macros: entry.macros,
+                  items: entry.items?.map(item => item.portion ? `${item.name} (${item.portion})` : item.name),
+              },
+              profile: userProfile ? {
+                  age: userProfile.age,
+                  gender: userProfile.gender ? ({ male: '男', female: '女', other: '其他' } as const)[userProfile.gender] : null,
+                  heightCm: userProfile.height,
+                  weightKg: userProfile.weight,
+                  activityLevel: userProfile.activityLevel ? activityLevelTranslations[userProfile.activityLevel] : null,
+              } : null,
+              healthGoal: goal ? healthGoalTranslations[goal] : null,
+              dailyCalorieTarget: dailyCalorieTarget ? Math.round(dailyCalorieTarget) : null,
+              earlierMeals,
+          }));
+          return comment;
+      } catch (commentError) {
+          console.warn("無法產生 AI 營養師評論，改用規則式評論:", commentError);
+          return getNutritionistComment(entry, goal);
+      }
+  };
+
 
  const logCalories = async () => {
     if (!user) {
         toast({ variant: 'destructive', title: "未登入", description: "請先登入以記錄卡路里。" });
         return;
     }
-    if (!imageForEstimationCard) { // Check imageForEstimationCard instead of imageSrc
-        toast({ variant: 'destructive', title: "記錄失敗", description: "沒有影像可記錄。" });
+    if (!imageForEstimationCard && !estimation) { // Text-only entries have no image but must have an estimation
+        toast({ variant: 'destructive', title: "記錄失敗", description: "沒有影像或估算結果可記錄。" });
         return;
     }
-    if (!db) { // Check if db is available
+    if (!repository) { // Check if the repository is available
         toast({ variant: 'destructive', title: "資料庫錯誤", description: "無法連接資料庫，請稍後再試。" });
         return;
     }
@@ -896,37 +1162,58 @@ const handleCropCancel = () => {
     const baseEntryData = {
         foodItem: currentEstimation?.foodItem || "未命名食物",
         calorieEstimate: currentEstimation?.isFoodItem ? (currentEstimation.calorieEstimate ?? 0) : 0,
-        imageUrl: imageForEstimationCard, // Store the Data URL from the estimation card
+        imageUrl: imageForEstimationCard, // Data URL from the estimation card for comment generation; replaced by the Storage URL when saving
         timestamp: entryTime, // JS Date for comment generation
         mealType: null,
         location: locationToLog, // Use processed location
         cost: null,
         confidence: currentEstimation?.isFoodItem ? (currentEstimation.confidence ?? 0) : 0,
+        macros: currentEstimation?.isFoodItem ? (currentEstimation.macros ?? emptyMacros) : emptyMacros,
+        // Keep only the items the user left ticked, without the UI-only flag
+        items: currentEstimation?.isFoodItem
+            ? currentEstimation.items.filter(item => item.included).map(({ included, ...item }) => item)
+            : [],
+        barcode: currentEstimation?.barcode ?? null,
+        refinements: currentEstimation?.refinements ?? [],
+        portionGrams: currentEstimation?.isFoodItem ? (currentEstimation.portionGrams ?? 0) : 0,
+        servingUnit: currentEstimation?.isFoodItem ? (currentEstimation.servingUnit ?? '') : '',
+        caloriesPer100g: currentEstimation?.isFoodItem ? (currentEstimation.caloriesPer100g ?? 0) : 0,
     };
 
-    // Get nutritionist comment based on current data and profile goal
-    const nutritionistComment = getNutritionistComment(baseEntryData, userProfile?.healthGoal ?? null);
+    // Get nutritionist comment based on current data, profile goal and the rest of the day
+    const nutritionistComment = await buildNutritionistComment(baseEntryData);
 
     const newEntryData = {
-        userId: user.uid, // Add user ID
         ...baseEntryData,
+        // The repository uploads the photo and fills in the photo fields
+        imageUrl: null,
+        thumbnailUrl: null,
+        imagePath: null,
+        thumbnailPath: null,
         timestamp: Timestamp.fromDate(entryTime), // Convert to Firestore Timestamp for storage
         nutritionistComment: nutritionistComment,
+        ...(currentEstimation?.originalEstimate ? { originalEstimate: currentEstimation.originalEstimate } : {}),
+        ...(currentEstimation?.aiMetadata ? {
+            aiMetadata: { ...currentEstimation.aiMetadata, overridden: isEstimateOverridden(currentEstimation.aiMetadata.rawOutput, baseEntryData) },
+        } : {}),
     };
 
     try {
-        const docRef = await addDoc(collection(db, 'calorieEntries'), newEntryData);
-        console.log("Calorie entry written with ID: ", docRef.id);
+        // Saved on this device right away and synced (photo included) when online
+        const entryId = await repository.addCalorieEntry(user.uid, newEntryData, { photoDataUrl: imageForEstimationCard });
+        console.log("Calorie entry queued with ID: ", entryId);
 
         toast({
           title: "記錄成功",
-          description: `${newEntryData.foodItem} (${Math.round(newEntryData.calorieEstimate)} 卡) 已新增至您的記錄。`,
+          description: `${newEntryData.foodItem} (${Math.round(newEntryData.calorieEstimate)} 卡) 已新增至您的記錄。${syncStatus.online ? '' : OFFLINE_SAVE_NOTE}`,
         });
 
         // Clear image and estimation after successful logging
         setImageSrc(null); // Clear original captured/uploaded image
         setImageForEstimationCard(null); // Clear image in estimation card
         setEstimation(null);
+        setMealDescription(''); // Clear text description after logging
+        setRefinementText('');
         setError(null);
         setShowEstimationDialog(false); // Close estimation dialog
         if (fileInputRef.current) {
@@ -954,6 +1241,105 @@ const handleCropCancel = () => {
       }
   };
 
+  // Tick/untick, rename or re-portion a detected item; totals follow the ticked items
+  const handleEstimationItemChange = (index: number, field: keyof EditableFoodItem, value: string | boolean) => {
+      if (!estimation) return;
+      setEstimation(prev => {
+          if (!prev) return null;
+          const items = prev.items.map((item, i) => {
+              if (i !== index) return item;
+              if (field === 'calorieEstimate') {
+                  const newCalorie = parseInt(value as string) || 0;
+                  return { ...item, calorieEstimate: newCalorie };
+              }
+              return { ...item, [field]: value };
+          });
+          const totals = summarizeItems(items.filter(item => item.included));
+          return { ...prev, items, ...totals };
+      });
+  };
+
+  // Rescale calories, macros and items when the portion weight changes in the estimation result card
+  const handleEstimationPortionChange = (grams: number) => {
+      setEstimation(prev => prev ? scaleToPortion(prev, grams) : null);
+  };
+
+  // Recompute calories, macros and weight from the nutrition label when the number of servings changes
+  const handleEstimationServingsChange = (servings: number) => {
+      setEstimation(prev => {
+          if (!prev?.nutritionLabel) return prev;
+          const label = prev.nutritionLabel;
+          const totals = nutritionForServings(label, servings);
+          return {
+              ...prev,
+              ...totals,
+              servings,
+              servingUnit: `${servings} 份 (每份 ${label.servingSize})`,
+              items: prev.items.map((item, index) => index === 0
+                  ? { ...item, portion: `${servings} 份`, calorieEstimate: totals.calorieEstimate, macros: totals.macros }
+                  : item),
+          };
+      });
+  };
+
+  // Send the user's correction back to the AI together with the original photo (or description) and the current estimate
+  const handleRefineEstimation = async () => {
+      const correction = refinementText.trim();
+      if (!estimation || !correction) return;
+
+      setIsRefining(true);
+      try {
+          // Send the estimate as the user currently sees it, without UI-only fields
+          const { items, barcode, servings, nutritionLabel, refinements = [], originalEstimate, aiMetadata, ...previous } = estimation;
+          const result = await callAiAction(idToken => refineCalorieEstimateAction({
+              idToken,
+              photoDataUri: imageForEstimationCard ?? undefined,
+              description: imageForEstimationCard ? undefined : mealDescription.trim() || undefined,
+              previousEstimate: {
+                  ...previous,
+                  items: items.filter(item => item.included).map(({ included, ...item }) => item),
+              },
+              correction,
+              previousCorrections: refinements.map(round => round.correction),
+          }));
+          console.log("重新估算結果:", result);
+          setEstimation({
+              ...result,
+              items: result.items.map(item => ({ ...item, included: true })),
+              // Refined answers are kept in `refinements`
+              originalEstimate,
+              ...(aiMetadata ? { aiMetadata } : {}),
+              refinements: [
+                  ...refinements,
+                  {
+                      correction,
+                      before: { foodItem: estimation.foodItem, calorieEstimate: estimation.calorieEstimate },
+                      after: { foodItem: result.foodItem, calorieEstimate: result.calorieEstimate },
+                  },
+              ],
+          });
+          setRefinementText('');
+      } catch (e: any) {
+          console.error("重新估算期間發生錯誤:", e);
+          // Keep the previous estimate so the user can still log or try another correction
+          toast({
+              variant: 'destructive',
+              title: '重新估算失敗',
+              description: e instanceof Error ? e.message : '請稍後再試。',
+          });
+      } finally {
+          setIsRefining(false);
+      }
+  };
+
+  // Allow editing macronutrients in the estimation result card
+  const handleEstimationMacroChange = (field: keyof Macronutrients, value: string) => {
+      if (estimation) {
+          const newValue = parseMacroValue(value);
+          setEstimation(prev => prev ? { ...prev, macros: { ...(prev.macros ?? emptyMacros), [field]: newValue } } : null);
+      }
+  };
+
   const startEditing = (entry: CalorieLogEntry) => {
     setEditingEntry({ ...entry }); // Create a copy to edit
     setIsEditing(true);
@@ -994,13 +1380,30 @@ const handleCropCancel = () => {
     }
 };
 
+  const handleEditPortionChange = (grams: number) => {
+      setEditingEntry(prev => prev ? scaleToPortion(prev, grams) : null);
+  };
+
+  const handleEditMacroChange = (field: keyof Macronutrients, value: string) => {
+      if (editingEntry) {
+          const newValue = parseMacroValue(value);
+          setEditingEntry(prev => prev ? { ...prev, macros: { ...(prev.macros ?? emptyMacros), [field]: newValue } } : null);
+      }
+  };
+
+  // Load earlier values from the edit history into the form; saving them records a new revision
+  const handleEditRevert = (values: CalorieEntryUpdate) => {
+      setEditingEntry(prev => prev ? { ...prev, ...values } : null);
+      toast({ title: "已載入先前的內容", description: "確認無誤後請按「儲存變更」。" });
+  };
+
 
  const saveEdit = async () => {
     if (!editingEntry || !user) {
         toast({ variant: 'destructive', title: "錯誤", description: "找不到要更新的記錄或未登入。" });
         return;
     }
-     if (!db) { // Check if db is available
+     if (!repository) { // Check if the repository is available
          toast({ variant: 'destructive', title: "資料庫錯誤", description: "無法連接資料庫，請稍後再試。" });
          return;
      }
@@ -1031,18 +1434,33 @@ const handleCropCancel = () => {
          // Explicitly exclude Firestore ID, userId and nutritionistComment
          const { id, userId, nutritionistComment: _, ...commentInputData } = baseEntryDataForComment;
 
-         const updatedComment = getNutritionistComment(commentInputData, userProfile?.healthGoal ?? null); // Pass goal
+         const updatedComment = await buildNutritionistComment(commentInputData, id);
          const finalEntryData = {
              ...editingEntry,
              timestamp: timestampToSave, // Ensure it's the Firestore Timestamp
              nutritionistComment: updatedComment
          };
 
-        // Remove the id field before updating Firestore, as it's the document ID
-        const { id: docId, ...dataToUpdate } = finalEntryData;
+        // Remove the id, owner and history fields before updating; the history is extended below
+        const { id: docId, userId: _owner, revisions: _revisions, originalEstimate: _original, aiMetadata: _aiMetadata, pendingSync: _pending, ...dataToUpdate } = finalEntryData;
+
+        // Record which fields changed against the saved version (which may have been edited elsewhere meanwhile)
+        const savedEntry = calorieLog.find(logEntry => logEntry.id === docId) ?? await repository.getCalorieEntry(docId);
+        const updateWithRevision = savedEntry
+            ? withRevision(savedEntry, { ...dataToUpdate, ...aiMetadataAfterEdit(savedEntry, dataToUpdate) }, user)
+            : dataToUpdate;
+        if (!updateWithRevision) {
+            toast({ title: "沒有變更", description: "記錄項目維持不變。" });
+            setIsEditing(false);
+            setEditingEntry(null);
+            return;
+        }
 
-        const entryRef = doc(db, 'calorieEntries', docId);
-        await updateDoc(entryRef, dataToUpdate);
+        await repository.updateCalorieEntry(docId, updateWithRevision);
+        // Both the old and the new day may lie in months whose summaries are cached
+        const originalEntry = calorieLog.find(logEntry => logEntry.id === docId);
+        if (originalEntry) refreshMonthSummary(originalEntry.timestamp.toDate());
+        refreshMonthSummary(timestampToSave.toDate());
 
         toast({ title: "更新成功", description: "記錄項目已更新。" });
         setIsEditing(false);
@@ -1063,7 +1481,7 @@ const handleCropCancel = () => {
 
  const deleteLogEntry = async (id: string) => {
      if (!user) return; // Should not happen if button is visible only when logged in
-     if (!db) { // Check if db is available
+     if (!repository) { // Check if the repository is available
          toast({ variant: 'destructive', title: "資料庫錯誤", description: "無法連接資料庫，請稍後再試。" });
          return;
      }
@@ -1072,9 +1490,25 @@ const handleCropCancel = () => {
      setDbError(null);
 
      try {
-         const entryRef = doc(db, 'calorieEntries', id);
-         await deleteDoc(entryRef);
-         toast({ title: "刪除成功", description: "記錄項目已刪除。" });
+         const entry = calorieLog.find(logEntry => logEntry.id === id);
+         await trashCalorieEntry(repository, id); // Kept in the trash (photo included) until purged
+         if (entry) refreshMonthSummary(entry.timestamp.toDate());
+         toast({
+             title: "已移至垃圾桶",
+             description: `記錄項目已刪除，${TRASH_RETENTION_DAYS} 天內可在「設定」的垃圾桶中還原。`,
+             action: (
+                 <ToastAction altText="復原刪除" onClick={() => {
+                     restoreCalorieEntry(repository, id)
+                         .then(() => { if (entry) refreshMonthSummary(entry.timestamp.toDate()); })
+                         .catch(restoreError => {
+                             console.error("復原刪除的記錄時發生錯誤:", restoreError);
+                             toast({ variant: 'destructive', title: '復原失敗', description: '請至「設定」的垃圾桶中還原。' });
+                         });
+                 }}>
+                     復原
+                 </ToastAction>
+             ),
+         });
          // Local state will update via Firestore listener
      } catch (dbDeleteError: any) {
          console.error("刪除 Firestore 文件時發生錯誤:", dbDeleteError);
@@ -1090,11 +1524,139 @@ const handleCropCancel = () => {
  };
 
 
+  // --- Meal Recommendations ---
+
+  // Ask the AI for next-meal options that fit today's remaining budget
+  const handleRecommendMeals = async () => {
+      setIsRecommending(true);
+      try {
+          const now = new Date();
+          const goal = userProfile?.healthGoal ?? null;
+          const { remainingCalories, remainingMacros } = todayIntake;
+          const { suggestions } = await callAiAction(idToken => recommendNextMealAction({
+              idToken,
+              currentTime: format(now, 'HH:mm'),
+              mealType: mealTypeTranslations[mealTypeForTime(now)],
+              healthGoal: goal ? healthGoalTranslations[goal] : null,
+              dailyCalorieTarget: dailyCalories ? Math.round(dailyCalories) : null,
+              remainingCalories: remainingCalories !== null ? Math.round(remainingCalories) : null,
+              remainingMacros: remainingMacros ? {
+                  protein: Math.round(remainingMacros.protein),
+                  carbohydrates: Math.round(remainingMacros.carbohydrates),
+                  fat: Math.round(remainingMacros.fat),
+              } : null,
+              eatenToday: todayIntake.entries.map(entry => toMealSummary(entry, entry.timestamp.toDate())),
+              count: 3,
+          }));
+          setMealSuggestions(suggestions);
+          if (suggestions.length === 0) {
+              toast({ title: "沒有推薦", description: "目前無法產生推薦，請稍後再試。" });
+          }
+      } catch (e: any) {
+          console.error("產生餐點推薦時發生錯誤:", e);
+          toast({
+              variant: 'destructive',
+              title: '推薦失敗',
+              description: e instanceof Error ? e.message : '請稍後再試。',
+          });
+      } finally {
+          setIsRecommending(false);
+      }
+  };
+
+  // Log a suggestion directly, either as eaten now or as a planned meal
+  const logSuggestion = async (suggestion: MealSuggestion, planned: boolean) => {
+      if (!user) {
+          toast({ variant: 'destructive', title: "未登入", description: "請先登入以記錄卡路里。" });
+          return;
+      }
+      if (!repository) { // Check if the repository is available
+          toast({ variant: 'destructive', title: "資料庫錯誤", description: "無法連接資料庫，請稍後再試。" });
+          return;
+      }
+
+      setIsLoading(true);
+      setDbError(null);
+
+      const entryTime = new Date();
+      const baseEntryData = {
+          foodItem: suggestion.name,
+          calorieEstimate: suggestion.calorieEstimate,
+          imageUrl: null,
+          timestamp: entryTime,
+          mealType: mealTypeForTime(entryTime),
+          location: null,
+          cost: null,
+          macros: suggestion.macros,
+          items: suggestion.items,
+          barcode: null,
+          refinements: [],
+          portionGrams: suggestion.portionGrams,
+          servingUnit: '',
+          caloriesPer100g: suggestion.portionGrams > 0 ? Math.round((suggestion.calorieEstimate / suggestion.portionGrams) * 100) : 0,
+          planned,
+      };
+
+      try {
+          const nutritionistComment = await buildNutritionistComment(baseEntryData);
+          await repository.addCalorieEntry(user.uid, {
+              ...baseEntryData,
+              timestamp: Timestamp.fromDate(entryTime),
+              nutritionistComment,
+          });
+          toast({
+              title: planned ? "已加入計畫" : "記錄成功",
+              description: planned
+                  ? `${suggestion.name} 已加入今天的計畫，吃完後記得標記為已吃。`
+                  : `${suggestion.name} (${Math.round(suggestion.calorieEstimate)} 卡) 已新增至您的記錄。`,
+          });
+          setMealSuggestions(prev => prev?.filter(other => other !== suggestion) ?? null);
+      } catch (dbWriteError: any) {
+          console.error("寫入 Firestore 時發生錯誤:", dbWriteError);
+          setDbError("儲存卡路里記錄時發生錯誤。");
+          toast({
+              variant: 'destructive',
+              title: '儲存錯誤',
+              description: '儲存卡路里記錄時發生未預期的錯誤。'
+          });
+      } finally {
+          setIsLoading(false);
+      }
+  };
+
+  // Turn a planned entry into an eaten one at the current time
+  const markPlannedAsEaten = async (entry: CalorieLogEntry) => {
+      if (!user) return;
+      if (!repository) { // Check if the repository is available
+          toast({ variant: 'destructive', title: "資料庫錯誤", description: "無法連接資料庫，請稍後再試。" });
+          return;
+      }
+
+      setIsLoading(true);
+      setDbError(null);
+
+      try {
+          await repository.updateCalorieEntry(entry.id, { planned: false, timestamp: Timestamp.now() });
+          toast({ title: "已標記為已吃", description: `${entry.foodItem} 已計入今天的攝取量。` });
+      } catch (dbUpdateError: any) {
+          console.error("更新 Firestore 時發生錯誤:", dbUpdateError);
+          setDbError("更新記錄項目時發生錯誤。");
+          toast({
+              variant: 'destructive',
+              title: '更新錯誤',
+              description: '儲存更新時發生未預期的錯誤。'
+          });
+      } finally {
+          setIsLoading(false);
+      }
+  };
+
+
   // --- Profile Handling (Firestore) ---
 
   const handleProfileChange = async (field: keyof Omit<UserProfile, 'id'>, value: any) => {
       if (!isClient || !user || !userProfile) return; // Only update on client when logged in and profile loaded
-      if (!db) { // Check if db is available
+      if (!repository) { // Check if the repository is available
           toast({ variant: 'destructive', title: "資料庫錯誤", description: "無法連接資料庫，請稍後再試。" });
           return;
       }
@@ -1138,15 +1700,11 @@ const handleCropCancel = () => {
          }
       }
 
-       // Optimistically update local state for responsiveness
-       const originalProfile = { ...userProfile }; // Backup original profile
-       setUserProfile(prev => prev ? { ...prev, [field]: processedValue } : null);
        setDbError(null); // Clear previous DB error
 
        try {
-         // Update Firestore
-         const profileRef = doc(db, 'users', user.uid);
-         await updateDoc(profileRef, { [field]: processedValue });
+         // Applied locally right away; the hook reverts it if saving fails
+         await updateProfile({ [field]: processedValue });
           // toast({ title: "設定檔已更新", description: "您的個人資料已成功儲存。" }); // Optional success toast
        } catch (dbUpdateError: any) {
            console.error("更新 Firestore 個人資料時發生錯誤:", dbUpdateError);
@@ -1156,8 +1714,6 @@ const handleCropCancel = () => {
                title: '設定檔儲存錯誤',
                description: '儲存個人資料變更時發生未預期的錯誤。'
            });
-           // Revert optimistic update if Firestore save fails
-           setUserProfile(originalProfile); // Revert to original profile value
        }
   };
 
@@ -1165,6 +1721,34 @@ const handleCropCancel = () => {
   const dailyCalories = useMemo(() => calculateDailyCalories(userProfile ?? {}), [userProfile]);
   const bmi = useMemo(() => calculateBMI(userProfile ?? {}), [userProfile]);
   const calculatedRecommendedWater = useMemo(() => calculateRecommendedWater(userProfile ?? {}), [userProfile]); // Renamed for clarity
+
+  // What was eaten today (planned meals excluded) and what's left of the daily calorie and macro budget
+  const todayIntake = useMemo(() => {
+      const now = new Date();
+      const entries = calorieLog
+          .filter(entry => {
+              if (!entry?.timestamp || entry.planned) return false;
+              try {
+                  return isSameDay(entry.timestamp.toDate(), now);
+              } catch {
+                  return false; // Invalid date object
+              }
+          })
+          .sort((a, b) => a.timestamp.toMillis() - b.timestamp.toMillis());
+      const calories = entries.reduce((total, entry) => total + (entry.calorieEstimate || 0), 0);
+      const macros = sumMacros(entries.map(entry => entry.macros));
+      const macroTargets = calculateMacroTargets(userProfile ?? {});
+      return {
+          entries,
+          calories,
+          remainingCalories: dailyCalories ? dailyCalories - calories : null,
+          remainingMacros: macroTargets ? {
+              protein: macroTargets.protein - macros.protein,
+              carbohydrates: macroTargets.carbohydrates - macros.carbohydrates,
+              fat: macroTargets.fat - macros.fat,
+          } : null,
+      };
+  }, [calorieLog, userProfile, dailyCalories]);
   const defaultWaterTarget = 2000; // Default target if profile is incomplete or weight not set
 
 
@@ -1179,7 +1763,7 @@ const handleCropCancel = () => {
         toast({ variant: 'destructive', title: "無效數量", description: "請輸入有效的正數水量。" });
         return;
     }
-    if (!db) { // Check if db is available
+    if (!repository) { // Check if the repository is available
         toast({ variant: 'destructive', title: "資料庫錯誤", description: "無法連接資料庫，請稍後再試。" });
         return;
     }
@@ -1188,15 +1772,9 @@ const handleCropCancel = () => {
     setIsLoading(true); // Use general loading state
     setDbError(null);
 
-    const newWaterEntryData = {
-        userId: user.uid,
-        timestamp: Timestamp.now(), // Use server timestamp
-        amount: amountToAdd,
-    };
-
     try {
-        await addDoc(collection(db, 'waterEntries'), newWaterEntryData);
-        toast({ title: "已記錄飲水", description: `已新增 ${amountToAdd} 毫升。` });
+        await repository.addWaterEntry(user.uid, amountToAdd);
+        toast({ title: "已記錄飲水", description: `已新增 ${amountToAdd} 毫升。${syncStatus.online ? '' : OFFLINE_SAVE_NOTE}` });
         setCustomWaterAmount(''); // Clear custom input after logging
         // Local state updates via listener
     } catch (dbWriteError: any) {
@@ -1214,7 +1792,7 @@ const handleCropCancel = () => {
 
   const deleteWaterEntry = async (id: string) => {
       if (!isClient || !user) return;
-      if (!db) { // Check if db is available
+      if (!repository) { // Check if the repository is available
           toast({ variant: 'destructive', title: "資料庫錯誤", description: "無法連接資料庫，請稍後再試。" });
           return;
       }
@@ -1224,9 +1802,14 @@ const handleCropCancel = () => {
       setDbError(null);
 
       try {
-          const entryRef = doc(db, 'waterEntries', id);
-          await deleteDoc(entryRef);
-          toast({ title: "刪除成功", description: "飲水記錄已刪除。" });
+          const entry = Object.values(waterLog).flat().find(waterEntry => waterEntry.id === id);
+          await trashWaterEntries(repository, [id]);
+          if (entry) refreshMonthSummary(entry.timestamp.toDate());
+          toast({
+              title: "已移至垃圾桶",
+              description: "飲水記錄已刪除。",
+              action: <ToastAction altText="復原刪除" onClick={() => undoWaterDeletion([id], entry?.timestamp.toDate())}>復原</ToastAction>,
+          });
           // Local state updates via listener
       } catch (dbDeleteError: any) {
           console.error("刪除 Firestore 文件時發生錯誤:", dbDeleteError);
@@ -1242,9 +1825,19 @@ const handleCropCancel = () => {
   };
 
 
+  const undoWaterDeletion = (ids: string[], date: Date | undefined) => {
+      if (!repository) return;
+      restoreWaterEntries(repository, ids)
+          .then(() => { if (date) refreshMonthSummary(date); })
+          .catch(restoreError => {
+              console.error("復原刪除的飲水記錄時發生錯誤:", restoreError);
+              toast({ variant: 'destructive', title: '復原失敗', description: '請至「設定」的垃圾桶中還原。' });
+          });
+  };
+
   const resetTodaysWater = async () => {
       if (!isClient || !user || !selectedDate) return;
-      if (!db) { // Check if db is available
+      if (!repository) { // Check if the repository is available
           toast({ variant: 'destructive', title: "資料庫錯誤", description: "無法連接資料庫，請稍後再試。" });
           return;
       }
@@ -1261,15 +1854,16 @@ const handleCropCancel = () => {
       setDbError(null);
 
       try {
-          // Use a batch write for atomic deletion
-          const batch = writeBatch(db);
-          entriesToDelete.forEach(entry => {
-              const docRef = doc(db, 'waterEntries', entry.id);
-              batch.delete(docRef);
-          });
-          await batch.commit();
+          const ids = entriesToDelete.map(entry => entry.id);
+          const resetDate = selectedDate;
+          await trashWaterEntries(repository, ids); // Atomic
+          refreshMonthSummary(resetDate);
 
-          toast({ title: "已重設", description: `${format(selectedDate, 'yyyy/MM/dd')} 飲水量已重設。` });
+          toast({
+              title: "已重設",
+              description: `${format(resetDate, 'yyyy/MM/dd')} 飲水量已重設，刪除的記錄已移至垃圾桶。`,
+              action: <ToastAction altText="復原重設" onClick={() => undoWaterDeletion(ids, resetDate)}>復原</ToastAction>,
+          });
           // Local state updates via listener
       } catch (dbBatchError: any) {
            console.error("批次刪除 Firestore 文件時發生錯誤:", dbBatchError);
@@ -1300,9 +1894,8 @@ const handleCropCancel = () => {
    const achievementDateWaterIntake = useMemo(() => {
         if (!isClient || !selectedAchievementDate) return 0;
         const achievementDateKey = format(selectedAchievementDate, 'yyyy-MM-dd');
-        const entries = waterLog[achievementDateKey] || [];
-        return entries.reduce((total, entry) => total + entry.amount, 0);
-   }, [waterLog, isClient, selectedAchievementDate]);
+        return daySummaries[achievementDateKey]?.water ?? 0;
+   }, [daySummaries, isClient, selectedAchievementDate]);
 
    const achievementDateWaterGoalMet = achievementDateWaterIntake >= currentRecommendedWater;
 
@@ -1342,6 +1935,33 @@ const handleCropCancel = () => {
 
   // --- Rendering ---
 
+  // Marks an entry with changes that are only on this device so far
+  const renderPendingBadge = () => (
+    <span className="inline-flex items-center gap-0.5 ml-1 text-xs text-amber-600" title="尚未同步到雲端，恢復連線後會自動上傳">
+        <CloudOff size={12} /> 待同步
+    </span>
+  );
+
+  // Shown while writes made on this device are waiting for a connection
+  const renderSyncStatus = () => {
+      if (!user || syncStatus.pendingCount === 0) return null;
+      return (
+          <div className="flex items-center justify-between gap-2 text-sm rounded-md border border-amber-300 bg-amber-50 text-amber-800 px-3 py-2">
+              <span className="flex items-center gap-2">
+                  <CloudOff size={16} className="flex-shrink-0" />
+                  {syncStatus.online
+                      ? `${syncStatus.pendingCount} 筆變更同步中${syncStatus.retrying ? '，稍後自動重試' : '…'}`
+                      : `目前離線，${syncStatus.pendingCount} 筆變更已儲存在此裝置，恢復連線後會自動同步。`}
+              </span>
+              {syncStatus.online && syncStatus.retrying && (
+                  <Button variant="outline" size="sm" className="h-7 flex-shrink-0" onClick={syncNow}>
+                      <RotateCw className="mr-1 h-3 w-3" /> 立即重試
+                  </Button>
+              )}
+          </div>
+      );
+  };
+
   const renderLogEntry = (entry: CalorieLogEntry) => (
     // Using Dialog as the root here for the modal functionality
     <Dialog key={entry.id}>
@@ -1366,7 +1986,7 @@ const handleCropCancel = () => {
                          >
                             {entry.imageUrl ? (
                                 <img
-                                    src={entry.imageUrl}
+                                    src={entry.thumbnailUrl ?? entry.imageUrl} // Full image only loads in the zoom modal
                                     alt={entry.foodItem}
                                     className="w-full h-full object-cover"
                                     data-ai-hint="logged food item"
@@ -1386,10 +2006,37 @@ const handleCropCancel = () => {
                        </div>
                         <CardDescription className="text-sm text-muted-foreground">
                             約 {Math.round(entry.calorieEstimate)} 卡路里
+                            {entry.planned && <span className="text-primary ml-1 text-xs">(計畫中)</span>}
+                            {entry.pendingSync && renderPendingBadge()}
+                            {!!entry.portionGrams && <span className="ml-1 text-xs">({Math.round(entry.portionGrams)} 克)</span>}
                             {entry.confidence !== undefined && entry.confidence < 0.7 && entry.calorieEstimate > 0 && ( // Show confidence only if it's a food item with > 0 calories
                                 <span className="text-orange-600 ml-1 text-xs">(低信賴度)</span>
                             )}
                         </CardDescription>
+                        {entry.items && entry.items.length > 1 && (
+                            <ul className="text-xs text-muted-foreground mt-1 space-y-0.5">
+                                {entry.items.map((item, index) => (
+                                    <li key={index} className="truncate" title={`${item.name} (${item.portion})`}>
+                                        • {item.name}{item.portion && ` (${item.portion})`} {Math.round(item.calorieEstimate)} 卡
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        {entry.refinements && entry.refinements.length > 0 && (
+                            <div
+                                className="text-xs text-muted-foreground mt-1 flex items-center"
+                                title={entry.refinements.map(round => `「${round.correction}」：${round.before.foodItem} ${Math.round(round.before.calorieEstimate)} 卡 → ${round.after.foodItem} ${Math.round(round.after.calorieEstimate)} 卡`).join('\n')}
+                            >
+                                <MessageSquareText size={12} className="mr-1 flex-shrink-0" /> AI 估算經 {entry.refinements.length} 次修正 (原估 {Math.round(entry.refinements[0].before.calorieEstimate)} 卡)
+                            </div>
+                        )}
+                        {entry.macros && (
+                            <div className="text-xs text-muted-foreground mt-1 flex flex-wrap gap-x-2">
+                                <span>蛋白質 {formatMacroValue(entry.macros.protein)}克</span>
+                                <span>碳水 {formatMacroValue(entry.macros.carbohydrates)}克</span>
+                                <span>脂肪 {formatMacroValue(entry.macros.fat)}克</span>
+                            </div>
+                        )}
                          <div className="text-xs text-muted-foreground mt-1 flex items-center flex-wrap gap-x-2 gap-y-1">
                               <span className="flex items-center"><Clock size={12} className="mr-1"/> {entry.timestamp ? format(entry.timestamp.toDate(), 'yyyy/MM/dd HH:mm', { locale: zhTW }) : '無時間戳'}</span>
                              {entry.mealType && <span className="flex items-center"><UtensilsCrossed size={12} className="mr-1"/> {mealTypeTranslations[entry.mealType] || entry.mealType}</span>}
@@ -1435,6 +2082,11 @@ const handleCropCancel = () => {
 
                     {/* Action Buttons */}
                     <div className="flex flex-col sm:flex-row items-center gap-1 ml-auto flex-shrink-0">
+                         {entry.planned && (
+                             <Button variant="ghost" size="icon" className="h-8 w-8 text-primary" onClick={() => markPlannedAsEaten(entry)} aria-label="標記為已吃" disabled={isLoading}>
+                                <CircleCheck size={16} />
+                            </Button>
+                         )}
                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEditing(entry)} aria-label="編輯記錄">
                             <Edit size={16} />
                         </Button>
@@ -1448,7 +2100,7 @@ const handleCropCancel = () => {
                                 <AlertDialogHeader>
                                     <AlertDialogTitle>確定要刪除嗎？</AlertDialogTitle>
                                     <AlertDialogDescription>
-                                        此操作無法復原。這將永久刪除「{entry.foodItem}」的記錄。
+                                        「{entry.foodItem}」的記錄將移至垃圾桶，{TRASH_RETENTION_DAYS} 天內可在「設定」中還原。
                                     </AlertDialogDescription>
                                 </AlertDialogHeader>
                                 <AlertDialogFooter>
@@ -1485,6 +2137,7 @@ const handleCropCancel = () => {
             setImageSrc(null);
             setImageForEstimationCard(null);
             setEstimation(null);
+            setRefinementText('');
             setError(null);
             if (fileInputRef.current) {
                 fileInputRef.current.value = "";
@@ -1492,10 +2145,18 @@ const handleCropCancel = () => {
         }
         setShowEstimationDialog(open);
     }}>
-        <DialogContent className="sm:max-w-md">
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-md">
             <DialogHeader>
                 <DialogTitle>估算結果</DialogTitle>
-                <DialogDescription>AI 對您照片的分析。您可以在此編輯後記錄。</DialogDescription>
+                <DialogDescription>
+                    {estimation?.sampleProduct
+                        ? `條碼 ${estimation.barcode} 是內建的範例商品，數值僅供參考，並非實際包裝上的營養標示。請對照包裝核對。`
+                        : estimation?.barcode
+                        ? `條碼 ${estimation.barcode} 的商品營養標示。`
+                        : estimation?.nutritionLabel ? 'AI 從營養標示讀取的數值。'
+                        : imageForEstimationCard ? 'AI 對您照片的分析。' : 'AI 對您描述的分析。'}
+                    您可以在此編輯後記錄。
+                </DialogDescription>
             </DialogHeader>
             <div className="space-y-4 py-4">
                 {estimation?.isFoodItem === false && (
@@ -1522,6 +2183,46 @@ const handleCropCancel = () => {
                         disabled={estimation === null || isLoading}
                     />
                 </div>
+                {/* Detected Items */}
+                {estimation && estimation.items.length > 0 && (
+                    <div className="space-y-2">
+                        <span className="font-medium text-foreground text-sm">偵測到的品項：</span>
+                        {estimation.items.map((item, index) => (
+                            <div key={index} className={cn("flex items-center gap-2", !item.included && "opacity-50")}>
+                                <Checkbox
+                                    checked={item.included}
+                                    onCheckedChange={(checked) => handleEstimationItemChange(index, 'included', checked === true)}
+                                    aria-label={`包含${item.name}`}
+                                    disabled={isLoading}
+                                />
+                                <Input
+                                    value={item.name}
+                                    onChange={(e) => handleEstimationItemChange(index, 'name', e.target.value)}
+                                    className="h-8 flex-grow min-w-0 bg-muted"
+                                    aria-label="編輯品項名稱"
+                                    disabled={!item.included || isLoading}
+                                />
+                                <Input
+                                    value={item.portion}
+                                    onChange={(e) => handleEstimationItemChange(index, 'portion', e.target.value)}
+                                    className="h-8 w-20 bg-muted"
+                                    aria-label="編輯品項份量"
+                                    placeholder="份量"
+                                    disabled={!item.included || isLoading}
+                                />
+                                <Input
+                                    type="number"
+                                    value={item.calorieEstimate}
+                                    onChange={(e) => handleEstimationItemChange(index, 'calorieEstimate', e.target.value)}
+                                    className="h-8 w-20 text-right bg-muted"
+                                    aria-label="編輯品項卡路里"
+                                    disabled={!item.included || isLoading}
+                                    min="0"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                )}
                 {/* Editable Calorie Estimate */}
                 <div className="flex items-center justify-between">
                     <Label htmlFor="est-calories-dialog" className="font-medium text-foreground flex items-center shrink-0 pr-2">
@@ -1538,6 +2239,45 @@ const handleCropCancel = () => {
                         min="0"
                     />
                 </div>
+                {/* Portion Size: labelled products are measured in servings instead of grams */}
+                {estimation?.nutritionLabel ? (
+                    <ServingsInput
+                        id="est-servings-dialog"
+                        label={estimation.nutritionLabel}
+                        servings={estimation.servings ?? 1}
+                        onChange={handleEstimationServingsChange}
+                        disabled={isLoading}
+                    />
+                ) : estimation?.isFoodItem && (
+                    <PortionInput
+                        id="est-portion-dialog"
+                        grams={estimation.portionGrams}
+                        servingUnit={estimation.servingUnit}
+                        onChange={handleEstimationPortionChange}
+                        disabled={isLoading}
+                    />
+                )}
+                {/* Editable Macronutrients */}
+                <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+                    {macroFields.map(({ key, label, unit }) => (
+                        <div key={key} className="flex items-center justify-between">
+                            <Label htmlFor={`est-${key}-dialog`} className="text-sm text-foreground shrink-0 pr-2">
+                                {label} ({unit})
+                            </Label>
+                            <Input
+                                id={`est-${key}-dialog`}
+                                type="number"
+                                value={estimation?.macros?.[key] ?? ''}
+                                onChange={(e) => handleEstimationMacroChange(key, e.target.value)}
+                                className="h-8 w-20 text-right bg-muted"
+                                aria-label={`編輯${label}`}
+                                disabled={estimation === null || isLoading}
+                                min="0"
+                                step="0.1"
+                            />
+                        </div>
+                    ))}
+                </div>
                 {estimation?.isFoodItem && estimation?.confidence !== undefined && (
                     <div className="flex items-center justify-between">
                         <span className="font-medium text-foreground">信賴度：</span>
@@ -1546,14 +2286,51 @@ const handleCropCancel = () => {
                         </span>
                     </div>
                 )}
+                {/* Refine: send a correction back to the AI (not for barcode products, which aren't AI estimates) */}
+                {estimation && !estimation.barcode && (
+                    <div className="space-y-2 border-t pt-4">
+                        <Label htmlFor="est-refine-dialog" className="font-medium text-foreground flex items-center">
+                            <MessageSquareText size={12} className="mr-1 opacity-70" /> 估算不對？告訴 AI：
+                        </Label>
+                        <div className="flex gap-2">
+                            <Input
+                                id="est-refine-dialog"
+                                value={refinementText}
+                                onChange={(e) => setRefinementText(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') handleRefineEstimation(); }}
+                                placeholder="例如：這是鹹酥雞不是炸雞，大約 200 克"
+                                className="h-8 flex-grow bg-muted"
+                                disabled={isLoading || isRefining}
+                            />
+                            <Button size="sm" onClick={handleRefineEstimation} disabled={!refinementText.trim() || isLoading || isRefining}>
+                                {isRefining ? <LoadingSpinner size={16} /> : '重新估算'}
+                            </Button>
+                        </div>
+                        {estimation.refinements && estimation.refinements.length > 0 && (
+                            <ol className="text-xs text-muted-foreground space-y-1">
+                                {estimation.refinements.map((round, index) => (
+                                    <li key={index}>
+                                        {index + 1}.「{round.correction}」：{round.before.foodItem} {Math.round(round.before.calorieEstimate)} 卡 → {round.after.foodItem} {Math.round(round.after.calorieEstimate)} 卡
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                    </div>
+                )}
 
-                <div className="flex items-center justify-center mt-4 relative w-full aspect-video rounded-md overflow-hidden border bg-muted">
-                    {imageForEstimationCard ? (
-                        <img src={imageForEstimationCard} alt="拍攝的食物" className="object-contain max-h-full max-w-full" />
-                    ) : (
-                        <UtensilsCrossed className="w-12 h-12 text-muted-foreground opacity-50" />
-                    )}
-                </div>
+                {estimation?.barcode ? null : imageForEstimationCard || !mealDescription ? (
+                    <div className="flex items-center justify-center mt-4 relative w-full aspect-video rounded-md overflow-hidden border bg-muted">
+                        {imageForEstimationCard ? (
+                            <img src={imageForEstimationCard} alt="拍攝的食物" className="object-contain max-h-full max-w-full" />
+                        ) : (
+                            <UtensilsCrossed className="w-12 h-12 text-muted-foreground opacity-50" />
+                        )}
+                    </div>
+                ) : (
+                    <p className="mt-4 text-sm text-muted-foreground italic border-l-2 border-border pl-2 whitespace-pre-wrap">
+                        {mealDescription}
+                    </p>
+                )}
             </div>
             <DialogFooter className="gap-2 sm:gap-0">
                 <DialogClose asChild>
@@ -1561,7 +2338,7 @@ const handleCropCancel = () => {
                         取消
                     </Button>
                 </DialogClose>
-                <Button onClick={logCalories} variant="default" disabled={!imageForEstimationCard || !user || isLoading}>
+                <Button onClick={logCalories} variant="default" disabled={(!imageForEstimationCard && !estimation) || !user || isLoading || isRefining}>
                     {isLoading ? <LoadingSpinner className="mr-2" size={16} /> : <Plus className="mr-2 h-4 w-4" />}
                     {isLoading ? '記錄中...' : '記錄卡路里'}
                 </Button>
@@ -1579,7 +2356,7 @@ const handleCropCancel = () => {
      let logsToDisplay: CalorieLogEntry[];
 
      if (logViewMode === 'daily') {
-         logsToDisplay = calorieLog.filter(entry => {
+         logsToDisplay = displayedCalorieEntries.filter(entry => {
              if (!entry || !entry.timestamp) return false;
              try {
                  const entryDate = entry.timestamp.toDate(); // Convert Firestore Timestamp
@@ -1594,7 +2371,7 @@ const handleCropCancel = () => {
      } else { // Monthly view
          const monthStart = startOfMonth(selectedDate);
          const monthEnd = endOfMonth(selectedDate);
-         logsToDisplay = calorieLog.filter(entry => {
+         logsToDisplay = displayedCalorieEntries.filter(entry => {
               if (!entry || !entry.timestamp) return false;
               try {
                  const entryDate = entry.timestamp.toDate(); // Convert Firestore Timestamp
@@ -1624,42 +2401,20 @@ const handleCropCancel = () => {
 
      return logsToDisplay;
 
- }, [calorieLog, selectedDate, logViewMode, monthlySortCriteria, isClient]);
+ }, [displayedCalorieEntries, selectedDate, logViewMode, monthlySortCriteria, isClient]);
 
 
  // Get dates with calorie logs for calendar highlighting
  const calorieLoggedDays = useMemo(() => {
     if (!isClient) return [];
-    const days = new Set<string>();
-    calorieLog.forEach(entry => {
-        if (entry?.timestamp) {
-            try {
-                const date = startOfDay(entry.timestamp.toDate()); // Convert Firestore Timestamp
-                if (isValidDate(date)) days.add(format(date, 'yyyy-MM-dd'));
-            } catch {
-                // Ignore entries with invalid timestamps
-            }
-        }
-    });
-    return Array.from(days).map(dateStr => new Date(dateStr));
- }, [calorieLog, isClient]);
+    return summaryDates(daySummaries, day => day.entryCount > 0); // Planned meals aren't counted in summaries
+ }, [daySummaries, isClient]);
 
  // Get dates with water logs for calendar highlighting
  const waterLoggedDays = useMemo(() => {
     if (!isClient) return [];
-    return Object.keys(waterLog)
-        .filter(dateKey => waterLog[dateKey]?.length > 0)
-        .map(dateKey => {
-            try {
-                // Ensure the date string is parsed correctly, accounting for potential timezones
-                const [year, month, day] = dateKey.split('-').map(Number);
-                return new Date(year, month - 1, day); // Use Date constructor with parts for reliability
-            } catch {
-                return null; // Invalid date key
-            }
-        })
-        .filter((date): date is Date => date instanceof Date && isValidDate(date)); // Type guard
- }, [waterLog, isClient]);
+    return summaryDates(daySummaries, day => day.water > 0);
+ }, [daySummaries, isClient]);
 
 
  // Calculate water entries for the selected date - moved outside renderWaterTracker
@@ -1674,7 +2429,7 @@ const handleCropCancel = () => {
     if (!isClient) return null; // Only render errors on client
 
      // Combine LocalStorage errors and Firestore errors
-     const localErrors = [notificationSettingsError].filter(Boolean);
+     const localErrors = [notificationSettingsError, customProductsError].filter(Boolean);
      const allErrors = [authError, dbError, ...localErrors].filter(Boolean); // Include authError and dbError
 
 
@@ -1755,6 +2510,7 @@ const handleCropCancel = () => {
                  <User className="mx-auto h-12 w-12 opacity-50 mb-4" />
                  <p className="font-semibold mb-2">請先登入</p>
                  <p className="text-sm">登入後即可查看和記錄您的卡路里。請前往「設定」分頁登入。</p>
+                 <GuestModeButton className="mt-4" />
                  {/* Display auth error if present */}
                  {authError && <Alert variant="destructive" className="mt-4 text-left"><AlertTitle>登入錯誤</AlertTitle><AlertDescription>{authError}</AlertDescription></Alert>}
             </div>
@@ -1772,8 +2528,9 @@ const handleCropCancel = () => {
 
 
      const handleMonthChange = (month: Date) => {
+        setCalendarMonth(month); // Loads that month's summaries for the highlights
         // When changing month in monthly view, set selectedDate to the first of that month
-        setSelectedDate(startOfMonth(month));
+        if (logViewMode === 'monthly') setSelectedDate(startOfMonth(month));
      };
 
 
@@ -1781,6 +2538,8 @@ const handleCropCancel = () => {
         <div className="mt-0"> {/* Removed top margin to allow calendar to be flush */}
             {/* Moved error display inside specific sections or keep it general */}
             {/* {renderStorageError() && <div className="px-4 md:px-6">{renderStorageError()}</div>} */}
+            {renderMealDescriptionCard()}
+            {renderMealRecommendationsCard()}
              <div className="flex flex-col sm:flex-row justify-between items-center mb-4 gap-2 px-4 md:px-6"> {/* Add padding here */}
                 <h2 className="text-2xl font-semibold text-primary flex items-center gap-2 shrink-0">
                     <CalendarDays size={24}/> 卡路里記錄摘要
@@ -1854,8 +2613,8 @@ const handleCropCancel = () => {
                      captionLayout="dropdown-buttons" // Use dropdowns for easier navigation
                      fromYear={2020} // Example start year
                      toYear={new Date().getFullYear()} // Current year
-                     onMonthChange={logViewMode === 'monthly' ? handleMonthChange : undefined} // Only handle month change in monthly view
-                     month={logViewMode === 'monthly' ? selectedDate : undefined} // Control month in monthly view
+                     onMonthChange={handleMonthChange}
+                     month={calendarMonth} // Controlled so highlights can be loaded for the month shown
                  />
             </div>
 
@@ -1892,6 +2651,14 @@ const handleCropCancel = () => {
                     {filteredLog.length > 0 ? (
                         <div className="space-y-4">
                             {filteredLog.map(renderLogEntry)}
+                            {/* Monthly view loads older entries page by page as the end of the list scrolls into view */}
+                            {hasMoreEntries && (
+                                <div ref={loadMoreRef} className="flex justify-center py-2">
+                                    <Button variant="outline" size="sm" onClick={() => setMonthlyPageCount(count => count + 1)}>
+                                        載入更多
+                                    </Button>
+                                </div>
+                            )}
                         </div>
                     ) : (
                         <div className="text-center text-muted-foreground py-6">
@@ -1915,7 +2682,8 @@ const handleCropCancel = () => {
             )}
 
              {/* Show initial message if no logs exist at all */}
-             {calorieLog.length === 0 && !dbLoading && ( // Only show if not loading and log is empty
+             {/* Only entries of the loaded periods are known, so also check the per-day summaries */}
+             {calorieLog.length === 0 && Object.values(daySummaries).every(day => day.entryCount === 0) && !dbLoading && ( // Only show if not loading and log is empty
                  <div className="text-center text-muted-foreground py-10 mt-6 px-4 md:px-6"> {/* Add padding */}
                      <UtensilsCrossed className="mx-auto h-12 w-12 opacity-50 mb-4" />
                      <p>尚未記錄任何卡路里。</p>
@@ -1926,6 +2694,87 @@ const handleCropCancel = () => {
     );
 };
 
+ // Text entry path for meals without a photo
+ const renderMealDescriptionCard = () => (
+    <Card className="mx-4 md:mx-6 mt-4 mb-4 shadow-sm">
+        <CardHeader className="p-4 pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+                <PencilLine size={18} /> 描述您的餐點
+            </CardTitle>
+            <CardDescription className="text-xs">沒有照片？用文字描述也能估算卡路里。</CardDescription>
+        </CardHeader>
+        <CardContent className="p-4 pt-0 space-y-2">
+            <Textarea
+                ref={mealDescriptionRef}
+                value={mealDescription}
+                onChange={(e) => setMealDescription(e.target.value)}
+                placeholder="例如：一碗牛肉麵加滷蛋"
+                rows={2}
+                className="bg-muted"
+                disabled={isLoading}
+                aria-label="餐點描述"
+            />
+            <Button onClick={handleTextEstimation} disabled={!mealDescription.trim() || isLoading} className="w-full" size="sm">
+                {isLoading ? <LoadingSpinner size={16} className="mr-2" /> : <Sparkles className="mr-2 h-4 w-4" />}
+                估算卡路里
+            </Button>
+        </CardContent>
+    </Card>
+ );
+
+ // Next-meal suggestions based on today's remaining budget
+ const renderMealRecommendationsCard = () => (
+    <Card className="mx-4 md:mx-6 mb-4 shadow-sm">
+        <CardHeader className="p-4 pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+                <Lightbulb size={18} /> 下一餐吃什麼？
+            </CardTitle>
+            <CardDescription className="text-xs">
+                今天已攝取 {Math.round(todayIntake.calories)} 卡
+                {todayIntake.remainingCalories !== null
+                    ? `，剩餘 ${Math.round(todayIntake.remainingCalories)} 卡`
+                    : '。填寫個人資料即可依剩餘熱量推薦。'}
+                {todayIntake.remainingMacros && (
+                    ` (蛋白質 ${Math.max(0, Math.round(todayIntake.remainingMacros.protein))} 克、碳水 ${Math.max(0, Math.round(todayIntake.remainingMacros.carbohydrates))} 克、脂肪 ${Math.max(0, Math.round(todayIntake.remainingMacros.fat))} 克)`
+                )}
+            </CardDescription>
+        </CardHeader>
+        <CardContent className="p-4 pt-0 space-y-3">
+            <Button onClick={handleRecommendMeals} disabled={isRecommending || isLoading} className="w-full" size="sm" variant="outline">
+                {isRecommending ? <LoadingSpinner size={16} className="mr-2" /> : <Sparkles className="mr-2 h-4 w-4" />}
+                {mealSuggestions ? '重新推薦' : '推薦下一餐'}
+            </Button>
+            {mealSuggestions?.map((suggestion, index) => (
+                <div key={index} className="rounded-md border p-3 space-y-1">
+                    <div className="flex items-start justify-between gap-2">
+                        <span className="font-medium text-sm">{suggestion.name}</span>
+                        <span className="text-sm text-primary shrink-0">約 {Math.round(suggestion.calorieEstimate)} 卡</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{suggestion.reason}</p>
+                    {suggestion.items.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                            {suggestion.items.map(item => item.portion ? `${item.name} (${item.portion})` : item.name).join('、')}
+                        </p>
+                    )}
+                    <div className="text-xs text-muted-foreground flex flex-wrap gap-x-2">
+                        <span>蛋白質 {formatMacroValue(suggestion.macros.protein)}克</span>
+                        <span>碳水 {formatMacroValue(suggestion.macros.carbohydrates)}克</span>
+                        <span>脂肪 {formatMacroValue(suggestion.macros.fat)}克</span>
+                    </div>
+                    <div className="flex gap-2 pt-1">
+                        <Button size="sm" variant="outline" onClick={() => logSuggestion(suggestion, true)} disabled={!user || isLoading}>
+                            <CalendarClock className="mr-1 h-4 w-4" /> 加入計畫
+                        </Button>
+                        <Button size="sm" onClick={() => logSuggestion(suggestion, false)} disabled={!user || isLoading}>
+                            <Plus className="mr-1 h-4 w-4" /> 記錄為已吃
+                        </Button>
+                    </div>
+                </div>
+            ))}
+        </CardContent>
+    </Card>
+ );
+
  // Helper function to render water entries list
  const renderWaterEntriesList = (entries: WaterLogEntry[]) => (
     <div className="space-y-2 pt-4 border-t">
@@ -1933,7 +2782,7 @@ const handleCropCancel = () => {
         <ul className="max-h-40 overflow-y-auto space-y-1 pr-2">
             {entries.sort((a, b) => b.timestamp.toMillis() - a.timestamp.toMillis()).map(entry => (
                 <li key={entry.id} className="flex items-center justify-between text-sm bg-muted/50 p-2 rounded">
-                     <span>{entry.timestamp ? format(entry.timestamp.toDate(), 'HH:mm') : ''} - {entry.amount} 毫升</span>
+                     <span>{entry.timestamp ? format(entry.timestamp.toDate(), 'HH:mm') : ''} - {entry.amount} 毫升{entry.pendingSync && renderPendingBadge()}</span>
                     <Button variant="ghost" size="icon" className="h-6 w-6 text-destructive hover:text-destructive" onClick={() => deleteWaterEntry(entry.id)} aria-label="刪除此飲水記錄" disabled={!isClient || isLoading}>
                         <Trash size={14} />
                     </Button>
@@ -2048,6 +2897,7 @@ const handleCropCancel = () => {
              <Card className="mt-6 shadow-md text-center text-muted-foreground py-10">
                 <Droplet size={32} className="mx-auto mb-3 opacity-50" />
                 <p>請先登入以追蹤飲水。</p>
+                <GuestModeButton className="mt-4" />
                 {authError && <Alert variant="destructive" className="mt-4 text-left"><AlertTitle>錯誤</AlertTitle><AlertDescription>{authError}</AlertDescription></Alert>}
             </Card>
          )
@@ -2146,7 +2996,7 @@ const handleCropCancel = () => {
                                 <AlertDialogHeader>
                                     <AlertDialogTitle>確定要重設 {format(selectedDate ?? new Date(), 'yyyy/MM/dd')} 的飲水量嗎？</AlertDialogTitle>
                                     <AlertDialogDescription>
-                                        這將刪除所選日期的所有飲水記錄。此操作無法復原。
+                                        這將刪除所選日期的所有飲水記錄。刪除的記錄會移至垃圾桶，{TRASH_RETENTION_DAYS} 天內可在「設定」中還原。
                                     </AlertDialogDescription>
                                 </AlertDialogHeader>
                                 <AlertDialogFooter>
@@ -2198,6 +3048,7 @@ const handleCropCancel = () => {
                  <Trophy className="mx-auto h-12 w-12 opacity-50 mb-4" />
                  <p className="font-semibold mb-2">請先登入</p>
                  <p className="text-sm">登入後即可查看您的成就。請前往「設定」分頁登入。</p>
+                 <GuestModeButton className="mt-4" />
                  {authError && <Alert variant="destructive" className="mt-4 text-left"><AlertTitle>登入錯誤</AlertTitle><AlertDescription>{authError}</AlertDescription></Alert>}
             </div>
         )
@@ -2494,6 +3345,31 @@ const handleCropCancel = () => {
                              min="0" // Ensure calories are not negative
                          />
                      </div>
+                     {/* Portion Size */}
+                     <PortionInput
+                         id="edit-portionGrams"
+                         grams={editingEntry.portionGrams}
+                         servingUnit={editingEntry.servingUnit}
+                         onChange={handleEditPortionChange}
+                     />
+                     {/* Macronutrients */}
+                     {macroFields.map(({ key, label, unit }) => (
+                         <div key={key} className="grid grid-cols-4 items-center gap-4">
+                             <Label htmlFor={`edit-${key}`} className="text-right">
+                                 {label} ({unit})
+                             </Label>
+                             <Input
+                                 id={`edit-${key}`}
+                                 type="number"
+                                 step="0.1"
+                                 min="0"
+                                 value={editingEntry.macros?.[key] ?? ''}
+                                 onChange={(e) => handleEditMacroChange(key, e.target.value)}
+                                 className="col-span-3 bg-input"
+                                 placeholder="選填"
+                             />
+                         </div>
+                     ))}
                      {/* Timestamp */}
                      <div className="grid grid-cols-4 items-center gap-4">
                          <Label htmlFor="edit-timestamp" className="text-right">
@@ -2574,6 +3450,12 @@ const handleCropCancel = () => {
                      </div>
                  </div>
              )}
+             {editingEntry && user && (() => {
+                 const savedEntry = calorieLog.find(logEntry => logEntry.id === editingEntry.id);
+                 return savedEntry && (
+                     <EntryRevisionHistory entry={savedEntry} currentUserId={user.uid} onRevert={handleEditRevert} disabled={isLoading} />
+                 );
+             })()}
              <DialogFooter>
                   {dbError && <p className="text-sm text-destructive mr-auto">{dbError}</p>}
                  <DialogClose asChild>
@@ -2885,6 +3767,12 @@ const handleCropCancel = () => {
                     {renderStorageError()}
                  </div>
             )}
+            {/* Writes waiting for a connection */}
+            {user && syncStatus.pendingCount > 0 && (
+                 <div className="px-4 md:px-6 pt-2">
+                    {renderSyncStatus()}
+                 </div>
+            )}
             {/* Tab Contents */}
              {/* Tab 1: Logging & Summary */}
             <TabsContent value="logging" className="mt-0 h-full">
@@ -2917,6 +3805,7 @@ const handleCropCancel = () => {
                            {!authLoading && !user && (
                              <>
                                <LoginButton />
+                               <GuestModeButton className="w-full mt-2" />
                                {/* Display login-specific errors */}
                                {authError && <Alert variant="destructive" className="mt-4"><AlertTitle>登入錯誤</AlertTitle><AlertDescription>{authError}</AlertDescription></Alert>}
                              </>
@@ -2927,6 +3816,15 @@ const handleCropCancel = () => {
                  {/* Show profile editor only when logged in */}
                  {user && renderProfileEditor()}
                  {user && renderNotificationSettingsTrigger()}
+                 {user && <DataExportCard profile={userProfile} />}
+                 {user && (
+                     <Button variant="outline" className="w-full" onClick={() => setIsImportDialogOpen(true)}>
+                         <FileUp className="mr-2 h-4 w-4" /> 從其他 App 匯入記錄
+                     </Button>
+                 )}
+                 {user && <AiCorrectionStatsCard />}
+                 {user && <TrashCard onRestored={refreshMonthSummaries} />}
+                 {user && <AccountDeletionCard profile={userProfile} />}
              </TabsContent>
       </div>
 
@@ -2973,6 +3871,25 @@ const handleCropCancel = () => {
                              <Button onClick={() => fileInputRef.current?.click()} disabled={!isClient || isLoading} variant="outline" className="w-full">
                                  <UploadCloud className="mr-2 h-4 w-4" /> 上傳影像
                              </Button>
+                             <DialogClose asChild>
+                                 <Button onClick={() => setIsScanningBarcode(true)} disabled={!isClient || isLoading} variant="outline" className="w-full">
+                                     <ScanBarcode className="mr-2 h-4 w-4" /> 掃描條碼 (包裝食品)
+                                 </Button>
+                             </DialogClose>
+                             <DialogClose asChild>
+                                 <Button
+                                     onClick={() => {
+                                         setActiveTab('logging');
+                                         // Focus after the dialog has closed and the logging tab is shown
+                                         setTimeout(() => mealDescriptionRef.current?.focus(), 100);
+                                     }}
+                                     disabled={!isClient || isLoading}
+                                     variant="outline"
+                                     className="w-full"
+                                 >
+                                     <PencilLine className="mr-2 h-4 w-4" /> 描述餐點 (無照片)
+                                 </Button>
+                             </DialogClose>
                               {/* Hidden file input */}
                              <Input
                                  type="file"
@@ -3021,6 +3938,10 @@ const handleCropCancel = () => {
       {renderEditDialog()}
       {renderCropDialog()}
       {renderEstimationDialog()} {/* Render estimation dialog */}
+      <ImportWizardDialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen} onImported={refreshMonthSummaries} />
+      <GuestMergeDialog onMerged={refreshMonthSummaries} />
+      <BarcodeScannerDialog open={isScanningBarcode} onOpenChange={setIsScanningBarcode} onDetected={handleBarcodeDetected} />
+      <ProductFormDialog barcode={unknownBarcode} onOpenChange={(open) => { if (!open) setUnknownBarcode(null); }} onSave={handleProductSave} />
       <canvas ref={canvasRef} className="hidden" /> {/* Keep canvas for image capture */}
     </Tabs> // Close the top-level Tabs component
   );
@@ -0,0 +1,144 @@
+"use client";
+
+import React, { useState } from 'react';
+import { format, addDays, subDays, startOfDay } from 'date-fns';
+import { Download } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { LoadingSpinner } from '@/components/loading-spinner';
+import { useAuth } from '@/context/auth-context';
+import { useRepository } from '@/context/repository-context';
+import { useToast } from '@/hooks/use-toast';
+import { exportUserData, downloadBlob, type ExportFormat } from '@/lib/data/export';
+import type { UserProfile } from '@/lib/data/types';
+
+const DEFAULT_EXPORT_DAYS = 30;
+
+const toDateInputValue = (date: Date) => format(date, 'yyyy-MM-dd');
+// Parse as local midnight; `new Date('yyyy-MM-dd')` would be UTC
+const fromDateInputValue = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+interface DataExportCardProps {
+  profile: UserProfile | null;
+}
+
+// Settings card to download the user's profile, meals and water in a date range as JSON or CSV,
+// optionally with the meal photos in a zip
+export function DataExportCard({ profile }: DataExportCardProps) {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const { toast } = useToast();
+  const [startDate, setStartDate] = useState(() => toDateInputValue(subDays(new Date(), DEFAULT_EXPORT_DAYS - 1)));
+  const [endDate, setEndDate] = useState(() => toDateInputValue(new Date()));
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [includePhotos, setIncludePhotos] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const isRangeValid = !!startDate && !!endDate && startDate <= endDate;
+
+  const handleExport = async () => {
+    if (!user || !repository || !isRangeValid) return;
+    setIsExporting(true);
+    try {
+      const range = {
+        start: startOfDay(fromDateInputValue(startDate)),
+        end: addDays(startOfDay(fromDateInputValue(endDate)), 1), // Include the whole end date
+      };
+      const result = await exportUserData(repository, user.uid, profile, range, { format: exportFormat, includePhotos });
+      downloadBlob(result.blob, result.fileName);
+      toast({
+        title: "匯出完成",
+        description: `已匯出 ${result.calorieCount} 筆餐點記錄與 ${result.waterCount} 筆飲水記錄。` +
+          (result.missingPhotos > 0 ? ` 有 ${result.missingPhotos} 張照片無法下載，未包含在壓縮檔中。` : ''),
+      });
+    } catch (exportError) {
+      console.error("Error exporting data:", exportError);
+      toast({
+        title: "匯出失敗",
+        description: "無法匯出資料，請檢查網路連線後再試一次。",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Download size={20} /> 匯出資料</CardTitle>
+        <CardDescription>下載選定期間的餐點、飲水記錄與個人資料，例如在諮詢前提供給營養師。</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-start">開始日期</Label>
+            <Input
+              id="export-start"
+              type="date"
+              value={startDate}
+              max={endDate || undefined}
+              onChange={(e) => setStartDate(e.target.value)}
+              disabled={isExporting}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="export-end">結束日期</Label>
+            <Input
+              id="export-end"
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => setEndDate(e.target.value)}
+              disabled={isExporting}
+            />
+          </div>
+        </div>
+        {!isRangeValid && <p className="text-sm text-destructive">請選擇有效的日期範圍 (開始日期不可晚於結束日期)。</p>}
+        <div className="space-y-2">
+          <Label>格式</Label>
+          <RadioGroup
+            value={exportFormat}
+            onValueChange={(value) => setExportFormat(value as ExportFormat)}
+            className="flex space-x-4"
+            disabled={isExporting}
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="csv" id="export-csv" />
+              <Label htmlFor="export-csv" className="font-normal cursor-pointer">CSV (試算表)</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="json" id="export-json" />
+              <Label htmlFor="export-json" className="font-normal cursor-pointer">JSON</Label>
+            </div>
+          </RadioGroup>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="export-photos"
+            checked={includePhotos}
+            onCheckedChange={(checked) => setIncludePhotos(checked === true)}
+            disabled={isExporting}
+          />
+          <Label htmlFor="export-photos" className="font-normal cursor-pointer">包含餐點照片 (壓縮檔會較大)</Label>
+        </div>
+      </CardContent>
+      <CardFooter className="flex-col items-stretch gap-2">
+        <Button onClick={handleExport} disabled={!user || !repository || !isRangeValid || isExporting}>
+          {isExporting ? <LoadingSpinner size={16} className="mr-2" /> : <Download className="mr-2 h-4 w-4" />}
+          {isExporting ? "匯出中..." : "匯出"}
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          CSV 會以壓縮檔下載 (餐點、飲水與個人資料各一個檔案)，可直接用 Excel 或 Google 試算表開啟。
+        </p>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import React from 'react';
+import { format } from 'date-fns';
+import { History, RotateCcw, Sparkles } from 'lucide-react';
+import { Timestamp } from 'firebase/firestore';
+import { Button } from '@/components/ui/button';
+import { MEAL_TYPE_LABELS } from '@/lib/data/import';
+import { valuesBeforeRevision, valuesOfOriginalEstimate } from '@/lib/data/revisions';
+import type { CalorieLogEntry, CalorieEntryUpdate, MealType, RevisedField } from '@/lib/data/types';
+import type { Macronutrients } from '@/ai/schemas';
+
+const FIELD_LABELS: Record<RevisedField, string> = {
+  foodItem: '食物',
+  calorieEstimate: '卡路里',
+  macros: '營養素',
+  items: '餐點項目',
+  portionGrams: '份量 (克)',
+  timestamp: '時間',
+  mealType: '餐別',
+  location: '地點',
+  cost: '花費',
+  notes: '備註',
+};
+
+const formatValue = (field: RevisedField, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(未設定)';
+  switch (field) {
+    case 'timestamp':
+      return value instanceof Timestamp ? format(value.toDate(), 'yyyy/MM/dd HH:mm') : String(value);
+    case 'mealType':
+      return MEAL_TYPE_LABELS[value as MealType] ?? String(value);
+    case 'macros': {
+      const macros = value as Macronutrients;
+      return `蛋白質 ${macros.protein}g、碳水 ${macros.carbohydrates}g、脂肪 ${macros.fat}g`;
+    }
+    case 'items':
+      return Array.isArray(value) ? `${value.length} 項` : String(value);
+    case 'calorieEstimate':
+      return `${value} 卡`;
+    default:
+      return String(value);
+  }
+};
+
+interface EntryRevisionHistoryProps {
+  entry: CalorieLogEntry; // The saved entry, not the one being edited
+  currentUserId: string;
+  onRevert: (values: CalorieEntryUpdate) => void; // Loads the values into the edit form; saving records a new revision
+  disabled?: boolean;
+}
+
+// Edit history of a calorie entry, newest first, with the AI's original estimate at the bottom
+export function EntryRevisionHistory({ entry, currentUserId, onRevert, disabled }: EntryRevisionHistoryProps) {
+  const revisions = entry.revisions ?? [];
+  const original = entry.originalEstimate;
+  if (revisions.length === 0 && !original) return null;
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <p className="text-sm font-medium flex items-center gap-1"><History size={14} /> 修改記錄</p>
+      {revisions.length === 0 && <p className="text-xs text-muted-foreground">此記錄尚未修改過。</p>}
+      <ol className="space-y-3">
+        {revisions.map((revision, index) => ({ revision, index })).reverse().map(({ revision, index }) => (
+          <li key={`${revision.editedAt.toMillis()}-${index}`} className="text-xs space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-muted-foreground">
+                {format(revision.editedAt.toDate(), 'yyyy/MM/dd HH:mm')}・{revision.editedBy === currentUserId ? '您' : revision.editedByName || '其他使用者'}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => onRevert(valuesBeforeRevision(entry, index))}
+                disabled={disabled}
+              >
+                <RotateCcw size={12} className="mr-1" /> 還原到修改前
+              </Button>
+            </div>
+            <ul className="space-y-0.5">
+              {revision.changes.map(change => (
+                <li key={change.field}>
+                  <span className="font-medium">{FIELD_LABELS[change.field] ?? change.field}</span>：
+                  {formatValue(change.field, change.from)} → {formatValue(change.field, change.to)}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ol>
+      {original && (
+        <div className="rounded-md bg-muted/50 p-2 text-xs space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium flex items-center gap-1"><Sparkles size={12} /> AI 原始估算</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => onRevert(valuesOfOriginalEstimate(original))}
+              disabled={disabled}
+            >
+              <RotateCcw size={12} className="mr-1" /> 還原為 AI 估算
+            </Button>
+          </div>
+          <p>
+            {original.foodItem}・{original.calorieEstimate} 卡
+            {original.portionGrams ? `・${original.portionGrams} 克` : ''}
+            {original.confidence !== null ? `・信心度 ${Math.round(original.confidence * 100)}%` : ''}
+          </p>
+          {original.macros && <p className="text-muted-foreground">{formatValue('macros', original.macros)}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
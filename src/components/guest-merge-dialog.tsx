@@ -0,0 +1,187 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { Merge } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { LoadingSpinner } from '@/components/loading-spinner';
+import { useAuth } from '@/context/auth-context';
+import { useAccountRepository, useAccountServerRepository, useGuestRepository } from '@/context/repository-context';
+import { useToast } from '@/hooks/use-toast';
+import { buildGuestMergePreview, mergeGuestData, type GuestMergePreview, type ProfileField } from '@/lib/data/guest-merge';
+import type { ProfileUpdate } from '@/lib/data/types';
+
+const PROFILE_FIELD_LABELS: Record<ProfileField, string> = {
+  age: '年齡',
+  gender: '性別',
+  height: '身高 (公分)',
+  weight: '體重 (公斤)',
+  activityLevel: '活動量',
+  healthGoal: '健康目標',
+};
+
+const PROFILE_VALUE_LABELS: Record<string, string> = {
+  male: '男性',
+  female: '女性',
+  other: '其他',
+  sedentary: '久坐',
+  light: '輕度活動',
+  moderate: '中度活動',
+  active: '活躍',
+  veryActive: '非常活躍',
+  muscleGain: '增肌',
+  fatLoss: '減脂',
+  maintenance: '維持',
+};
+
+const formatProfileValue = (profile: ProfileUpdate, field: ProfileField) => {
+  const value = profile[field];
+  return typeof value === 'string' ? PROFILE_VALUE_LABELS[value] ?? value : String(value);
+};
+
+interface GuestMergeDialogProps {
+  onMerged?: (dates: Date[]) => void; // Times of the merged entries, e.g. to refresh cached month summaries
+}
+
+// After signing in, offers to move what was logged in guest mode on this device into the account.
+// Shows what the account already has in the same period and lets the user settle profile conflicts.
+export function GuestMergeDialog({ onMerged }: GuestMergeDialogProps) {
+  const { user } = useAuth();
+  const account = useAccountRepository();
+  const accountServer = useAccountServerRepository();
+  const guest = useGuestRepository();
+  const { toast } = useToast();
+  const [preview, setPreview] = useState<GuestMergePreview | null>(null);
+  const [preferGuestProfile, setPreferGuestProfile] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+
+  const userId = user && !user.isGuest ? user.uid : null;
+
+  useEffect(() => {
+    setPreview(null);
+    if (!userId || !account) return;
+    let cancelled = false;
+    guest.hasEntries()
+      .then(hasEntries => (hasEntries ? buildGuestMergePreview(guest, account, userId) : null))
+      .then(mergePreview => {
+        if (!cancelled && mergePreview) {
+          setPreferGuestProfile(false);
+          setPreview(mergePreview);
+        }
+      })
+      .catch(previewError => console.error("Error comparing guest data with the account:", previewError));
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, account, guest]);
+
+  const close = () => setPreview(null); // The guest data stays; it's offered again next time
+
+  const handleMerge = async () => {
+    if (!preview || !userId || !accountServer) return;
+    setIsMerging(true);
+    try {
+      await mergeGuestData(guest, accountServer, userId, preview, preferGuestProfile);
+      onMerged?.([...preview.calorieEntries, ...preview.waterEntries].map(entry => entry.timestamp.toDate()));
+      toast({
+        title: "已合併訪客記錄",
+        description: `已將 ${preview.calorieEntries.length} 筆餐點與 ${preview.waterEntries.length} 筆飲水記錄加入您的帳號。`,
+      });
+      setPreview(null);
+    } catch (mergeError) {
+      console.error("Error merging guest data:", mergeError);
+      toast({
+        variant: 'destructive',
+        title: "合併失敗",
+        description: "請確認已連上網路後再試一次。訪客記錄仍保留在此裝置上。",
+      });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    setIsMerging(true);
+    try {
+      await guest.clear();
+      toast({ title: "已刪除訪客記錄", description: "此裝置上的訪客記錄已刪除。" });
+      setPreview(null);
+    } catch (clearError) {
+      console.error("Error clearing guest data:", clearError);
+      toast({ variant: 'destructive', title: "錯誤", description: "無法刪除訪客記錄。" });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const accountHasData = !!preview && (preview.accountCalorieCount > 0 || preview.accountWaterCount > 0);
+
+  return (
+    <Dialog open={!!preview} onOpenChange={(open) => { if (!open && !isMerging) close(); }}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><Merge size={20} /> 合併訪客記錄</DialogTitle>
+          <DialogDescription>
+            您在此裝置上以訪客身分記錄了資料，要將它們加入目前登入的帳號嗎？
+          </DialogDescription>
+        </DialogHeader>
+        {preview && (
+          <div className="grid gap-3 py-2 text-sm">
+            <p>
+              將加入 <span className="font-semibold">{preview.calorieEntries.length}</span> 筆餐點與{' '}
+              <span className="font-semibold">{preview.waterEntries.length}</span> 筆飲水記錄。
+              {preview.duplicates > 0 && ` ${preview.duplicates} 筆已存在於帳號中，將略過。`}
+            </p>
+            {accountHasData && (
+              <Alert>
+                <AlertTitle>帳號在同一期間已有記錄</AlertTitle>
+                <AlertDescription>
+                  帳號在訪客記錄的期間內已有 {preview.accountCalorieCount} 筆餐點與 {preview.accountWaterCount} 筆飲水記錄。
+                  合併後兩邊的記錄會同時保留，當天的總攝取量可能因此增加。
+                </AlertDescription>
+              </Alert>
+            )}
+            {preview.profileConflicts.length > 0 && (
+              <div className="space-y-2">
+                <p className="font-medium">個人資料不一致：</p>
+                <ul className="space-y-1 text-muted-foreground">
+                  {preview.profileConflicts.map(field => (
+                    <li key={field}>
+                      {PROFILE_FIELD_LABELS[field]}：帳號為 {formatProfileValue(preview.accountProfile, field)}，訪客為 {formatProfileValue(preview.guestProfile, field)}
+                    </li>
+                  ))}
+                </ul>
+                <RadioGroup
+                  value={preferGuestProfile ? 'guest' : 'account'}
+                  onValueChange={(value) => setPreferGuestProfile(value === 'guest')}
+                  className="flex space-x-4"
+                  disabled={isMerging}
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="account" id="merge-profile-account" />
+                    <Label htmlFor="merge-profile-account" className="font-normal cursor-pointer">保留帳號的資料</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="guest" id="merge-profile-guest" />
+                    <Label htmlFor="merge-profile-guest" className="font-normal cursor-pointer">使用訪客的資料</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={close} disabled={isMerging}>稍後再說</Button>
+          <Button variant="outline" onClick={handleDiscard} disabled={isMerging}>刪除訪客記錄</Button>
+          <Button onClick={handleMerge} disabled={isMerging}>
+            {isMerging && <LoadingSpinner size={16} className="mr-2" />}
+            合併到帳號
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
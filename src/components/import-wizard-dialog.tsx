@@ -0,0 +1,310 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { FileUp, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/loading-spinner';
+import { useAuth } from '@/context/auth-context';
+import { useRepository } from '@/context/repository-context';
+import { useToast } from '@/hooks/use-toast';
+import {
+  IMPORT_FIELDS,
+  MEAL_TYPE_LABELS,
+  parseCsv,
+  guessColumnMapping,
+  buildImportPreview,
+  writeImport,
+  type ColumnMapping,
+  type ImportField,
+  type ImportKind,
+  type ImportPreview,
+  type ParsedCsv,
+} from '@/lib/data/import';
+
+type WizardStep = 'upload' | 'mapping' | 'preview' | 'done';
+
+const NOT_MAPPED = 'none';
+const PREVIEW_ROWS = 20;
+const MAX_LISTED_ISSUES = 50;
+
+interface ImportWizardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported?: (dates: Date[]) => void; // Times of the imported entries, e.g. to refresh cached month summaries
+}
+
+// Step-by-step import of CSV exports from other apps (MyFitnessPal, Cronometer) or spreadsheets:
+// choose a file, map its columns, check the preview (duplicates and unreadable rows are left out), import.
+export function ImportWizardDialog({ open, onOpenChange, onImported }: ImportWizardDialogProps) {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const { toast } = useToast();
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [kind, setKind] = useState<ImportKind>('calories');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [dayFirst, setDayFirst] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [writtenCount, setWrittenCount] = useState(0);
+
+  // Start over every time the wizard is opened
+  useEffect(() => {
+    if (open) {
+      setStep('upload');
+      setFileName(null);
+      setCsv(null);
+      setFileError(null);
+      setMapping({});
+      setPreview(null);
+      setWrittenCount(0);
+    }
+  }, [open]);
+
+  const fields = IMPORT_FIELDS[kind];
+  const missingRequired = fields.filter(info => info.required && mapping[info.field] === undefined);
+  const totalToImport = preview ? preview.calorieEntries.length + preview.waterEntries.length : 0;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        setCsv(null);
+        setFileError('檔案中沒有資料列。請確認是含有標題列的 CSV 檔案。');
+        return;
+      }
+      setCsv(parsed);
+      setFileError(null);
+    } catch (readError) {
+      console.error("Error reading import file:", readError);
+      setCsv(null);
+      setFileError('無法讀取檔案。');
+    }
+  };
+
+  const goToMapping = () => {
+    if (!csv) return;
+    setMapping(guessColumnMapping(csv.headers, kind));
+    setStep('mapping');
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const { [field]: _, ...rest } = prev;
+      return value === NOT_MAPPED ? rest : { ...rest, [field]: Number(value) };
+    });
+  };
+
+  const goToPreview = async () => {
+    if (!csv || !user || !repository || missingRequired.length > 0) return;
+    setIsWorking(true);
+    try {
+      setPreview(await buildImportPreview(repository, user.uid, csv, { kind, mapping, dayFirst }));
+      setStep('preview');
+    } catch (previewError) {
+      console.error("Error preparing import preview:", previewError);
+      toast({ variant: 'destructive', title: '無法比對既有記錄', description: '請檢查網路連線後再試一次。' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview || !user || !repository || totalToImport === 0) return;
+    setIsWorking(true);
+    setWrittenCount(0);
+    try {
+      await writeImport(repository, user.uid, preview, setWrittenCount);
+      onImported?.([...preview.calorieEntries, ...preview.waterEntries].map(entry => entry.timestamp.toDate()));
+      setStep('done');
+    } catch (importError) {
+      console.error("Error importing entries:", importError);
+      toast({
+        variant: 'destructive',
+        title: '匯入失敗',
+        description: '匯入時發生錯誤，請確認已連上網路。已匯入的記錄會保留，再次匯入同一檔案時會自動略過。',
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const renderUploadStep = () => (
+    <div className="grid gap-4 py-2">
+      <div className="space-y-2">
+        <Label>檔案內容</Label>
+        <RadioGroup value={kind} onValueChange={(value) => setKind(value as ImportKind)} className="flex space-x-4">
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="calories" id="import-kind-calories" />
+            <Label htmlFor="import-kind-calories" className="font-normal cursor-pointer">餐點 / 卡路里</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="water" id="import-kind-water" />
+            <Label htmlFor="import-kind-water" className="font-normal cursor-pointer">飲水</Label>
+          </div>
+        </RadioGroup>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="import-file">CSV 檔案</Label>
+        <Input id="import-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} className="bg-muted" />
+        {fileName && csv && <p className="text-sm text-muted-foreground">{fileName}：{csv.rows.length} 列資料、{csv.headers.length} 個欄位</p>}
+        {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        支援 MyFitnessPal 的營養匯出 (Nutrition)、Cronometer 的 servings / daily summary 匯出，以及任何含有標題列的試算表 CSV。
+      </p>
+    </div>
+  );
+
+  const renderMappingStep = () => (
+    <div className="grid gap-3 py-2">
+      <p className="text-sm text-muted-foreground">已依欄位名稱自動對應，請確認每個欄位對應到檔案中的哪一欄。</p>
+      {fields.map(({ field, label, required }) => {
+        const column = mapping[field];
+        const sample = column !== undefined ? csv?.rows[0]?.[column] : undefined;
+        return (
+          <div key={field} className="grid grid-cols-[7rem_1fr] items-center gap-2">
+            <Label className="text-sm">{label}{required && <span className="text-destructive"> *</span>}</Label>
+            <div className="min-w-0">
+              <Select value={column !== undefined ? String(column) : NOT_MAPPED} onValueChange={(value) => handleMappingChange(field, value)}>
+                <SelectTrigger className="h-9 bg-muted"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_MAPPED}>(不匯入)</SelectItem>
+                  {csv?.headers.map((header, index) => (
+                    <SelectItem key={index} value={String(index)}>{header || `第 ${index + 1} 欄`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {sample && <p className="text-xs text-muted-foreground truncate mt-1">例如：{sample}</p>}
+            </div>
+          </div>
+        );
+      })}
+      <div className="flex items-center space-x-2 pt-1">
+        <Checkbox id="import-day-first" checked={dayFirst} onCheckedChange={(checked) => setDayFirst(checked === true)} />
+        <Label htmlFor="import-day-first" className="font-normal cursor-pointer text-sm">斜線日期為「日/月/年」(預設為「月/日/年」)</Label>
+      </div>
+      {missingRequired.length > 0 && (
+        <p className="text-sm text-destructive">請對應必填欄位：{missingRequired.map(info => info.label).join('、')}</p>
+      )}
+    </div>
+  );
+
+  const renderPreviewStep = () => preview && (
+    <div className="grid gap-3 py-2">
+      <p className="text-sm">
+        將匯入 <span className="font-semibold">{preview.calorieEntries.length}</span> 筆餐點與{' '}
+        <span className="font-semibold">{preview.waterEntries.length}</span> 筆飲水記錄。
+        {preview.duplicates > 0 && ` 略過 ${preview.duplicates} 筆已存在的重複記錄。`}
+      </p>
+      {preview.calorieEntries.length > 0 && (
+        <div className="rounded-md border text-sm">
+          {preview.calorieEntries.slice(0, PREVIEW_ROWS).map((entry, index) => (
+            <div key={index} className="flex justify-between gap-2 px-3 py-1.5 border-b last:border-b-0">
+              <span className="text-muted-foreground shrink-0">{format(entry.timestamp.toDate(), 'yyyy/MM/dd HH:mm')}</span>
+              <span className="truncate flex-grow">{entry.mealType ? `${MEAL_TYPE_LABELS[entry.mealType]} · ` : ''}{entry.foodItem}</span>
+              <span className="shrink-0">{entry.calorieEstimate} 大卡</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {preview.waterEntries.length > 0 && (
+        <div className="rounded-md border text-sm">
+          {preview.waterEntries.slice(0, PREVIEW_ROWS).map((entry, index) => (
+            <div key={index} className="flex justify-between gap-2 px-3 py-1.5 border-b last:border-b-0">
+              <span className="text-muted-foreground">{format(entry.timestamp.toDate(), 'yyyy/MM/dd HH:mm')}</span>
+              <span>{entry.amount} 毫升</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {totalToImport > PREVIEW_ROWS && <p className="text-xs text-muted-foreground">僅顯示前 {PREVIEW_ROWS} 筆。</p>}
+      {preview.issues.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>{preview.issues.length} 列無法解析，將不會匯入</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-1 max-h-32 overflow-y-auto text-xs space-y-0.5">
+              {preview.issues.slice(0, MAX_LISTED_ISSUES).map(issue => (
+                <li key={issue.row}>第 {issue.row} 列：{issue.message}</li>
+              ))}
+              {preview.issues.length > MAX_LISTED_ISSUES && <li>…及其他 {preview.issues.length - MAX_LISTED_ISSUES} 列</li>}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+      {isWorking && (
+        <div className="space-y-1">
+          <Progress value={(writtenCount / totalToImport) * 100} className="h-2" />
+          <p className="text-xs text-muted-foreground">已匯入 {writtenCount} / {totalToImport} 筆</p>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderDoneStep = () => preview && (
+    <div className="flex flex-col items-center gap-2 py-6 text-center">
+      <CheckCircle2 className="h-10 w-10 text-green-600" />
+      <p className="font-medium">已匯入 {preview.calorieEntries.length} 筆餐點與 {preview.waterEntries.length} 筆飲水記錄。</p>
+      {(preview.duplicates > 0 || preview.issues.length > 0) && (
+        <p className="text-sm text-muted-foreground">略過 {preview.duplicates} 筆重複記錄與 {preview.issues.length} 列無法解析的資料。</p>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isWorking) onOpenChange(isOpen); }}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><FileUp size={20} /> 匯入記錄</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && '從其他飲食記錄 App 或試算表匯入過去的記錄 (步驟 1/3)。'}
+            {step === 'mapping' && '對應欄位 (步驟 2/3)。'}
+            {step === 'preview' && '確認匯入內容 (步驟 3/3)。'}
+            {step === 'done' && '匯入完成。'}
+          </DialogDescription>
+        </DialogHeader>
+        {step === 'upload' && renderUploadStep()}
+        {step === 'mapping' && renderMappingStep()}
+        {step === 'preview' && renderPreviewStep()}
+        {step === 'done' && renderDoneStep()}
+        <DialogFooter className="gap-2">
+          {step === 'upload' && <Button onClick={goToMapping} disabled={!csv}>下一步</Button>}
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('upload')} disabled={isWorking}>上一步</Button>
+              <Button onClick={goToPreview} disabled={missingRequired.length > 0 || isWorking}>
+                {isWorking && <LoadingSpinner size={16} className="mr-2" />}
+                下一步
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')} disabled={isWorking}>上一步</Button>
+              <Button onClick={handleImport} disabled={totalToImport === 0 || isWorking}>
+                {isWorking && <LoadingSpinner size={16} className="mr-2" />}
+                {isWorking ? '匯入中...' : `匯入 ${totalToImport} 筆`}
+              </Button>
+            </>
+          )}
+          {step === 'done' && <Button onClick={() => onOpenChange(false)}>完成</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,8 @@
-
 "use client";
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { LogIn } from 'lucide-react';
+import { LogIn, UserRound } from 'lucide-react';
 import { useAuth } from '@/context/auth-context';
 
 export const LoginButton: React.FC = () => {
@@ -16,3 +15,15 @@ export const LoginButton: React.FC = () => {
     </Button>
   );
 };
+
+// Start logging without an account; the data stays on this device until the user signs in
+export const GuestModeButton: React.FC<{ className?: string }> = ({ className }) => {
+  const { startGuestSession, loading } = useAuth();
+
+  return (
+    <Button onClick={startGuestSession} disabled={loading} variant="outline" className={className}>
+      <UserRound className="mr-2 h-4 w-4" />
+      以訪客身分使用
+    </Button>
+  );
+};
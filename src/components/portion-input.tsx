@@ -0,0 +1,59 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Scale } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+
+interface PortionInputProps {
+  id: string;
+  grams: number | null | undefined; // Current portion weight, null/undefined if unknown
+  onChange: (grams: number) => void;
+  servingUnit?: string | null;
+  disabled?: boolean;
+}
+
+// Slider + number input for the portion weight in grams.
+// The slider range is fixed on mount (twice the initial weight, at least 500 g) so it doesn't move while dragging.
+export function PortionInput({ id, grams, onChange, servingUnit, disabled }: PortionInputProps) {
+  const [maxGrams] = useState(() => Math.max(500, Math.ceil(((grams ?? 0) * 2) / 50) * 50));
+
+  const handleInputChange = (value: string) => {
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed) || parsed <= 0) return; // A zero weight would make later rescaling impossible
+    onChange(parsed);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={id} className="font-medium text-foreground flex items-center shrink-0 pr-2">
+          <Scale size={12} className="mr-1 opacity-70" /> 份量 (克)：
+        </Label>
+        <div className="flex items-center gap-2">
+          {servingUnit && <span className="text-xs text-muted-foreground">{servingUnit}</span>}
+          <Input
+            id={id}
+            type="number"
+            value={grams ? Math.round(grams) : ''}
+            onChange={(e) => handleInputChange(e.target.value)}
+            className="h-8 w-24 text-right bg-muted"
+            placeholder="未知"
+            min="1"
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <Slider
+        value={[grams ?? 0]}
+        onValueChange={([value]) => onChange(value)}
+        min={5}
+        max={maxGrams}
+        step={5}
+        disabled={disabled || !grams}
+        aria-label="調整份量"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { PackagePlus } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { macroFields, emptyMacros, parseMacroValue } from '@/lib/nutrition';
+import type { PackagedProduct } from '@/lib/product-database';
+
+interface ProductFormDialogProps {
+  barcode: string | null; // Barcode of the unknown product; the dialog is open while this is set
+  onOpenChange: (open: boolean) => void;
+  onSave: (product: PackagedProduct) => void;
+}
+
+// Form for creating a product record for a barcode that isn't in the product database yet
+export function ProductFormDialog({ barcode, onOpenChange, onSave }: ProductFormDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [servingDescription, setServingDescription] = useState('1 份');
+  const [servingGrams, setServingGrams] = useState('');
+  const [calories, setCalories] = useState('');
+  const [macros, setMacros] = useState(emptyMacros);
+
+  // Start with an empty form for every new barcode
+  useEffect(() => {
+    if (barcode) {
+      setName('');
+      setServingDescription('1 份');
+      setServingGrams('');
+      setCalories('');
+      setMacros(emptyMacros);
+    }
+  }, [barcode]);
+
+  const handleSave = () => {
+    if (!barcode) return;
+    const parsedCalories = parseFloat(calories);
+    if (!name.trim() || isNaN(parsedCalories) || parsedCalories < 0) {
+      toast({ variant: 'destructive', title: '資料不完整', description: '請輸入商品名稱與每份卡路里。' });
+      return;
+    }
+    onSave({
+      barcode,
+      name: name.trim(),
+      servingDescription: servingDescription.trim() || '1 份',
+      servingGrams: parseMacroValue(servingGrams),
+      calories: parsedCalories,
+      macros,
+    });
+  };
+
+  return (
+    <Dialog open={!!barcode} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><PackagePlus size={20} /> 新增商品</DialogTitle>
+          <DialogDescription>
+            找不到條碼 {barcode} 的商品。請依包裝上的營養標示建立商品資料，下次掃描即可直接使用。
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-3 py-2">
+          <div className="space-y-1">
+            <Label htmlFor="product-name">商品名稱</Label>
+            <Input id="product-name" value={name} onChange={(e) => setName(e.target.value)} className="bg-muted" placeholder="例如：原味豆漿" />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="product-serving">每份份量</Label>
+              <Input id="product-serving" value={servingDescription} onChange={(e) => setServingDescription(e.target.value)} className="bg-muted" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="product-serving-grams">每份重量 (克)</Label>
+              <Input id="product-serving-grams" type="number" min="0" value={servingGrams} onChange={(e) => setServingGrams(e.target.value)} className="bg-muted" />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="product-calories">每份卡路里</Label>
+            <Input id="product-calories" type="number" min="0" value={calories} onChange={(e) => setCalories(e.target.value)} className="bg-muted" />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {macroFields.map(({ key, label, unit }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`product-${key}`}>{label} ({unit})</Label>
+                <Input
+                  id={`product-${key}`}
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={macros[key]}
+                  onChange={(e) => setMacros(prev => ({ ...prev, [key]: parseMacroValue(e.target.value) }))}
+                  className="bg-muted"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+        <DialogFooter className="gap-2 sm:gap-0">
+          <DialogClose asChild>
+            <Button variant="outline">取消</Button>
+          </DialogClose>
+          <Button onClick={handleSave}>儲存並記錄</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
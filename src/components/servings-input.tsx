@@ -0,0 +1,56 @@
+"use client";
+
+import React from 'react';
+import { Package } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { NutritionLabel } from '@/ai/schemas';
+
+interface ServingsInputProps {
+  id: string;
+  label: NutritionLabel;
+  servings: number;
+  onChange: (servings: number) => void;
+  disabled?: boolean;
+}
+
+// Number of servings eaten from a packaged product, with shortcuts for one serving and the whole package
+export function ServingsInput({ id, label, servings, onChange, disabled }: ServingsInputProps) {
+  const handleInputChange = (value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed) || parsed <= 0) return;
+    onChange(parsed);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={id} className="font-medium text-foreground flex items-center shrink-0 pr-2">
+          <Package size={12} className="mr-1 opacity-70" /> 食用份數：
+        </Label>
+        <Input
+          id={id}
+          type="number"
+          value={servings}
+          onChange={(e) => handleInputChange(e.target.value)}
+          className="h-8 w-24 text-right bg-muted"
+          min="0.5"
+          step="0.5"
+          disabled={disabled}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        每份 {label.servingSize}，本包裝含 {label.servingsPerPackage} 份
+      </p>
+      <div className="flex gap-2">
+        <Button type="button" size="sm" variant="outline" onClick={() => onChange(1)} disabled={disabled}>1 份</Button>
+        {label.servingsPerPackage > 1 && (
+          <Button type="button" size="sm" variant="outline" onClick={() => onChange(label.servingsPerPackage)} disabled={disabled}>
+            整包 ({label.servingsPerPackage} 份)
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
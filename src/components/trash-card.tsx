@@ -0,0 +1,159 @@
+"use client";
+
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Droplet, RotateCcw, Trash2, Utensils } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button, buttonVariants } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useRepository } from '@/context/repository-context';
+import { useTrash } from '@/hooks/use-log-data';
+import { useToast } from '@/hooks/use-toast';
+import {
+  TRASH_RETENTION_DAYS,
+  purgeDate,
+  purgeTrash,
+  restoreCalorieEntry,
+  restoreWaterEntries,
+} from '@/lib/data/trash';
+import type { CalorieLogEntry, WaterLogEntry } from '@/lib/data/types';
+
+type TrashItem =
+  | { kind: 'calorie'; entry: CalorieLogEntry }
+  | { kind: 'water'; entry: WaterLogEntry };
+
+interface TrashCardProps {
+  onRestored?: (dates: Date[]) => void; // Times of the restored entries, e.g. to refresh cached month summaries
+}
+
+// Settings card listing deleted meals and drinks, which can be restored or deleted for good until
+// they are purged automatically
+export function TrashCard({ onRestored }: TrashCardProps) {
+  const repository = useRepository();
+  const { trash, loading, error } = useTrash();
+  const { toast } = useToast();
+  const [busy, setBusy] = useState(false);
+
+  const items: TrashItem[] = [
+    ...trash.calorieEntries.map(entry => ({ kind: 'calorie' as const, entry })),
+    ...trash.waterEntries.map(entry => ({ kind: 'water' as const, entry })),
+  ].sort((a, b) => (b.entry.deletedAt?.toMillis() ?? 0) - (a.entry.deletedAt?.toMillis() ?? 0));
+
+  const handleRestore = async (item: TrashItem) => {
+    if (!repository) return;
+    setBusy(true);
+    try {
+      if (item.kind === 'calorie') await restoreCalorieEntry(repository, item.entry.id);
+      else await restoreWaterEntries(repository, [item.entry.id]);
+      onRestored?.([item.entry.timestamp.toDate()]);
+      toast({ title: "已還原", description: item.kind === 'calorie' ? `已還原「${item.entry.foodItem}」。` : "已還原飲水記錄。" });
+    } catch (restoreError) {
+      console.error("Error restoring entry from the trash:", restoreError);
+      toast({ variant: 'destructive', title: "還原失敗", description: "無法還原此項目，請稍後再試。" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePurge = async (purged: TrashItem[]) => {
+    if (!repository || purged.length === 0) return;
+    setBusy(true);
+    try {
+      await purgeTrash(repository, {
+        calorieEntries: purged.flatMap(item => (item.kind === 'calorie' ? [item.entry] : [])),
+        waterEntries: purged.flatMap(item => (item.kind === 'water' ? [item.entry] : [])),
+      });
+      toast({ title: "已永久刪除", description: `已永久刪除 ${purged.length} 個項目。` });
+    } catch (purgeError) {
+      console.error("Error purging the trash:", purgeError);
+      toast({ variant: 'destructive', title: "刪除失敗", description: "無法永久刪除項目，請稍後再試。" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Trash2 size={20} /> 垃圾桶</CardTitle>
+        <CardDescription>刪除的餐點與飲水記錄會保留 {TRASH_RETENTION_DAYS} 天，期間可以還原，之後會自動永久刪除。</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading && <Skeleton className="h-16 w-full" />}
+        {!loading && error && <p className="text-sm text-destructive">{error}</p>}
+        {!loading && !error && items.length === 0 && <p className="text-sm text-muted-foreground text-center py-4">垃圾桶是空的。</p>}
+        {!loading && !error && items.length > 0 && (
+          <ul className="divide-y max-h-80 overflow-y-auto">
+            {items.map(item => (
+              <li key={`${item.kind}-${item.entry.id}`} className="flex items-center justify-between gap-2 py-2">
+                <div className="flex items-center gap-3 min-w-0">
+                  {item.kind === 'calorie'
+                    ? <Utensils size={16} className="shrink-0 text-muted-foreground" />
+                    : <Droplet size={16} className="shrink-0 text-blue-500" />}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {item.kind === 'calorie' ? `${item.entry.foodItem} (${item.entry.calorieEstimate} 大卡)` : `飲水 ${item.entry.amount} 毫升`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      記錄於 {format(item.entry.timestamp.toDate(), 'yyyy/MM/dd HH:mm')}
+                      {item.entry.deletedAt && `，將於 ${format(purgeDate(item.entry.deletedAt), 'MM/dd')} 永久刪除`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex shrink-0">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleRestore(item)} disabled={busy} aria-label="還原">
+                    <RotateCcw size={16} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                    onClick={() => handlePurge([item])}
+                    disabled={busy}
+                    aria-label="永久刪除"
+                  >
+                    <Trash2 size={16} />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+      {items.length > 0 && (
+        <CardFooter>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" className="w-full" disabled={busy || !repository}>清空垃圾桶</Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>確定要清空垃圾桶嗎？</AlertDialogTitle>
+                <AlertDialogDescription>
+                  垃圾桶中的 {items.length} 個項目 (包含餐點照片) 將被永久刪除，此操作無法復原。
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>取消</AlertDialogCancel>
+                <AlertDialogAction onClick={() => handlePurge(items)} className={buttonVariants({ variant: "destructive" })}>
+                  永久刪除
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
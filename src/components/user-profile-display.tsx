@@ -7,6 +7,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { LogOut, User as UserIcon } from 'lucide-react';
 import { useAuth } from '@/context/auth-context';
 import { Skeleton } from '@/components/ui/skeleton'; // Import Skeleton
+import { LoginButton } from '@/components/login-button';
 
 export const UserProfileDisplay: React.FC = () => {
   const { user, logout, loading } = useAuth();
@@ -33,6 +34,30 @@ export const UserProfileDisplay: React.FC = () => {
     return null;
   }
 
+  if (user.isGuest) {
+    return (
+      <div className="w-full border p-3 rounded-lg bg-muted/50 shadow-sm space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Avatar>
+              <AvatarFallback><UserIcon size={18} /></AvatarFallback>
+            </Avatar>
+            <div>
+              <p className="text-sm font-medium text-foreground">訪客</p>
+              <p className="text-xs text-muted-foreground">記錄只儲存在此裝置上</p>
+            </div>
+          </div>
+          <Button onClick={logout} variant="ghost" size="sm" disabled={loading}>
+            <LogOut className="mr-2 h-4 w-4" />
+            結束訪客模式
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">登入後可將訪客記錄合併到您的帳號，並在其他裝置上使用。</p>
+        <LoginButton />
+      </div>
+    );
+  }
+
   const getInitials = (name: string | null | undefined) => {
       if (!name) return '';
       return name.split(' ').map(n => n[0]).join('').toUpperCase();
@@ -1,19 +1,41 @@
 "use client";
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { onAuthStateChanged, User as FirebaseUser, GoogleAuthProvider, signInWithPopup, signOut } from 'firebase/auth';
-import { doc, setDoc, getDoc, serverTimestamp, Timestamp } from 'firebase/firestore'; // Import Timestamp
-import { auth, db } from '@/lib/firebase/config';
+import { onAuthStateChanged, User as FirebaseUser, GoogleAuthProvider, signInWithPopup, reauthenticateWithPopup, deleteUser, signOut } from 'firebase/auth';
+import { auth } from '@/lib/firebase/config';
+import { useAccountRepository, useGuestRepository, ActiveRepositoryProvider } from '@/context/repository-context';
+import { GUEST_ACCOUNT } from '@/lib/data/local-repository';
+import type { UserAccount, DeletionProgress } from '@/lib/data/types';
+import useLocalStorage from '@/hooks/use-local-storage';
 import { LoadingSpinner } from '@/components/loading-spinner'; // Assuming LoadingSpinner exists
+import { deleteEstimationUsageAction } from '@/ai/actions/delete-estimation-usage';
+
+// The signed-in Google account, or the guest (whose data stays on this device)
+export interface AppUser extends UserAccount {
+  isGuest: boolean;
+}
 
 interface AuthContextType {
-  user: FirebaseUser | null;
+  user: AppUser | null;
   loading: boolean;
   signInWithGoogle: () => Promise<void>;
-  logout: () => Promise<void>;
+  startGuestSession: () => Promise<void>; // Use the app without an account
+  logout: () => Promise<void>; // Signs out, or leaves guest mode (the guest data stays on this device)
+  // Erase all of the signed-in user's data, then the auth user itself. Asks the user to sign in again first.
+  deleteAccount: (onProgress?: (progress: DeletionProgress) => void) => Promise<void>;
   authError: string | null; // Add state for auth-related errors
 }
 
+const GUEST_USER: AppUser = { ...GUEST_ACCOUNT, isGuest: true };
+
+const toAppUser = (firebaseUser: FirebaseUser): AppUser => ({
+  uid: firebaseUser.uid,
+  email: firebaseUser.email,
+  displayName: firebaseUser.displayName,
+  photoURL: firebaseUser.photoURL,
+  isGuest: false,
+});
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 interface AuthProviderProps {
@@ -21,9 +43,21 @@ interface AuthProviderProps {
 }
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  const [user, setUser] = useState<FirebaseUser | null>(null);
+  const [accountUser, setAccountUser] = useState<AppUser | null>(null);
   const [loading, setLoading] = useState(true);
   const [authError, setAuthError] = useState<string | null>(null); // State for errors
+  const [guestMode, setGuestMode] = useLocalStorage('guestMode', false);
+  const repository = useAccountRepository();
+  const guestRepository = useGuestRepository();
+  // A signed-in account always takes precedence over guest mode
+  const user = accountUser ?? (guestMode ? GUEST_USER : null);
+  const isGuest = user?.isGuest ?? false;
+
+  // Recreate the guest profile if the stored guest data was lost (e.g. no IndexedDB)
+  useEffect(() => {
+    if (!isGuest) return;
+    guestRepository.recordSignIn(GUEST_ACCOUNT).catch(error => console.error("Error initializing guest profile:", error));
+  }, [isGuest, guestRepository]);
 
   useEffect(() => {
     // Check if auth service is available before subscribing
@@ -40,54 +74,36 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
       console.log("AuthProvider: onAuthStateChanged triggered. User:", firebaseUser?.uid ?? 'null');
       if (firebaseUser) {
-        setUser(firebaseUser);
-        // Check if user exists in Firestore, if not, create them
-        if (db) { // Ensure db is available
-            const userRef = doc(db, 'users', firebaseUser.uid);
+        setAccountUser(toAppUser(firebaseUser));
+        setGuestMode(false); // Guest data is offered for merging into the account (see GuestMergeDialog)
+        // Create the user document on first sign-in, otherwise record the login
+        if (repository) { // Ensure the repository is available
+            void repository.setUser(firebaseUser.uid); // Sync this user's writes queued on this device
             try {
-                const docSnap = await getDoc(userRef);
-                const now = Timestamp.now(); // Use Firestore Timestamp for consistency
-
-                if (!docSnap.exists()) {
-                    await setDoc(userRef, {
-                        uid: firebaseUser.uid,
-                        email: firebaseUser.email,
-                        displayName: firebaseUser.displayName,
-                        photoURL: firebaseUser.photoURL,
-                        createdAt: now, // Use Timestamp
-                        lastLogin: now, // Use Timestamp
-                        // Initialize profile fields here if needed, e.g., age: null etc.
-                        // This prevents the CalorieLogger from needing to create it later
-                        age: null,
-                        gender: null,
-                        height: null,
-                        weight: null,
-                        activityLevel: null,
-                        healthGoal: null,
-                    }, { merge: true }); // Use merge to be safe
-                    console.log("New user added/initialized in Firestore:", firebaseUser.uid);
-                } else {
-                   // Update last login time for existing user
-                   await setDoc(userRef, { lastLogin: now }, { merge: true }); // Use Timestamp
-                   console.log("User last login updated:", firebaseUser.uid);
-                }
+                await repository.recordSignIn({
+                    uid: firebaseUser.uid,
+                    email: firebaseUser.email,
+                    displayName: firebaseUser.displayName,
+                    photoURL: firebaseUser.photoURL,
+                });
             } catch (error) {
                 console.error("Error accessing/updating user document in Firestore:", error);
                 setAuthError("無法讀取或更新使用者資料庫。"); // Set Firestore error
             }
         } else {
-             console.error("AuthProvider: Firestore service (db) is not available. Cannot update user profile.");
+             console.error("AuthProvider: Data repository is not available. Cannot update user profile.");
              setAuthError("資料庫服務不可用，無法更新使用者資料。");
         }
       } else {
-        setUser(null);
+        setAccountUser(null);
+        void repository?.setUser(null);
       }
       setLoading(false);
     }, (error) => {
         // Handle errors during subscription
         console.error("AuthProvider: Error in onAuthStateChanged listener:", error);
         setAuthError(`驗證狀態監聽失敗: ${error.message}`);
-        setUser(null);
+        setAccountUser(null);
         setLoading(false);
     });
 
@@ -96,7 +112,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         console.log("AuthProvider: Unsubscribing from auth state changes.");
         unsubscribe();
     }
-  }, []); // Empty dependency array means this runs once on mount
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [repository]); // Runs once on mount (the repository doesn't change)
 
   const signInWithGoogle = async () => {
      if (!auth) {
@@ -129,7 +146,22 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     // setLoading(false); // Handled by onAuthStateChanged or error handler
   };
 
+  const startGuestSession = async () => {
+    setAuthError(null);
+    try {
+      await guestRepository.recordSignIn(GUEST_ACCOUNT); // Create the guest profile before the app subscribes to it
+      setGuestMode(true);
+    } catch (error) {
+      console.error("Error starting guest session:", error);
+      setAuthError("無法啟用訪客模式。");
+    }
+  };
+
   const logout = async () => {
+    if (isGuest) {
+      setGuestMode(false);
+      return;
+    }
      if (!auth) {
          console.error("logout: Firebase Auth service is not available.");
          setAuthError("驗證服務不可用，無法登出。");
@@ -150,6 +182,20 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
      // setLoading(false); // Handled by onAuthStateChanged or error handler
   };
 
+  const deleteAccount = async (onProgress?: (progress: DeletionProgress) => void) => {
+    const firebaseUser = auth?.currentUser;
+    if (!auth || !firebaseUser || !repository) {
+      throw new Error("Cannot delete the account: not signed in or Firebase services are not available.");
+    }
+    // Deleting the auth user requires a recent sign-in. Confirm it before erasing anything,
+    // so the data isn't gone while the account stays.
+    await reauthenticateWithPopup(firebaseUser, new GoogleAuthProvider());
+    await repository.deleteUserData(firebaseUser.uid, onProgress);
+    // The AI usage counters are only writable by the server; deleted while the ID token is still valid
+    await deleteEstimationUsageAction(await firebaseUser.getIdToken());
+    await deleteUser(firebaseUser); // Signs out; the authState listener clears the user
+  };
+
   // Show a loading indicator while checking auth state initially
   if (loading) {
     return (
@@ -171,8 +217,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
 
   return (
-    <AuthContext.Provider value={{ user, loading, signInWithGoogle, logout, authError }}>
-      {children}
+    <AuthContext.Provider value={{ user, loading, signInWithGoogle, startGuestSession, logout, deleteAccount, authError }}>
+      <ActiveRepositoryProvider guest={isGuest}>
+        {children}
+      </ActiveRepositoryProvider>
     </AuthContext.Provider>
   );
 };
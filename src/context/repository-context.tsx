@@ -0,0 +1,87 @@
+"use client";
+
+import React, { createContext, useContext, useMemo, ReactNode } from 'react';
+import { db, storage } from '@/lib/firebase/config';
+import { createFirestoreRepository } from '@/lib/data/firestore-repository';
+import { createQueuedRepository, type QueuedRepository } from '@/lib/data/write-queue';
+import { createLocalRepository, type LocalRepository } from '@/lib/data/local-repository';
+import type { DataRepository } from '@/lib/data/repository';
+import { toast } from '@/hooks/use-toast';
+
+interface Repositories {
+  account: QueuedRepository | null; // Null when Firestore failed to initialize
+  accountServer: DataRepository | null; // The same data without the write queue: writes resolve once the server has them
+  guest: LocalRepository; // Data of guest mode, kept on this device
+}
+
+const RepositoriesContext = createContext<Repositories | undefined>(undefined);
+// The repository of the current session, chosen by the AuthProvider
+const ActiveRepositoryContext = createContext<QueuedRepository | null | undefined>(undefined);
+
+interface RepositoryProviderProps {
+  children: ReactNode;
+  repository?: DataRepository; // Override, e.g. createInMemoryRepository() to run without Firebase
+}
+
+export const RepositoryProvider: React.FC<RepositoryProviderProps> = ({ children, repository }) => {
+  const accountServer = useMemo(() => {
+    const base = repository ?? (db ? createFirestoreRepository(db, storage) : null);
+    if (!base) console.error("RepositoryProvider: Firestore service (db) is not available. Data cannot be loaded or saved.");
+    return base;
+  }, [repository]);
+  const account = useMemo(() => {
+    if (!accountServer) return null;
+    // Writes are queued on this device first, so logging works without a connection
+    return createQueuedRepository(accountServer, {
+      onIssue: issue => toast({
+        variant: issue.kind === 'dropped' ? 'destructive' : 'default',
+        title: issue.kind === 'dropped' ? '同步失敗' : '已合併其他裝置的修改',
+        description: issue.message,
+      }),
+    });
+  }, [accountServer]);
+  const guest = useMemo(() => createLocalRepository(), []);
+  const value = useMemo(() => ({ account, accountServer, guest }), [account, accountServer, guest]);
+
+  return (
+    <RepositoriesContext.Provider value={value}>
+      {children}
+    </RepositoriesContext.Provider>
+  );
+};
+
+const useRepositories = (): Repositories => {
+  const context = useContext(RepositoriesContext);
+  if (context === undefined) {
+    throw new Error('useRepositories must be used within a RepositoryProvider');
+  }
+  return context;
+};
+
+// The signed-in user's data (Firestore), regardless of guest mode
+export const useAccountRepository = (): QueuedRepository | null => useRepositories().account;
+
+// The signed-in user's data, written straight to the server; for writes that must be confirmed before
+// something else is deleted (e.g. merging the guest data)
+export const useAccountServerRepository = (): DataRepository | null => useRepositories().accountServer;
+
+// The guest's data on this device, regardless of who is signed in
+export const useGuestRepository = (): LocalRepository => useRepositories().guest;
+
+// Provides the guest repository in guest mode and the account repository otherwise
+export const ActiveRepositoryProvider: React.FC<{ guest: boolean; children: ReactNode }> = ({ guest, children }) => {
+  const repositories = useRepositories();
+  return (
+    <ActiveRepositoryContext.Provider value={guest ? repositories.guest : repositories.account}>
+      {children}
+    </ActiveRepositoryContext.Provider>
+  );
+};
+
+export const useRepository = (): QueuedRepository | null => {
+  const context = useContext(ActiveRepositoryContext);
+  if (context === undefined) {
+    throw new Error('useRepository must be used within an AuthProvider');
+  }
+  return context;
+};
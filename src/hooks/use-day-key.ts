@@ -0,0 +1,28 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { addDays, format, startOfDay } from 'date-fns';
+
+const todayKey = () => format(new Date(), 'yyyy-MM-dd');
+
+// Today's date (yyyy-MM-dd, local time), updated at midnight so date ranges derived from it roll over
+// without a reload
+export function useDayKey(): string {
+  const [dayKey, setDayKey] = useState(todayKey);
+
+  useEffect(() => {
+    const msUntilMidnight = addDays(startOfDay(new Date()), 1).getTime() - Date.now();
+    const timer = setTimeout(() => setDayKey(todayKey()), msUntilMidnight + 1000);
+    // Timers don't fire while a phone sleeps, so check again when the app comes back
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') setDayKey(todayKey());
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [dayKey]);
+
+  return dayKey;
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/context/auth-context';
+import { useRepository } from '@/context/repository-context';
+import type { CalorieLogEntry, WaterLogEntry, UserProfile, ProfileUpdate, DateRange, Trash } from '@/lib/data/types';
+import type { SyncStatus } from '@/lib/data/write-queue';
+
+const REPOSITORY_UNAVAILABLE = "資料庫連線失敗，無法載入資料。";
+
+// Live calorie entries of the signed-in user in a date range, newest first. Pass null to load nothing.
+// With a page size, `hasMore` tells whether older entries exist beyond the loaded ones.
+export function useCalorieEntries(range: DateRange | null, pageSize: number | null = null) {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const [entries, setEntries] = useState<CalorieLogEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const start = range?.start.getTime();
+  const end = range?.end.getTime();
+
+  useEffect(() => {
+    if (!user || start === undefined || end === undefined) {
+      setEntries([]);
+      setHasMore(false);
+      setLoading(false);
+      return;
+    }
+    if (!repository) {
+      setError(REPOSITORY_UNAVAILABLE);
+      setLoading(false);
+      return;
+    }
+    // Keep showing the previous entries (e.g. the current page) until the new snapshot arrives
+    setLoading(true);
+    setError(null);
+    return repository.subscribeCalorieEntries(user.uid, { start: new Date(start), end: new Date(end) }, pageSize, (newEntries, more) => {
+      setEntries(newEntries);
+      setHasMore(more);
+      setLoading(false);
+    }, (subscriptionError) => {
+      console.error("Error fetching calorie logs:", subscriptionError);
+      setError("無法載入卡路里記錄。");
+      setLoading(false);
+    });
+  }, [user, repository, start, end, pageSize]);
+
+  return { entries, hasMore, loading, error };
+}
+
+// Live water entries of the signed-in user in a date range. Pass null to load nothing.
+export function useWaterEntries(range: DateRange | null) {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const [entries, setEntries] = useState<WaterLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const start = range?.start.getTime();
+  const end = range?.end.getTime();
+
+  useEffect(() => {
+    if (!user || start === undefined || end === undefined) {
+      setEntries([]);
+      setLoading(false);
+      return;
+    }
+    if (!repository) {
+      setError(REPOSITORY_UNAVAILABLE);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    return repository.subscribeWaterEntries(user.uid, { start: new Date(start), end: new Date(end) }, (newEntries) => {
+      setEntries(newEntries);
+      setLoading(false);
+    }, (subscriptionError) => {
+      console.error("Error fetching water logs:", subscriptionError);
+      setError("無法載入飲水記錄。");
+      setLoading(false);
+    });
+  }, [user, repository, start, end]);
+
+  return { entries, loading, error };
+}
+
+// Live profile of the signed-in user. `updateProfile` applies the change locally right away and
+// reverts it if saving fails (the error is rethrown for the caller to report).
+export function useProfile() {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setProfile(null);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+    if (!repository) {
+      setError(REPOSITORY_UNAVAILABLE);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const userId = user.uid;
+    return repository.subscribeProfile(userId, (newProfile) => {
+      if (!newProfile) {
+        // The AuthProvider creates the user document on sign-in, so this shouldn't happen
+        console.error("User profile document not found for user:", userId);
+        setError("使用者個人資料未找到，請稍後再試或聯繫支援。");
+      }
+      setProfile(newProfile);
+      setLoading(false);
+    }, (subscriptionError) => {
+      console.error("Error fetching user profile:", subscriptionError);
+      setError("無法載入使用者個人資料。");
+      setProfile(null);
+      setLoading(false);
+    });
+  }, [user, repository]);
+
+  const updateProfile = useCallback(async (update: ProfileUpdate) => {
+    if (!user || !repository || !profile) return;
+    const originalProfile = profile;
+    setProfile({ ...profile, ...update }); // Optimistic update for responsiveness
+    try {
+      await repository.updateProfile(user.uid, update);
+    } catch (updateError) {
+      setProfile(originalProfile);
+      throw updateError;
+    }
+  }, [user, repository, profile]);
+
+  return { profile, loading, error, updateProfile };
+}
+
+// Live trash of the signed-in user, most recently deleted first
+export function useTrash() {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const [trash, setTrash] = useState<Trash>({ calorieEntries: [], waterEntries: [] });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setTrash({ calorieEntries: [], waterEntries: [] });
+      setLoading(false);
+      return;
+    }
+    if (!repository) {
+      setError(REPOSITORY_UNAVAILABLE);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    return repository.subscribeTrash(user.uid, (newTrash) => {
+      setTrash(newTrash);
+      setLoading(false);
+    }, (subscriptionError) => {
+      console.error("Error fetching trash:", subscriptionError);
+      setError("無法載入垃圾桶。");
+      setLoading(false);
+    });
+  }, [user, repository]);
+
+  return { trash, loading, error };
+}
+
+// Writes saved on this device that haven't reached the server yet
+export function useSyncStatus() {
+  const repository = useRepository();
+  const [status, setStatus] = useState<SyncStatus>({ online: true, pendingCount: 0, retrying: false });
+
+  useEffect(() => {
+    if (!repository) return;
+    return repository.subscribeSyncStatus(setStatus);
+  }, [repository]);
+
+  const syncNow = useCallback(() => repository?.syncNow(), [repository]);
+
+  return { status, syncNow };
+}
@@ -0,0 +1,101 @@
+// src/lib/data/ai-corrections.ts
+import { sameValue } from '@/lib/data/serialization';
+import { DEFAULT_PROMPT_VARIANT } from '@/ai/prompt-variants';
+import type { EstimateCalorieCountOutput, FoodCategory } from '@/ai/schemas';
+import type { AiEstimationMetadata, CalorieLogEntry } from '@/lib/data/types';
+
+export const FOOD_CATEGORY_LABELS: Record<FoodCategory, string> = {
+  riceAndNoodles: '飯麵主食',
+  mixedMeal: '便當與合菜',
+  meatAndSeafood: '肉類海鮮',
+  vegetablesAndFruit: '蔬菜水果',
+  dairyAndEggs: '蛋奶',
+  snacksAndDesserts: '零食甜點',
+  beverages: '飲料',
+  packagedFood: '包裝食品',
+  other: '其他',
+};
+
+// Metadata of a fresh estimate, or null if the output didn't come from an estimation flow
+export function toAiMetadata(output: EstimateCalorieCountOutput): AiEstimationMetadata | null {
+  const { metadata, nutritionLabel, ...estimate } = output;
+  if (!metadata) return null;
+  return {
+    ...metadata,
+    // Firestore rejects undefined, so leave the label out unless the label reader ran
+    rawOutput: { ...estimate, ...(nutritionLabel ? { nutritionLabel } : {}) },
+    overridden: false,
+  };
+}
+
+// Whether the logged values differ from what the AI answered. Refinements count too: the user had to correct it.
+export const isEstimateOverridden = (
+  rawOutput: AiEstimationMetadata['rawOutput'],
+  logged: Pick<CalorieLogEntry, 'foodItem' | 'calorieEstimate' | 'macros'>
+) =>
+  logged.foodItem !== rawOutput.foodItem
+  || Math.round(logged.calorieEstimate) !== Math.round(rawOutput.calorieEstimate)
+  || !sameValue(logged.macros ?? null, rawOutput.macros);
+
+// The entry's metadata with `overridden` brought up to date after an edit, or nothing for entries without metadata
+export function aiMetadataAfterEdit(entry: CalorieLogEntry, update: Partial<CalorieLogEntry>): { aiMetadata?: AiEstimationMetadata } {
+  if (!entry.aiMetadata) return {};
+  const overridden = isEstimateOverridden(entry.aiMetadata.rawOutput, { ...entry, ...update });
+  return overridden === entry.aiMetadata.overridden ? {} : { aiMetadata: { ...entry.aiMetadata, overridden } };
+}
+
+interface CorrectionStats {
+  entries: number; // Entries with AI metadata in the group
+  overridden: number;
+  meanCalorieChange: number; // Logged minus estimated over overridden entries; positive means the AI underestimates
+  meanAbsolutePercentChange: number; // Size of the corrections relative to the estimate, over overridden entries
+}
+
+export interface CategoryCorrectionStats extends CorrectionStats {
+  category: FoodCategory;
+}
+
+export interface PromptCorrectionStats extends CorrectionStats {
+  promptVersion: string;
+  promptVariant: string;
+}
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+function summarizeCorrections(entries: CalorieLogEntry[]): CorrectionStats {
+  const corrections = entries
+    .filter(entry => entry.aiMetadata!.overridden)
+    .map(entry => ({ estimated: entry.aiMetadata!.rawOutput.calorieEstimate, logged: entry.calorieEstimate }));
+  return {
+    entries: entries.length,
+    overridden: corrections.length,
+    meanCalorieChange: mean(corrections.map(({ estimated, logged }) => logged - estimated)),
+    meanAbsolutePercentChange: mean(
+      corrections.filter(({ estimated }) => estimated > 0).map(({ estimated, logged }) => Math.abs(logged - estimated) / estimated * 100)
+    ),
+  };
+}
+
+// Entries with AI metadata grouped by `keyOf`, most logged group first
+function groupAiEntries<K>(entries: CalorieLogEntry[], keyOf: (metadata: AiEstimationMetadata) => K): Array<[K, CalorieLogEntry[]]> {
+  const groups = new Map<K, CalorieLogEntry[]>();
+  entries.forEach(entry => {
+    if (!entry.aiMetadata) return;
+    const key = keyOf(entry.aiMetadata);
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  });
+  return Array.from(groups).sort(([, a], [, b]) => b.length - a.length);
+}
+
+// How often and by how much the user corrected the AI in each food category
+export const correctionStatsByCategory = (entries: CalorieLogEntry[]): CategoryCorrectionStats[] =>
+  groupAiEntries(entries, metadata => metadata.rawOutput.foodCategory ?? 'other')
+    .map(([category, group]) => ({ category, ...summarizeCorrections(group) }));
+
+// The same per prompt version and A/B variant, to compare variants
+export const correctionStatsByPrompt = (entries: CalorieLogEntry[]): PromptCorrectionStats[] =>
+  groupAiEntries(entries, metadata => `${metadata.promptVersion}\n${metadata.promptVariant ?? DEFAULT_PROMPT_VARIANT}`)
+    .map(([key, group]) => {
+      const [promptVersion, promptVariant] = key.split('\n');
+      return { promptVersion, promptVariant, ...summarizeCorrections(group) };
+    });
@@ -0,0 +1,215 @@
+// src/lib/data/export.ts
+import JSZip from 'jszip';
+import { Timestamp } from 'firebase/firestore';
+import { format } from 'date-fns';
+import { isDataUrl } from '@/lib/firebase/meal-photos';
+import type { DataRepository } from '@/lib/data/repository';
+import type { CalorieLogEntry, WaterLogEntry, UserProfile, DateRange } from '@/lib/data/types';
+
+export type ExportFormat = 'json' | 'csv';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  includePhotos: boolean; // Bundle the meal photos in a zip next to the data
+}
+
+export interface ExportResult {
+  blob: Blob;
+  fileName: string;
+  calorieCount: number;
+  waterCount: number;
+  missingPhotos: number; // Photos that couldn't be downloaded and were left out of the zip
+}
+
+interface ExportData {
+  range: DateRange;
+  profile: UserProfile | null;
+  calorieEntries: CalorieLogEntry[];
+  waterEntries: WaterLogEntry[];
+  photoFiles: Map<string, string>; // Entry ID -> file name of its photo in the zip
+}
+
+const MEAL_TYPE_LABELS: Record<string, string> = {
+  Breakfast: '早餐',
+  Lunch: '午餐',
+  Dinner: '晚餐',
+  Snack: '點心',
+};
+
+const PHOTOS_FOLDER = 'photos';
+const CSV_BOM = '\uFEFF'; // Lets Excel detect UTF-8, otherwise Chinese text is garbled
+
+// Firestore timestamps become ISO strings; client-only fields are dropped
+const toJsonValue = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key, fieldValue]) => key !== 'pendingSync' && fieldValue !== undefined)
+        .map(([key, fieldValue]) => [key, toJsonValue(fieldValue)])
+    );
+  }
+  return value;
+};
+
+const buildJson = ({ range, profile, calorieEntries, waterEntries, photoFiles }: ExportData) =>
+  JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    range: { start: range.start.toISOString(), end: range.end.toISOString() },
+    profile: toJsonValue(profile),
+    calorieEntries: calorieEntries.map(entry => ({
+      ...(toJsonValue(entry) as Record<string, unknown>),
+      ...(photoFiles.has(entry.id) ? { photoFile: photoFiles.get(entry.id) } : {}),
+    })),
+    waterEntries: waterEntries.map(toJsonValue),
+  }, null, 2);
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  // Keep spreadsheets from evaluating free text (food names, notes) as formulas
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: unknown[][]) =>
+  CSV_BOM + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+const round = (value: number | undefined, digits = 1) =>
+  value === undefined ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+
+const calorieEntriesCsv = (entries: CalorieLogEntry[], photoFiles: Map<string, string>) => toCsv(
+  [
+    '日期', '時間', '餐別', '食物', '熱量 (大卡)', '蛋白質 (克)', '碳水化合物 (克)', '脂肪 (克)', '膳食纖維 (克)',
+    '糖 (克)', '鈉 (毫克)', '份量 (克)', '份量描述', '每 100 克熱量', '品項', '地點', '花費', '備註', '營養師建議',
+    'AI 信心度', '修正紀錄', '條碼', '計畫中', '照片', '記錄 ID',
+  ],
+  entries.map(entry => {
+    const time = entry.timestamp.toDate();
+    return [
+      format(time, 'yyyy-MM-dd'),
+      format(time, 'HH:mm'),
+      entry.mealType ? MEAL_TYPE_LABELS[entry.mealType] : null,
+      entry.foodItem,
+      entry.calorieEstimate,
+      round(entry.macros?.protein),
+      round(entry.macros?.carbohydrates),
+      round(entry.macros?.fat),
+      round(entry.macros?.fiber),
+      round(entry.macros?.sugar),
+      round(entry.macros?.sodium, 0),
+      entry.portionGrams,
+      entry.servingUnit,
+      entry.caloriesPer100g,
+      entry.items?.map(item => `${item.name} ${item.portion} ${item.calorieEstimate} 大卡`).join('; '),
+      entry.location,
+      entry.cost,
+      entry.notes,
+      entry.nutritionistComment,
+      entry.confidence,
+      entry.refinements?.map(refinement => refinement.correction).join('; '),
+      entry.barcode,
+      entry.planned ? '是' : null,
+      photoFiles.get(entry.id) ?? (isDataUrl(entry.imageUrl) ? null : entry.imageUrl),
+      entry.id,
+    ];
+  })
+);
+
+const waterEntriesCsv = (entries: WaterLogEntry[]) => toCsv(
+  ['日期', '時間', '飲水量 (毫升)', '記錄 ID'],
+  entries.map(entry => {
+    const time = entry.timestamp.toDate();
+    return [format(time, 'yyyy-MM-dd'), format(time, 'HH:mm'), entry.amount, entry.id];
+  })
+);
+
+const profileCsv = (profile: UserProfile | null) => toCsv(
+  ['欄位', '值'],
+  profile
+    ? [
+        ['年齡', profile.age],
+        ['性別', profile.gender],
+        ['身高 (公分)', profile.height],
+        ['體重 (公斤)', profile.weight],
+        ['活動量', profile.activityLevel],
+        ['健康目標', profile.healthGoal],
+      ]
+    : []
+);
+
+// Download the photos into the zip; a photo that fails (deleted object, network error) is skipped
+const addPhotos = async (zip: JSZip, entries: CalorieLogEntry[]) => {
+  const photoFiles = new Map<string, string>();
+  let missingPhotos = 0;
+  for (const entry of entries) {
+    if (!entry.imageUrl) continue;
+    try {
+      const response = await fetch(entry.imageUrl);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const photo = await response.blob();
+      const extension = photo.type === 'image/png' ? 'png' : photo.type === 'image/webp' ? 'webp' : 'jpg';
+      const fileName = `${PHOTOS_FOLDER}/${format(entry.timestamp.toDate(), 'yyyy-MM-dd_HHmm')}_${entry.id}.${extension}`;
+      zip.file(fileName, photo);
+      photoFiles.set(entry.id, fileName);
+    } catch (photoError) {
+      console.error(`Error downloading photo of entry ${entry.id}:`, photoError);
+      missingPhotos++;
+    }
+  }
+  return { photoFiles, missingPhotos };
+};
+
+// Collect the user's profile and entries in the range (oldest first) and package them for download:
+// a single JSON file, or a zip with CSV files and/or photos.
+export async function exportUserData(
+  repository: DataRepository,
+  userId: string,
+  profile: UserProfile | null,
+  range: DateRange,
+  options: ExportOptions
+): Promise<ExportResult> {
+  const [calorieEntries, waterEntries] = await Promise.all([
+    repository.getCalorieEntries(userId, range),
+    repository.getWaterEntries(userId, range),
+  ]);
+  const byTime = (a: { timestamp: Timestamp }, b: { timestamp: Timestamp }) => a.timestamp.toMillis() - b.timestamp.toMillis();
+  calorieEntries.sort(byTime);
+  waterEntries.sort(byTime);
+
+  const lastDay = new Date(range.end.getTime() - 1);
+  const baseName = `caloriesnap_${format(range.start, 'yyyyMMdd')}-${format(lastDay, 'yyyyMMdd')}`;
+  const counts = { calorieCount: calorieEntries.length, waterCount: waterEntries.length };
+
+  if (options.format === 'json' && !options.includePhotos) {
+    const json = buildJson({ range, profile, calorieEntries, waterEntries, photoFiles: new Map() });
+    return { blob: new Blob([json], { type: 'application/json' }), fileName: `${baseName}.json`, ...counts, missingPhotos: 0 };
+  }
+
+  const zip = new JSZip();
+  const { photoFiles, missingPhotos } = options.includePhotos
+    ? await addPhotos(zip, calorieEntries)
+    : { photoFiles: new Map<string, string>(), missingPhotos: 0 };
+  if (options.format === 'json') {
+    zip.file(`${baseName}.json`, buildJson({ range, profile, calorieEntries, waterEntries, photoFiles }));
+  } else {
+    zip.file('calorie-entries.csv', calorieEntriesCsv(calorieEntries, photoFiles));
+    zip.file('water-entries.csv', waterEntriesCsv(waterEntries));
+    zip.file('profile.csv', profileCsv(profile));
+  }
+  const blob = await zip.generateAsync({ type: 'blob' });
+  return { blob, fileName: `${baseName}.zip`, ...counts, missingPhotos };
+}
+
+// Save a file through the browser's download
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
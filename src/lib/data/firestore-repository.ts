@@ -0,0 +1,259 @@
+// src/lib/data/firestore-repository.ts
+import {
+  collection,
+  doc,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  writeBatch,
+  Timestamp,
+  type DocumentReference,
+  type Firestore,
+  type QueryDocumentSnapshot,
+  type WriteBatch,
+} from 'firebase/firestore';
+import type { FirebaseStorage } from 'firebase/storage';
+import { uploadMealPhoto, deleteMealPhoto, deleteAllMealPhotos } from '@/lib/firebase/meal-photos';
+import type { DataRepository } from '@/lib/data/repository';
+import type { CalorieLogEntry, WaterLogEntry, UserProfile, DateRange, DeletionProgress, Trash } from '@/lib/data/types';
+
+const USERS = 'users';
+const CALORIE_ENTRIES = 'calorieEntries';
+const WATER_ENTRIES = 'waterEntries';
+// Documents per batch when deleting a user's data. Calorie entries use smaller batches since their photos
+// are deleted along with them; water entries stay under the limit of 500 writes per batch (also when
+// trashing, restoring or purging them).
+const CALORIE_DELETE_BATCH_SIZE = 100;
+const WATER_DELETE_BATCH_SIZE = 400;
+
+// Trashed entries are filtered out after querying: entries logged before the trash existed have no
+// `deletedAt` field, and Firestore can't match a missing field
+const notTrashed = <T extends { deletedAt?: Timestamp | null }>(entry: T) => !entry.deletedAt;
+const mostRecentlyDeletedFirst = (a: { deletedAt?: Timestamp | null }, b: { deletedAt?: Timestamp | null }) =>
+  (b.deletedAt?.toMillis() ?? 0) - (a.deletedAt?.toMillis() ?? 0);
+// `!=` only matches documents that have the field, i.e. entries that were ever trashed and not restored
+const trashConstraints = (userId: string) => [where('userId', '==', userId), where('deletedAt', '!=', null)];
+
+const rangeConstraints = (userId: string, range: DateRange) => [
+  where('userId', '==', userId),
+  where('timestamp', '>=', Timestamp.fromDate(range.start)),
+  where('timestamp', '<', Timestamp.fromDate(range.end)),
+];
+
+// Repository backed by Cloud Firestore, with meal photos in Cloud Storage. Queries filtered by
+// user and date range need the composite indexes in firestore.indexes.json.
+export function createFirestoreRepository(db: Firestore, storage: FirebaseStorage | null): DataRepository {
+  // Trashing or purging many drinks at once (e.g. an emptied trash) can exceed the limit of one batch.
+  // Each batch is atomic; if one fails, the earlier ones stay written and the error is rethrown.
+  const writeWaterEntriesInBatches = async (ids: string[], write: (batch: WriteBatch, entryRef: DocumentReference) => void) => {
+    for (let start = 0; start < ids.length; start += WATER_DELETE_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      ids.slice(start, start + WATER_DELETE_BATCH_SIZE).forEach(id => write(batch, doc(db, WATER_ENTRIES, id)));
+      await batch.commit();
+    }
+  };
+
+  return {
+    async recordSignIn(account) {
+      const userRef = doc(db, USERS, account.uid);
+      const docSnap = await getDoc(userRef);
+      const now = Timestamp.now();
+      if (!docSnap.exists()) {
+        await setDoc(userRef, {
+          ...account,
+          createdAt: now,
+          lastLogin: now,
+          // Initialize the profile fields so the logger never has to create them
+          age: null,
+          gender: null,
+          height: null,
+          weight: null,
+          activityLevel: null,
+          healthGoal: null,
+        }, { merge: true }); // Use merge to be safe
+        console.log("New user added/initialized in Firestore:", account.uid);
+      } else {
+        await setDoc(userRef, { lastLogin: now }, { merge: true });
+        console.log("User last login updated:", account.uid);
+      }
+    },
+
+    subscribeProfile(userId, onChange, onError) {
+      return onSnapshot(doc(db, USERS, userId), (docSnap) => {
+        onChange(docSnap.exists() ? ({ id: docSnap.id, ...docSnap.data() } as UserProfile) : null);
+      }, onError);
+    },
+
+    async updateProfile(userId, update) {
+      await updateDoc(doc(db, USERS, userId), update);
+    },
+
+    subscribeCalorieEntries(userId, range, pageSize, onChange, onError) {
+      // Fetch one extra document to find out whether there is another page
+      const calorieQuery = query(
+        collection(db, CALORIE_ENTRIES),
+        ...rangeConstraints(userId, range),
+        orderBy('timestamp', 'desc'),
+        ...(pageSize ? [limit(pageSize + 1)] : [])
+      );
+      return onSnapshot(calorieQuery, (querySnapshot) => {
+        const hasMore = pageSize !== null && querySnapshot.size > pageSize;
+        const page = hasMore ? querySnapshot.docs.slice(0, pageSize) : querySnapshot.docs;
+        // A page with trashed entries shows fewer entries; the next page picks up from there
+        onChange(page.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as CalorieLogEntry)).filter(notTrashed), hasMore);
+      }, onError);
+    },
+
+    async getCalorieEntries(userId, range) {
+      const querySnapshot = await getDocs(
+        query(collection(db, CALORIE_ENTRIES), ...rangeConstraints(userId, range), orderBy('timestamp', 'desc'))
+      );
+      return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as CalorieLogEntry)).filter(notTrashed);
+    },
+
+    async getCalorieEntry(id) {
+      const docSnap = await getDoc(doc(db, CALORIE_ENTRIES, id));
+      return docSnap.exists() ? ({ id: docSnap.id, ...docSnap.data() } as CalorieLogEntry) : null;
+    },
+
+    newEntryId() {
+      return doc(collection(db, CALORIE_ENTRIES)).id;
+    },
+
+    async addCalorieEntry(userId, entry, options = {}) {
+      const entryRef = options.id ? doc(db, CALORIE_ENTRIES, options.id) : doc(collection(db, CALORIE_ENTRIES));
+      let photoRefs = {};
+      if (options.photoDataUrl) {
+        // Upload the photo and its thumbnail first; the document only stores references
+        if (!storage) throw new Error("Firebase Storage is not available.");
+        photoRefs = await uploadMealPhoto(storage, userId, entryRef.id, options.photoDataUrl);
+      }
+      await setDoc(entryRef, { ...entry, ...photoRefs, userId, updatedAt: Timestamp.now() });
+      return entryRef.id;
+    },
+
+    async updateCalorieEntry(id, update) {
+      await updateDoc(doc(db, CALORIE_ENTRIES, id), { ...update, updatedAt: Timestamp.now() });
+    },
+
+    async deleteCalorieEntry(id) {
+      const entryRef = doc(db, CALORIE_ENTRIES, id);
+      const docSnap = await getDoc(entryRef);
+      await deleteDoc(entryRef);
+      // Remove the photo objects too; a leftover object is harmless, so failures are only logged
+      const entry = docSnap.data() as CalorieLogEntry | undefined;
+      if (storage && (entry?.imagePath || entry?.thumbnailPath)) {
+        deleteMealPhoto(storage, entry).catch(storageError => console.error("刪除照片時發生錯誤:", storageError));
+      }
+    },
+
+    subscribeWaterEntries(userId, range, onChange, onError) {
+      const waterQuery = query(collection(db, WATER_ENTRIES), ...rangeConstraints(userId, range));
+      return onSnapshot(waterQuery, (querySnapshot) => {
+        onChange(querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as WaterLogEntry)).filter(notTrashed));
+      }, onError);
+    },
+
+    async getWaterEntries(userId, range) {
+      const querySnapshot = await getDocs(query(collection(db, WATER_ENTRIES), ...rangeConstraints(userId, range)));
+      return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as WaterLogEntry)).filter(notTrashed);
+    },
+
+    async addWaterEntry(userId, amount, options = {}) {
+      const entryRef = options.id ? doc(db, WATER_ENTRIES, options.id) : doc(collection(db, WATER_ENTRIES));
+      await setDoc(entryRef, { userId, timestamp: options.timestamp ?? Timestamp.now(), amount });
+      return entryRef.id;
+    },
+
+    async setWaterEntriesDeletedAt(ids, deletedAt) {
+      await writeWaterEntriesInBatches(ids, (batch, entryRef) => batch.update(entryRef, { deletedAt }));
+    },
+
+    async deleteWaterEntries(ids) {
+      await writeWaterEntriesInBatches(ids, (batch, entryRef) => batch.delete(entryRef));
+    },
+
+    subscribeTrash(userId, onChange, onError) {
+      // Two queries; the trash is delivered once both have answered
+      const trash: Partial<Trash> = {};
+      const emit = () => {
+        if (trash.calorieEntries && trash.waterEntries) onChange({ calorieEntries: trash.calorieEntries, waterEntries: trash.waterEntries });
+      };
+      const unsubscribeCalories = onSnapshot(query(collection(db, CALORIE_ENTRIES), ...trashConstraints(userId)), (querySnapshot) => {
+        trash.calorieEntries = querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as CalorieLogEntry)).sort(mostRecentlyDeletedFirst);
+        emit();
+      }, onError);
+      const unsubscribeWater = onSnapshot(query(collection(db, WATER_ENTRIES), ...trashConstraints(userId)), (querySnapshot) => {
+        trash.waterEntries = querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as WaterLogEntry)).sort(mostRecentlyDeletedFirst);
+        emit();
+      }, onError);
+      return () => {
+        unsubscribeCalories();
+        unsubscribeWater();
+      };
+    },
+
+    async getTrash(userId) {
+      const [calorieSnapshot, waterSnapshot] = await Promise.all([
+        getDocs(query(collection(db, CALORIE_ENTRIES), ...trashConstraints(userId))),
+        getDocs(query(collection(db, WATER_ENTRIES), ...trashConstraints(userId))),
+      ]);
+      return {
+        calorieEntries: calorieSnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as CalorieLogEntry)).sort(mostRecentlyDeletedFirst),
+        waterEntries: waterSnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as WaterLogEntry)).sort(mostRecentlyDeletedFirst),
+      };
+    },
+
+    async addEntries(userId, { calorieEntries, waterEntries }) {
+      const batch = writeBatch(db);
+      const updatedAt = Timestamp.now();
+      calorieEntries.forEach(entry => batch.set(doc(collection(db, CALORIE_ENTRIES)), { ...entry, userId, updatedAt }));
+      waterEntries.forEach(entry => batch.set(doc(collection(db, WATER_ENTRIES)), { ...entry, userId }));
+      await batch.commit();
+    },
+
+    async deleteUserData(userId, onProgress) {
+      const progress: DeletionProgress = { calorieEntries: 0, waterEntries: 0, photos: 0 };
+      // Query the first batch of what is left until nothing is; deleted documents drop out of the query
+      const deleteInBatches = async (
+        collectionName: string,
+        batchSize: number,
+        beforeDelete: (docs: QueryDocumentSnapshot[]) => Promise<void>,
+        count: 'calorieEntries' | 'waterEntries'
+      ) => {
+        for (;;) {
+          const querySnapshot = await getDocs(query(collection(db, collectionName), where('userId', '==', userId), limit(batchSize)));
+          if (querySnapshot.empty) return;
+          await beforeDelete(querySnapshot.docs);
+          const batch = writeBatch(db);
+          querySnapshot.docs.forEach(docSnap => batch.delete(docSnap.ref));
+          await batch.commit();
+          progress[count] += querySnapshot.size;
+          onProgress?.({ ...progress });
+        }
+      };
+
+      await deleteInBatches(CALORIE_ENTRIES, CALORIE_DELETE_BATCH_SIZE, async docs => {
+        // Photos go first: once the document is deleted, the paths of its photo objects are lost
+        if (!storage) return;
+        await Promise.all(docs.map(docSnap => deleteMealPhoto(storage, docSnap.data() as CalorieLogEntry)));
+        progress.photos += docs.reduce((sum, docSnap) =>
+          sum + [docSnap.get('imagePath'), docSnap.get('thumbnailPath')].filter(Boolean).length, 0);
+      }, 'calorieEntries');
+      await deleteInBatches(WATER_ENTRIES, WATER_DELETE_BATCH_SIZE, async () => {}, 'waterEntries');
+
+      if (storage) {
+        progress.photos += await deleteAllMealPhotos(storage, userId);
+        onProgress?.({ ...progress });
+      }
+      await deleteDoc(doc(db, USERS, userId));
+    },
+  };
+}
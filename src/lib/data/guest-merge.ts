@@ -0,0 +1,105 @@
+// src/lib/data/guest-merge.ts
+import { findNewEntries, writeImport } from '@/lib/data/import';
+import { isDataUrl } from '@/lib/firebase/meal-photos';
+import { GUEST_USER_ID, type LocalRepository } from '@/lib/data/local-repository';
+import type { DataRepository } from '@/lib/data/repository';
+import type { CalorieLogEntry, WaterLogEntry, UserProfile, NewCalorieEntry, ProfileUpdate } from '@/lib/data/types';
+
+const ALL_TIME = { start: new Date(0), end: new Date(8.64e15) };
+
+export const PROFILE_FIELDS = ['age', 'gender', 'height', 'weight', 'activityLevel', 'healthGoal'] as const;
+export type ProfileField = (typeof PROFILE_FIELDS)[number];
+
+export interface GuestMergePreview {
+  calorieEntries: CalorieLogEntry[]; // Guest entries the account doesn't have yet
+  waterEntries: WaterLogEntry[];
+  duplicates: number; // Guest entries already in the account; left out
+  accountCalorieCount: number; // Entries the account already has in the period the guest logged
+  accountWaterCount: number;
+  guestProfile: ProfileUpdate; // Profile fields the guest filled in
+  accountProfile: ProfileUpdate; // Profile fields filled in on the account
+  profileConflicts: ProfileField[]; // Filled in differently in the guest profile and the account
+}
+
+const filledProfileFields = (profile: UserProfile | null): ProfileUpdate =>
+  Object.fromEntries(PROFILE_FIELDS.flatMap(field => (profile?.[field] != null ? [[field, profile[field]]] : [])));
+
+const readProfile = (repository: DataRepository, userId: string) => new Promise<UserProfile | null>((resolve, reject) => {
+  let unsubscribe: (() => void) | null = null;
+  let done = false;
+  unsubscribe = repository.subscribeProfile(userId, profile => {
+    done = true;
+    unsubscribe?.();
+    resolve(profile);
+  }, reject);
+  if (done) unsubscribe();
+});
+
+// Compare what the guest logged on this device with the account they signed in to
+export async function buildGuestMergePreview(
+  guest: LocalRepository,
+  account: DataRepository,
+  userId: string
+): Promise<GuestMergePreview> {
+  const [guestCalories, guestWater, guestProfile, accountProfile] = await Promise.all([
+    guest.getCalorieEntries(GUEST_USER_ID, ALL_TIME),
+    guest.getWaterEntries(GUEST_USER_ID, ALL_TIME),
+    readProfile(guest, GUEST_USER_ID),
+    readProfile(account, userId),
+  ]);
+  const newEntries = await findNewEntries(account, userId, guestCalories, guestWater);
+  const guestFields = filledProfileFields(guestProfile);
+  const accountFields = filledProfileFields(accountProfile);
+
+  return {
+    calorieEntries: newEntries.calorieEntries,
+    waterEntries: newEntries.waterEntries,
+    duplicates: newEntries.duplicates,
+    accountCalorieCount: newEntries.existingCalorieCount,
+    accountWaterCount: newEntries.existingWaterCount,
+    guestProfile: guestFields,
+    accountProfile: accountFields,
+    profileConflicts: PROFILE_FIELDS.filter(field =>
+      guestFields[field] !== undefined && accountFields[field] !== undefined && guestFields[field] !== accountFields[field]),
+  };
+}
+
+const toNewCalorieEntry = ({ id, userId, updatedAt, pendingSync, ...entry }: CalorieLogEntry): NewCalorieEntry => entry;
+
+// Copy the guest's entries into the account, then empty the guest data. Profile fields the account
+// hasn't filled in are taken from the guest; conflicting ones only with `preferGuestProfile`.
+// Entries with a photo are added one by one so the photo is uploaded; the rest are written in batches.
+// `account` must write to the server directly, not through the offline queue: the guest data is deleted
+// only after every write is confirmed. If the merge fails halfway, the next preview leaves out what was copied.
+export async function mergeGuestData(
+  guest: LocalRepository,
+  account: DataRepository,
+  userId: string,
+  preview: GuestMergePreview,
+  preferGuestProfile: boolean
+) {
+  // Server writes wait for a connection instead of failing
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) throw new Error("Merging guest data needs a network connection.");
+
+  const withPhoto = preview.calorieEntries.filter(entry => isDataUrl(entry.imageUrl));
+  const withoutPhoto = preview.calorieEntries.filter(entry => !isDataUrl(entry.imageUrl));
+
+  await writeImport(account, userId, {
+    calorieEntries: withoutPhoto.map(toNewCalorieEntry),
+    waterEntries: preview.waterEntries.map(({ timestamp, amount }) => ({ timestamp, amount })),
+  });
+  for (const entry of withPhoto) {
+    await account.addCalorieEntry(userId, { ...toNewCalorieEntry(entry), imageUrl: null, thumbnailUrl: null }, { photoDataUrl: entry.imageUrl });
+  }
+
+  const profileUpdate = Object.fromEntries(
+    Object.entries(preview.guestProfile).filter(([field]) =>
+      preferGuestProfile || !preview.profileConflicts.includes(field as ProfileField))
+  ) as ProfileUpdate;
+  if (Object.keys(profileUpdate).length > 0) {
+    // Fields the account already has and that don't conflict are equal, so writing them again is harmless
+    await account.updateProfile(userId, profileUpdate);
+  }
+
+  await guest.clear();
+}
@@ -0,0 +1,390 @@
+// src/lib/data/import.ts
+import { Timestamp } from 'firebase/firestore';
+import { parse, isValid, startOfDay, addDays, setHours, setMinutes } from 'date-fns';
+import type { DataRepository } from '@/lib/data/repository';
+import type { MealType, NewCalorieEntry, NewWaterEntry } from '@/lib/data/types';
+
+// What a CSV file holds: one meal (or food) per row, or one drink per row
+export type ImportKind = 'calories' | 'water';
+
+export type ImportField =
+  | 'date' | 'time' | 'mealType' | 'foodItem' | 'calories'
+  | 'protein' | 'carbohydrates' | 'fat' | 'fiber' | 'sugar' | 'sodium'
+  | 'portionGrams' | 'notes' | 'location' | 'cost' | 'water';
+
+// Column index in the CSV for each mapped field
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportFieldInfo {
+  field: ImportField;
+  label: string;
+  required?: boolean;
+}
+
+export const IMPORT_FIELDS: Record<ImportKind, ImportFieldInfo[]> = {
+  calories: [
+    { field: 'date', label: '日期', required: true },
+    { field: 'time', label: '時間' },
+    { field: 'mealType', label: '餐別' },
+    { field: 'foodItem', label: '食物' },
+    { field: 'calories', label: '熱量 (大卡)', required: true },
+    { field: 'protein', label: '蛋白質 (克)' },
+    { field: 'carbohydrates', label: '碳水化合物 (克)' },
+    { field: 'fat', label: '脂肪 (克)' },
+    { field: 'fiber', label: '膳食纖維 (克)' },
+    { field: 'sugar', label: '糖 (克)' },
+    { field: 'sodium', label: '鈉 (毫克)' },
+    { field: 'portionGrams', label: '份量 (克)' },
+    { field: 'notes', label: '備註' },
+    { field: 'location', label: '地點' },
+    { field: 'cost', label: '花費' },
+  ],
+  water: [
+    { field: 'date', label: '日期', required: true },
+    { field: 'time', label: '時間' },
+    { field: 'water', label: '飲水量 (毫升)', required: true },
+  ],
+};
+
+// Column headers used by MyFitnessPal ("Nutrition" export), Cronometer (servings and daily summary exports),
+// CalorieSnap's own CSV export and common spreadsheet headings, lower-cased
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  date: ['date', 'day', 'datetime', '日期'],
+  time: ['time', '時間'],
+  mealType: ['meal', 'group', 'meal type', '餐別'],
+  foodItem: ['food name', 'food', 'name', 'description', 'item', '食物', '食物名稱'],
+  calories: ['calories', 'energy (kcal)', 'energy', 'kcal', '熱量 (大卡)', '熱量', '卡路里'],
+  protein: ['protein (g)', 'protein', '蛋白質 (克)', '蛋白質'],
+  carbohydrates: ['carbohydrates (g)', 'carbs (g)', 'carbohydrates', 'carbs', 'net carbs (g)', '碳水化合物 (克)', '碳水化合物'],
+  fat: ['fat (g)', 'fat', '脂肪 (克)', '脂肪'],
+  fiber: ['fiber (g)', 'fiber', '膳食纖維 (克)', '膳食纖維'],
+  sugar: ['sugars (g)', 'sugar (g)', 'sugar', '糖 (克)', '糖'],
+  sodium: ['sodium (mg)', 'sodium', '鈉 (毫克)', '鈉'],
+  portionGrams: ['weight (g)', 'grams', '份量 (克)'],
+  notes: ['note', 'notes', '備註'],
+  location: ['location', '地點'],
+  cost: ['cost', 'price', '花費'],
+  water: ['water (ml)', 'water (g)', 'water', '飲水量 (毫升)', '飲水量'],
+};
+
+const MEAL_TYPE_ALIASES: Record<string, MealType> = {
+  breakfast: 'Breakfast',
+  早餐: 'Breakfast',
+  lunch: 'Lunch',
+  午餐: 'Lunch',
+  dinner: 'Dinner',
+  supper: 'Dinner',
+  晚餐: 'Dinner',
+  snack: 'Snack',
+  snacks: 'Snack',
+  點心: 'Snack',
+};
+
+export const MEAL_TYPE_LABELS: Record<MealType, string> = { Breakfast: '早餐', Lunch: '午餐', Dinner: '晚餐', Snack: '點心' };
+
+// Exports with only a date get a typical time for the meal, so they sort and group sensibly
+const DEFAULT_MEAL_HOURS: Record<MealType, number> = { Breakfast: 8, Lunch: 12, Dinner: 18, Snack: 15 };
+const DEFAULT_HOUR = 12;
+
+const YEAR_FIRST_FORMATS = ['yyyy-MM-dd', 'yyyy/MM/dd', 'yyyy.MM.dd'];
+const MONTH_FIRST_FORMATS = ['MM/dd/yyyy', 'MM-dd-yyyy'];
+const DAY_FIRST_FORMATS = ['dd/MM/yyyy', 'dd-MM-yyyy', 'dd.MM.yyyy'];
+const TIME_FORMATS = ['HH:mm', 'HH:mm:ss', 'h:mm a', 'h:mm:ss a', 'h a'];
+
+// Firestore allows at most 500 documents per batched write
+export const IMPORT_BATCH_SIZE = 400;
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportIssue {
+  row: number; // Line number in the file (the header is line 1)
+  message: string;
+}
+
+export interface ImportPreview {
+  calorieEntries: NewCalorieEntry[];
+  waterEntries: NewWaterEntry[];
+  duplicates: number; // Rows matching an existing entry (or an earlier row); left out of the import
+  issues: ImportIssue[]; // Rows that couldn't be parsed; left out of the import
+}
+
+const normalizeHeader = (header: string) => header.replace(/^\uFEFF/, '').trim().toLowerCase();
+
+// RFC 4180 CSV: quoted fields may contain the delimiter, quotes ("") and line breaks.
+// The delimiter (comma, semicolon or tab) is taken from the header line.
+export function parseCsv(text: string): ParsedCsv {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [headers = [], ...dataRows] = rows;
+  return { headers: headers.map(header => header.trim()), rows: dataRows };
+}
+
+// Map the columns whose header is a known alias of a field
+export function guessColumnMapping(headers: string[], kind: ImportKind): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS[kind].forEach(({ field }) => {
+    for (const alias of FIELD_ALIASES[field]) {
+      const index = normalized.indexOf(alias);
+      if (index !== -1) {
+        mapping[field] = index;
+        break;
+      }
+    }
+  });
+  return mapping;
+}
+
+const parseNumber = (value: string): number | null => {
+  const cleaned = value.replace(/[,\s]/g, '').replace(/^(NT)?\$/i, '');
+  if (cleaned === '') return null;
+  const number = Number(cleaned);
+  return Number.isFinite(number) ? number : NaN;
+};
+
+const tryFormats = (value: string, formats: string[]): Date | null => {
+  for (const dateFormat of formats) {
+    const date = parse(value, dateFormat, new Date(2000, 0, 1));
+    if (isValid(date)) return date;
+  }
+  return null;
+};
+
+// Dates may carry a time ("2024-01-15 08:30"); ISO timestamps are accepted as is
+const parseDateTime = (value: string, dayFirst: boolean): { date: Date; hasTime: boolean } | null => {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+    const date = new Date(trimmed);
+    return isValid(date) ? { date, hasTime: true } : null;
+  }
+  const [datePart, ...timeParts] = trimmed.split(/\s+/);
+  const date = tryFormats(datePart, [...YEAR_FIRST_FORMATS, ...(dayFirst ? DAY_FIRST_FORMATS : MONTH_FIRST_FORMATS)]);
+  if (!date) return null;
+  if (timeParts.length === 0) return { date, hasTime: false };
+  const time = tryFormats(timeParts.join(' '), TIME_FORMATS);
+  return time ? { date: setMinutes(setHours(date, time.getHours()), time.getMinutes()), hasTime: true } : null;
+};
+
+interface ParseOptions {
+  kind: ImportKind;
+  mapping: ColumnMapping;
+  dayFirst: boolean; // Slash dates are day/month/year instead of month/day/year
+}
+
+// Turn the rows into entries; rows that can't be read are reported and skipped
+export function parseImportRows(csv: ParsedCsv, { kind, mapping, dayFirst }: ParseOptions) {
+  const calorieEntries: NewCalorieEntry[] = [];
+  const waterEntries: NewWaterEntry[] = [];
+  const issues: ImportIssue[] = [];
+
+  csv.rows.forEach((cells, index) => {
+    const row = index + 2;
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+    const number = (field: ImportField) => parseNumber(cell(field));
+    if (cells.every(value => value.trim() === '')) return; // Blank line
+
+    const dateTime = parseDateTime(cell('date'), dayFirst);
+    if (!dateTime) {
+      issues.push({ row, message: cell('date') ? `無法辨識日期「${cell('date')}」。` : '缺少日期。' });
+      return;
+    }
+    let timestamp = dateTime.date;
+    if (cell('time')) {
+      const time = tryFormats(cell('time'), TIME_FORMATS);
+      if (!time) {
+        issues.push({ row, message: `無法辨識時間「${cell('time')}」。` });
+        return;
+      }
+      timestamp = setMinutes(setHours(timestamp, time.getHours()), time.getMinutes());
+    }
+
+    if (kind === 'water') {
+      const amount = number('water');
+      if (amount === null || Number.isNaN(amount) || amount <= 0) {
+        issues.push({ row, message: `飲水量「${cell('water')}」不是大於 0 的數字。` });
+        return;
+      }
+      if (!dateTime.hasTime && !cell('time')) timestamp = setHours(timestamp, DEFAULT_HOUR);
+      waterEntries.push({ timestamp: Timestamp.fromDate(timestamp), amount: Math.round(amount) });
+      return;
+    }
+
+    const calories = number('calories');
+    if (calories === null || Number.isNaN(calories) || calories < 0) {
+      issues.push({ row, message: `熱量「${cell('calories')}」不是有效的數字。` });
+      return;
+    }
+    const mealType = MEAL_TYPE_ALIASES[cell('mealType').toLowerCase()] ?? null;
+    if (!dateTime.hasTime && !cell('time')) timestamp = setHours(timestamp, mealType ? DEFAULT_MEAL_HOURS[mealType] : DEFAULT_HOUR);
+
+    const optionalNumbers = (['protein', 'carbohydrates', 'fat', 'fiber', 'sugar', 'sodium', 'portionGrams', 'cost'] as const)
+      .map(field => [field, number(field)] as const);
+    const invalid = optionalNumbers.find(([, value]) => Number.isNaN(value));
+    if (invalid) {
+      const label = IMPORT_FIELDS.calories.find(info => info.field === invalid[0])?.label;
+      issues.push({ row, message: `${label}「${cell(invalid[0])}」不是有效的數字。` });
+      return;
+    }
+    const values = Object.fromEntries(optionalNumbers) as Record<(typeof optionalNumbers)[number][0], number | null>;
+    const hasMacros = [values.protein, values.carbohydrates, values.fat, values.fiber, values.sugar, values.sodium]
+      .some(value => value !== null);
+
+    const entry: NewCalorieEntry = {
+      foodItem: cell('foodItem') || `匯入的${mealType ? MEAL_TYPE_LABELS[mealType] : '餐點'}`,
+      calorieEstimate: Math.round(calories),
+      imageUrl: null,
+      timestamp: Timestamp.fromDate(timestamp),
+      mealType,
+      location: cell('location') || null,
+      cost: values.cost,
+    };
+    if (hasMacros) {
+      entry.macros = {
+        protein: values.protein ?? 0,
+        carbohydrates: values.carbohydrates ?? 0,
+        fat: values.fat ?? 0,
+        fiber: values.fiber ?? 0,
+        sugar: values.sugar ?? 0,
+        sodium: values.sodium ?? 0,
+      };
+    }
+    if (values.portionGrams !== null) entry.portionGrams = values.portionGrams;
+    if (cell('notes')) entry.notes = cell('notes');
+    calorieEntries.push(entry);
+  });
+
+  return { calorieEntries, waterEntries, issues };
+}
+
+// Entries count as duplicates when logged in the same minute with the same food and calories (or amount of water)
+type CalorieKeyFields = Pick<NewCalorieEntry, 'timestamp' | 'foodItem' | 'calorieEstimate'>;
+const minuteOf = (timestamp: Timestamp) => Math.floor(timestamp.toMillis() / 60000);
+const calorieKey = (entry: CalorieKeyFields) =>
+  `${minuteOf(entry.timestamp)}|${entry.foodItem.trim()}|${Math.round(entry.calorieEstimate)}`;
+const waterKey = (entry: NewWaterEntry) => `${minuteOf(entry.timestamp)}|${Math.round(entry.amount)}`;
+
+// Drop the entries the user already has (or that repeat an earlier one in the list). Also tells how many
+// entries the user has in the period the given entries cover.
+export async function findNewEntries<C extends CalorieKeyFields, W extends NewWaterEntry>(
+  repository: DataRepository,
+  userId: string,
+  calorieEntries: C[],
+  waterEntries: W[]
+) {
+  const times = [...calorieEntries, ...waterEntries].map(entry => entry.timestamp.toMillis());
+  if (times.length === 0) {
+    return { calorieEntries, waterEntries, duplicates: 0, existingCalorieCount: 0, existingWaterCount: 0 };
+  }
+
+  // Years of history can be tens of thousands of rows, too many to spread into Math.min
+  const range = {
+    start: startOfDay(new Date(times.reduce((min, time) => Math.min(min, time)))),
+    end: addDays(startOfDay(new Date(times.reduce((max, time) => Math.max(max, time)))), 1),
+  };
+  const [existingCalories, existingWater] = await Promise.all([
+    calorieEntries.length > 0 ? repository.getCalorieEntries(userId, range) : Promise.resolve([]),
+    waterEntries.length > 0 ? repository.getWaterEntries(userId, range) : Promise.resolve([]),
+  ]);
+
+  const seenCalories = new Set(existingCalories.map(calorieKey));
+  const seenWater = new Set(existingWater.map(waterKey));
+  const isNew = <T>(seen: Set<string>, key: (entry: T) => string) => (entry: T) => {
+    const entryKey = key(entry);
+    if (seen.has(entryKey)) return false;
+    seen.add(entryKey);
+    return true;
+  };
+  const newCalorieEntries = calorieEntries.filter(isNew(seenCalories, calorieKey));
+  const newWaterEntries = waterEntries.filter(isNew(seenWater, waterKey));
+
+  return {
+    calorieEntries: newCalorieEntries,
+    waterEntries: newWaterEntries,
+    duplicates: calorieEntries.length - newCalorieEntries.length + waterEntries.length - newWaterEntries.length,
+    existingCalorieCount: existingCalories.length,
+    existingWaterCount: existingWater.length,
+  };
+}
+
+// Read the rows and drop the ones already logged (e.g. a file imported twice)
+export async function buildImportPreview(
+  repository: DataRepository,
+  userId: string,
+  csv: ParsedCsv,
+  options: ParseOptions
+): Promise<ImportPreview> {
+  const { calorieEntries, waterEntries, issues } = parseImportRows(csv, options);
+  const newEntries = await findNewEntries(repository, userId, calorieEntries, waterEntries);
+  return {
+    calorieEntries: newEntries.calorieEntries,
+    waterEntries: newEntries.waterEntries,
+    duplicates: newEntries.duplicates,
+    issues,
+  };
+}
+
+// Write the entries in batches; `onProgress` gets the number of entries written so far.
+// If a batch fails, the earlier batches stay written and the error is rethrown.
+export async function writeImport(
+  repository: DataRepository,
+  userId: string,
+  { calorieEntries, waterEntries }: Pick<ImportPreview, 'calorieEntries' | 'waterEntries'>,
+  onProgress?: (written: number) => void
+) {
+  const entries = [
+    ...calorieEntries.map(entry => ({ calorie: entry })),
+    ...waterEntries.map(entry => ({ water: entry })),
+  ];
+  for (let start = 0; start < entries.length; start += IMPORT_BATCH_SIZE) {
+    const batch = entries.slice(start, start + IMPORT_BATCH_SIZE);
+    await repository.addEntries(userId, {
+      calorieEntries: batch.flatMap(item => ('calorie' in item ? [item.calorie] : [])),
+      waterEntries: batch.flatMap(item => ('water' in item ? [item.water] : [])),
+    });
+    onProgress?.(start + batch.length);
+  }
+}
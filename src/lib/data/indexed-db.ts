@@ -0,0 +1,14 @@
+// src/lib/data/indexed-db.ts
+
+// Opens a database with a single object store, creating it on first use
+export const openDatabase = (name: string, storeName: string) => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(name, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
@@ -0,0 +1,134 @@
+// src/lib/data/local-repository.ts
+import { createInMemoryRepository, type InMemorySeed } from '@/lib/data/memory-repository';
+import { encodeTimestamps, decodeTimestamps } from '@/lib/data/serialization';
+import { openDatabase, requestResult } from '@/lib/data/indexed-db';
+import type { DataRepository, Unsubscribe } from '@/lib/data/repository';
+import type { QueuedRepository, SyncStatus } from '@/lib/data/write-queue';
+import type { UserAccount } from '@/lib/data/types';
+
+// The guest is a single local user
+export const GUEST_USER_ID = 'guest';
+export const GUEST_ACCOUNT: UserAccount = { uid: GUEST_USER_ID, email: null, displayName: '訪客', photoURL: null };
+
+const DB_NAME = 'caloriesnap-guest';
+const STORE_NAME = 'data';
+const STATE_KEY = 'state';
+const ALL_TIME = { start: new Date(0), end: new Date(8.64e15) };
+// Everything is saved on this device right away, so nothing is ever waiting to sync
+const LOCAL_SYNC_STATUS: SyncStatus = { online: true, pendingCount: 0, retrying: false };
+
+export interface LocalRepository extends QueuedRepository {
+  // Whether the guest logged any meals or water
+  hasEntries(): Promise<boolean>;
+  // Delete all entries and reset the profile, e.g. after moving them into an account
+  clear(): Promise<void>;
+}
+
+// Repository for guest mode: the in-memory repository, persisted to IndexedDB on this device
+// (meal photos stay data URLs, which would quickly fill localStorage). Without IndexedDB
+// (e.g. some private browsing modes) the data only lasts until the page is closed.
+export function createLocalRepository(): LocalRepository {
+  const database = typeof indexedDB === 'undefined'
+    ? Promise.resolve(null)
+    : openDatabase(DB_NAME, STORE_NAME).catch(error => {
+        console.error("無法開啟訪客資料庫 (IndexedDB)，資料只會保留到關閉頁面為止:", error);
+        return null;
+      });
+  let saving = Promise.resolve();
+
+  // Writes are chained so an older state never overwrites a newer one
+  const save = (data: Required<InMemorySeed>) => {
+    const encoded = encodeTimestamps(data);
+    saving = saving
+      .then(() => database)
+      .then(async db => {
+        if (db) await requestResult(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(encoded, STATE_KEY));
+      })
+      .catch(error => console.error("儲存訪客資料時發生錯誤:", error));
+  };
+
+  const ready: Promise<DataRepository> = database
+    .then(async db => (db ? decodeTimestamps(await requestResult(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(STATE_KEY))) : undefined))
+    .catch(error => {
+      console.error("讀取訪客資料時發生錯誤:", error);
+      return undefined;
+    })
+    .then(seed => createInMemoryRepository((seed as InMemorySeed | undefined) ?? {}, { onChange: save }));
+
+  // Subscriptions start once the stored data is loaded
+  const subscribeWhenReady = (subscribe: (repository: DataRepository) => Unsubscribe): Unsubscribe => {
+    let unsubscribe: Unsubscribe | null = null;
+    let cancelled = false;
+    void ready.then(repository => {
+      if (!cancelled) unsubscribe = subscribe(repository);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  };
+
+  return {
+    recordSignIn: async account => (await ready).recordSignIn(account),
+    subscribeProfile: (userId, onChange, onError) =>
+      subscribeWhenReady(repository => repository.subscribeProfile(userId, onChange, onError)),
+    updateProfile: async (userId, update) => (await ready).updateProfile(userId, update),
+    subscribeCalorieEntries: (userId, range, pageSize, onChange, onError) =>
+      subscribeWhenReady(repository => repository.subscribeCalorieEntries(userId, range, pageSize, onChange, onError)),
+    getCalorieEntries: async (userId, range) => (await ready).getCalorieEntries(userId, range),
+    getCalorieEntry: async id => (await ready).getCalorieEntry(id),
+    newEntryId: () => `local-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    addCalorieEntry: async (userId, entry, options) => (await ready).addCalorieEntry(userId, entry, options),
+    updateCalorieEntry: async (id, update) => (await ready).updateCalorieEntry(id, update),
+    deleteCalorieEntry: async id => (await ready).deleteCalorieEntry(id),
+    subscribeWaterEntries: (userId, range, onChange, onError) =>
+      subscribeWhenReady(repository => repository.subscribeWaterEntries(userId, range, onChange, onError)),
+    getWaterEntries: async (userId, range) => (await ready).getWaterEntries(userId, range),
+    addWaterEntry: async (userId, amount, options) => (await ready).addWaterEntry(userId, amount, options),
+    setWaterEntriesDeletedAt: async (ids, deletedAt) => (await ready).setWaterEntriesDeletedAt(ids, deletedAt),
+    deleteWaterEntries: async ids => (await ready).deleteWaterEntries(ids),
+    subscribeTrash: (userId, onChange, onError) =>
+      subscribeWhenReady(repository => repository.subscribeTrash(userId, onChange, onError)),
+    getTrash: async userId => (await ready).getTrash(userId),
+    addEntries: async (userId, entries) => (await ready).addEntries(userId, entries),
+    deleteUserData: async (userId, onProgress) => (await ready).deleteUserData(userId, onProgress),
+
+    async setUser() {}, // There is only the guest
+    subscribeSyncStatus(onChange) {
+      onChange(LOCAL_SYNC_STATUS);
+      return () => {};
+    },
+    syncNow() {},
+
+    async hasEntries() {
+      const repository = await ready;
+      const [calorieEntries, waterEntries] = await Promise.all([
+        repository.getCalorieEntries(GUEST_USER_ID, ALL_TIME),
+        repository.getWaterEntries(GUEST_USER_ID, ALL_TIME),
+      ]);
+      return calorieEntries.length > 0 || waterEntries.length > 0;
+    },
+
+    async clear() {
+      const repository = await ready;
+      const [calorieEntries, waterEntries, trash] = await Promise.all([
+        repository.getCalorieEntries(GUEST_USER_ID, ALL_TIME),
+        repository.getWaterEntries(GUEST_USER_ID, ALL_TIME),
+        repository.getTrash(GUEST_USER_ID),
+      ]);
+      calorieEntries.push(...trash.calorieEntries);
+      waterEntries.push(...trash.waterEntries);
+      await Promise.all(calorieEntries.map(entry => repository.deleteCalorieEntry(entry.id)));
+      if (waterEntries.length > 0) await repository.deleteWaterEntries(waterEntries.map(entry => entry.id));
+      await repository.recordSignIn(GUEST_ACCOUNT);
+      await repository.updateProfile(GUEST_USER_ID, {
+        age: null,
+        gender: null,
+        height: null,
+        weight: null,
+        activityLevel: null,
+        healthGoal: null,
+      });
+    },
+  };
+}
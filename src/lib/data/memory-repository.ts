@@ -0,0 +1,207 @@
+// src/lib/data/memory-repository.ts
+import { Timestamp } from 'firebase/firestore';
+import type { DataRepository } from '@/lib/data/repository';
+import type { CalorieLogEntry, WaterLogEntry, UserProfile, DateRange } from '@/lib/data/types';
+
+export interface InMemorySeed {
+  profiles?: UserProfile[];
+  calorieEntries?: CalorieLogEntry[];
+  waterEntries?: WaterLogEntry[];
+}
+
+interface InMemoryOptions {
+  onChange?: (data: Required<InMemorySeed>) => void; // Called with all data after every write, e.g. to persist it
+}
+
+const inRange = (timestamp: Timestamp, range: DateRange) => {
+  const millis = timestamp.toMillis();
+  return millis >= range.start.getTime() && millis < range.end.getTime();
+};
+
+const newestFirst = (a: CalorieLogEntry, b: CalorieLogEntry) => b.timestamp.toMillis() - a.timestamp.toMillis();
+const mostRecentlyDeletedFirst = (a: { deletedAt?: Timestamp | null }, b: { deletedAt?: Timestamp | null }) =>
+  (b.deletedAt?.toMillis() ?? 0) - (a.deletedAt?.toMillis() ?? 0);
+
+// Repository that keeps everything in memory, for exercising components and business logic without Firebase.
+// Like Firestore, listeners are called asynchronously: once after subscribing and after every write.
+export function createInMemoryRepository(seed: InMemorySeed = {}, options: InMemoryOptions = {}): DataRepository {
+  const profiles = new Map((seed.profiles ?? []).map(profile => [profile.id, { ...profile }]));
+  const calorieEntries = new Map((seed.calorieEntries ?? []).map(entry => [entry.id, { ...entry }]));
+  const waterEntries = new Map((seed.waterEntries ?? []).map(entry => [entry.id, { ...entry }]));
+  const listeners = new Set<() => void>();
+  let nextId = 1;
+
+  const generateId = () => {
+    let id: string;
+    do id = `memory-${nextId++}`; while (calorieEntries.has(id) || waterEntries.has(id)); // Seeded entries may use the same scheme
+    return id;
+  };
+  const notify = () => {
+    options.onChange?.({
+      profiles: Array.from(profiles.values()),
+      calorieEntries: Array.from(calorieEntries.values()),
+      waterEntries: Array.from(waterEntries.values()),
+    });
+    queueMicrotask(() => listeners.forEach(listener => listener()));
+  };
+  const listen = (emit: () => void) => {
+    listeners.add(emit);
+    queueMicrotask(() => {
+      if (listeners.has(emit)) emit();
+    });
+    return () => {
+      listeners.delete(emit);
+    };
+  };
+
+  const calorieEntriesInRange = (userId: string, range: DateRange) =>
+    Array.from(calorieEntries.values())
+      .filter(entry => entry.userId === userId && !entry.deletedAt && inRange(entry.timestamp, range))
+      .sort(newestFirst)
+      .map(entry => ({ ...entry }));
+  const waterEntriesInRange = (userId: string, range: DateRange) =>
+    Array.from(waterEntries.values())
+      .filter(entry => entry.userId === userId && !entry.deletedAt && inRange(entry.timestamp, range))
+      .map(entry => ({ ...entry }));
+  const trashOf = (userId: string) => ({
+    calorieEntries: Array.from(calorieEntries.values())
+      .filter(entry => entry.userId === userId && entry.deletedAt)
+      .sort(mostRecentlyDeletedFirst)
+      .map(entry => ({ ...entry })),
+    waterEntries: Array.from(waterEntries.values())
+      .filter(entry => entry.userId === userId && entry.deletedAt)
+      .sort(mostRecentlyDeletedFirst)
+      .map(entry => ({ ...entry })),
+  });
+
+  return {
+    async recordSignIn(account) {
+      if (!profiles.has(account.uid)) {
+        profiles.set(account.uid, {
+          id: account.uid,
+          age: null,
+          gender: null,
+          height: null,
+          weight: null,
+          activityLevel: null,
+          healthGoal: null,
+        });
+        notify();
+      }
+    },
+
+    subscribeProfile(userId, onChange) {
+      return listen(() => {
+        const profile = profiles.get(userId);
+        onChange(profile ? { ...profile } : null);
+      });
+    },
+
+    async updateProfile(userId, update) {
+      const profile = profiles.get(userId);
+      if (!profile) throw new Error(`User profile ${userId} not found.`);
+      profiles.set(userId, { ...profile, ...update });
+      notify();
+    },
+
+    subscribeCalorieEntries(userId, range, pageSize, onChange) {
+      return listen(() => {
+        const entries = calorieEntriesInRange(userId, range);
+        const hasMore = pageSize !== null && entries.length > pageSize;
+        onChange(hasMore ? entries.slice(0, pageSize) : entries, hasMore);
+      });
+    },
+
+    async getCalorieEntries(userId, range) {
+      return calorieEntriesInRange(userId, range);
+    },
+
+    async getCalorieEntry(id) {
+      const entry = calorieEntries.get(id);
+      return entry ? { ...entry } : null;
+    },
+
+    newEntryId() {
+      return generateId();
+    },
+
+    async addCalorieEntry(userId, entry, { id = generateId(), photoDataUrl } = {}) {
+      // Photos stay data URLs; there is no Storage to upload them to
+      const photo = photoDataUrl ? { imageUrl: photoDataUrl, thumbnailUrl: photoDataUrl } : {};
+      calorieEntries.set(id, { ...entry, ...photo, id, userId, updatedAt: Timestamp.now() });
+      notify();
+      return id;
+    },
+
+    async updateCalorieEntry(id, update) {
+      const entry = calorieEntries.get(id);
+      if (!entry) throw new Error(`Calorie entry ${id} not found.`);
+      calorieEntries.set(id, { ...entry, ...update, updatedAt: Timestamp.now() });
+      notify();
+    },
+
+    async deleteCalorieEntry(id) {
+      calorieEntries.delete(id);
+      notify();
+    },
+
+    subscribeWaterEntries(userId, range, onChange) {
+      return listen(() => onChange(waterEntriesInRange(userId, range)));
+    },
+
+    async getWaterEntries(userId, range) {
+      return waterEntriesInRange(userId, range);
+    },
+
+    async addWaterEntry(userId, amount, { id = generateId(), timestamp = Timestamp.now() } = {}) {
+      waterEntries.set(id, { id, userId, timestamp, amount });
+      notify();
+      return id;
+    },
+
+    async setWaterEntriesDeletedAt(ids, deletedAt) {
+      ids.forEach(id => {
+        const entry = waterEntries.get(id);
+        if (!entry) throw new Error(`Water entry ${id} not found.`);
+        waterEntries.set(id, { ...entry, deletedAt });
+      });
+      notify();
+    },
+
+    async deleteWaterEntries(ids) {
+      ids.forEach(id => waterEntries.delete(id));
+      notify();
+    },
+
+    subscribeTrash(userId, onChange) {
+      return listen(() => onChange(trashOf(userId)));
+    },
+
+    async getTrash(userId) {
+      return trashOf(userId);
+    },
+
+    async addEntries(userId, entries) {
+      const updatedAt = Timestamp.now();
+      entries.calorieEntries.forEach(entry => {
+        const id = generateId();
+        calorieEntries.set(id, { ...entry, id, userId, updatedAt });
+      });
+      entries.waterEntries.forEach(entry => {
+        const id = generateId();
+        waterEntries.set(id, { ...entry, id, userId });
+      });
+      notify();
+    },
+
+    async deleteUserData(userId, onProgress) {
+      const ownCalorieEntries = Array.from(calorieEntries.values()).filter(entry => entry.userId === userId);
+      const ownWaterEntries = Array.from(waterEntries.values()).filter(entry => entry.userId === userId);
+      ownCalorieEntries.forEach(entry => calorieEntries.delete(entry.id));
+      ownWaterEntries.forEach(entry => waterEntries.delete(entry.id));
+      profiles.delete(userId);
+      notify();
+      onProgress?.({ calorieEntries: ownCalorieEntries.length, waterEntries: ownWaterEntries.length, photos: 0 });
+    },
+  };
+}
@@ -0,0 +1,79 @@
+// src/lib/data/month-summaries.ts
+import type { Timestamp } from 'firebase/firestore';
+import { format, startOfMonth, addMonths, isAfter } from 'date-fns';
+import type { DataRepository } from '@/lib/data/repository';
+import type { CalorieLogEntry, WaterLogEntry } from '@/lib/data/types';
+
+// Per-day totals used for calendar highlights and achievements of periods that aren't subscribed to
+export interface DaySummary {
+  calories: number;
+  entryCount: number; // Eaten (non-planned) calorie entries
+  water: number; // ml
+}
+export type MonthSummary = Record<string, DaySummary>; // Keyed by yyyy-MM-dd
+
+const MONTH_SUMMARY_STORAGE_PREFIX = 'monthSummary';
+
+// Add calorie and water entries to per-day totals
+export function summarizeByDay(calorieEntries: CalorieLogEntry[], waterEntries: WaterLogEntry[]): MonthSummary {
+  const summary: MonthSummary = {};
+  const dayFor = (timestamp: Timestamp) => {
+    const dateKey = format(timestamp.toDate(), 'yyyy-MM-dd');
+    summary[dateKey] ??= { calories: 0, entryCount: 0, water: 0 };
+    return summary[dateKey];
+  };
+  calorieEntries.forEach(entry => {
+    if (!entry.timestamp || entry.planned) return; // Planned meals don't count as eaten
+    const day = dayFor(entry.timestamp);
+    day.calories += entry.calorieEstimate || 0;
+    day.entryCount += 1;
+  });
+  waterEntries.forEach(entry => {
+    if (!entry.timestamp) return;
+    dayFor(entry.timestamp).water += entry.amount || 0;
+  });
+  return summary;
+}
+
+const monthKey = (userId: string, month: Date) => `${MONTH_SUMMARY_STORAGE_PREFIX}:${userId}:${format(month, 'yyyy-MM')}`;
+
+// Months that have ended no longer change (except for rare edits, see invalidateMonthSummary), so their summaries are cached
+const isClosedMonth = (month: Date) => !isAfter(addMonths(startOfMonth(month), 1), startOfMonth(new Date()));
+
+// Per-day totals for one month, read once (no listener). Summaries of past months are cached in localStorage.
+export async function fetchMonthSummary(repository: DataRepository, userId: string, month: Date): Promise<MonthSummary> {
+  const key = monthKey(userId, month);
+  const cacheable = isClosedMonth(month);
+  if (cacheable && typeof window !== 'undefined') {
+    const cached = window.localStorage.getItem(key);
+    if (cached) {
+      try {
+        return JSON.parse(cached) as MonthSummary;
+      } catch {
+        window.localStorage.removeItem(key); // Corrupted cache, refetch
+      }
+    }
+  }
+
+  const range = { start: startOfMonth(month), end: addMonths(startOfMonth(month), 1) };
+  const [calorieEntries, waterEntries] = await Promise.all([
+    repository.getCalorieEntries(userId, range),
+    repository.getWaterEntries(userId, range),
+  ]);
+  const summary = summarizeByDay(calorieEntries, waterEntries);
+
+  if (cacheable && typeof window !== 'undefined') {
+    try {
+      window.localStorage.setItem(key, JSON.stringify(summary));
+    } catch (error) {
+      console.error(`快取 ${key} 的每日摘要時發生錯誤:`, error); // Cache is optional; keep going
+    }
+  }
+  return summary;
+}
+
+// Drop the cached summary of the month containing `date`, e.g. after editing or deleting an old entry
+export function invalidateMonthSummary(userId: string, date: Date): void {
+  if (typeof window === 'undefined') return;
+  window.localStorage.removeItem(monthKey(userId, date));
+}
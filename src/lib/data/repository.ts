@@ -0,0 +1,82 @@
+// src/lib/data/repository.ts
+import type { Timestamp } from 'firebase/firestore';
+import type {
+  CalorieLogEntry,
+  WaterLogEntry,
+  UserProfile,
+  UserAccount,
+  NewCalorieEntry,
+  NewWaterEntry,
+  CalorieEntryUpdate,
+  ProfileUpdate,
+  DateRange,
+  DeletionProgress,
+  Trash,
+} from '@/lib/data/types';
+
+export type Unsubscribe = () => void;
+
+// All reads and writes of users, calorie entries and water entries go through a repository,
+// so components don't depend on Firestore directly (see firestore-repository.ts and memory-repository.ts).
+// Entries in the trash (with `deletedAt` set) are left out of all entry reads; only the trash methods return them.
+export interface DataRepository {
+  // --- Users ---
+  // Create the user document on first sign-in (with empty profile fields), or record the login time
+  recordSignIn(account: UserAccount): Promise<void>;
+  // `onChange` receives null when the user document doesn't exist
+  subscribeProfile(
+    userId: string,
+    onChange: (profile: UserProfile | null) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  updateProfile(userId: string, update: ProfileUpdate): Promise<void>;
+
+  // --- Calorie entries ---
+  // Entries in a date range, newest first. With a page size, at most that many entries are delivered
+  // and `hasMore` tells whether older ones exist.
+  subscribeCalorieEntries(
+    userId: string,
+    range: DateRange,
+    pageSize: number | null,
+    onChange: (entries: CalorieLogEntry[], hasMore: boolean) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  getCalorieEntries(userId: string, range: DateRange): Promise<CalorieLogEntry[]>;
+  // Null when the entry doesn't exist
+  getCalorieEntry(id: string): Promise<CalorieLogEntry | null>;
+  // Generate a document ID for a new calorie or water entry
+  newEntryId(): string;
+  // Stores the photo (a data URL) with the entry and sets its photo fields. Returns the new entry's ID (`id` if given).
+  addCalorieEntry(userId: string, entry: NewCalorieEntry, options?: { id?: string; photoDataUrl?: string | null }): Promise<string>;
+  // Also moves the entry to the trash and back, by setting `deletedAt` (see trash.ts)
+  updateCalorieEntry(id: string, update: CalorieEntryUpdate): Promise<void>;
+  // Deletes the entry for good, with its photo
+  deleteCalorieEntry(id: string): Promise<void>;
+
+  // --- Water entries ---
+  subscribeWaterEntries(
+    userId: string,
+    range: DateRange,
+    onChange: (entries: WaterLogEntry[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  getWaterEntries(userId: string, range: DateRange): Promise<WaterLogEntry[]>;
+  // Logged now unless a timestamp is given. Returns the new entry's ID (`id` if given).
+  addWaterEntry(userId: string, amount: number, options?: { id?: string; timestamp?: Timestamp }): Promise<string>;
+  // Moves the entries to the trash (a time) or restores them (null), atomically
+  setWaterEntriesDeletedAt(ids: string[], deletedAt: Timestamp | null): Promise<void>;
+  // Deletes all given entries for good, atomically
+  deleteWaterEntries(ids: string[]): Promise<void>;
+
+  // --- Trash ---
+  subscribeTrash(userId: string, onChange: (trash: Trash) => void, onError: (error: Error) => void): Unsubscribe;
+  getTrash(userId: string): Promise<Trash>;
+
+  // --- Bulk ---
+  // Adds calorie entries (without photos) and water entries in one atomic write, e.g. when importing history.
+  // Firestore allows at most 500 documents per write, so callers split larger sets.
+  addEntries(userId: string, entries: { calorieEntries: NewCalorieEntry[]; waterEntries: NewWaterEntry[] }): Promise<void>;
+  // Erases everything stored for the user: meal photos, calorie and water entries, then the user document.
+  // Works in batches, each committed on its own; if interrupted, calling it again continues with what is left.
+  deleteUserData(userId: string, onProgress?: (progress: DeletionProgress) => void): Promise<void>;
+}
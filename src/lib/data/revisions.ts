@@ -0,0 +1,93 @@
+// src/lib/data/revisions.ts
+import { Timestamp } from 'firebase/firestore';
+import { sameValue } from '@/lib/data/serialization';
+import type { CalorieLogEntry, CalorieEntryUpdate, EntryRevision, FieldChange, OriginalEstimate, RevisedField, UserAccount } from '@/lib/data/types';
+
+export const REVISED_FIELDS: RevisedField[] = [
+  'foodItem',
+  'calorieEstimate',
+  'macros',
+  'items',
+  'portionGrams',
+  'timestamp',
+  'mealType',
+  'location',
+  'cost',
+  'notes',
+];
+
+// Values that stand for "not set" when reverting a field that an entry didn't have; the rest become null
+// (Firestore rejects undefined)
+const UNSET_VALUES: Partial<Record<RevisedField, unknown>> = { notes: '', items: [], portionGrams: 0 };
+
+// Older revisions are dropped to keep the document small; the original estimate is kept separately
+const MAX_REVISIONS = 50;
+
+// The AI's answer as shown in the estimation dialog, before the user adjusts it
+export const toOriginalEstimate = (estimate: {
+  foodItem: string;
+  calorieEstimate: number;
+  confidence?: number;
+  macros?: OriginalEstimate['macros'];
+  portionGrams?: number;
+}): OriginalEstimate => ({
+  foodItem: estimate.foodItem,
+  calorieEstimate: estimate.calorieEstimate,
+  confidence: estimate.confidence ?? null,
+  macros: estimate.macros ?? null,
+  portionGrams: estimate.portionGrams ?? null,
+});
+
+// Entries logged from a photo or description carry the AI's confidence; products have a barcode
+const isAiEstimate = (entry: CalorieLogEntry) => typeof entry.confidence === 'number' && !entry.barcode;
+
+// Fields of `update` that differ from the entry
+export function diffEntry(entry: CalorieLogEntry, update: CalorieEntryUpdate): FieldChange[] {
+  return REVISED_FIELDS
+    .filter(field => field in update && !sameValue(entry[field], update[field]))
+    .map(field => ({ field, from: entry[field] ?? null, to: update[field] ?? null }));
+}
+
+// Add a revision recording the edit to the update, or return null if no recorded field changes.
+// AI entries logged before the original estimate was stored get it from their values before
+// their first recorded edit, the closest to the AI's answer that is still known.
+// The editor's name is stored with the revision so the history can show it without looking up the uid.
+export function withRevision(
+  entry: CalorieLogEntry,
+  update: CalorieEntryUpdate,
+  editor: Pick<UserAccount, 'uid' | 'displayName'>
+): CalorieEntryUpdate | null {
+  const changes = diffEntry(entry, update);
+  if (changes.length === 0) return null;
+  const revision: EntryRevision = { editedAt: Timestamp.now(), editedBy: editor.uid, editedByName: editor.displayName, changes };
+  const needsOriginal = !entry.originalEstimate && !entry.revisions?.length && isAiEstimate(entry);
+  return {
+    ...update,
+    revisions: [...(entry.revisions ?? []), revision].slice(-MAX_REVISIONS),
+    ...(needsOriginal ? { originalEstimate: toOriginalEstimate(entry) } : {}),
+  };
+}
+
+// The recorded fields as they were just before the revision at `index` was saved,
+// obtained by undoing it and every later revision
+export function valuesBeforeRevision(entry: CalorieLogEntry, index: number): CalorieEntryUpdate {
+  const values: Record<string, unknown> = {};
+  (entry.revisions ?? []).slice(index).reverse().forEach(revision => {
+    revision.changes.forEach(change => {
+      values[change.field] = change.from;
+    });
+  });
+  return Object.fromEntries(
+    Object.entries(values).map(([field, value]) => [field, value ?? UNSET_VALUES[field as RevisedField] ?? null])
+  ) as CalorieEntryUpdate;
+}
+
+// The recorded fields set back to the AI's original estimate
+export function valuesOfOriginalEstimate(original: OriginalEstimate): CalorieEntryUpdate {
+  return {
+    foodItem: original.foodItem,
+    calorieEstimate: original.calorieEstimate,
+    ...(original.macros ? { macros: original.macros } : {}),
+    ...(original.portionGrams !== null ? { portionGrams: original.portionGrams } : {}),
+  };
+}
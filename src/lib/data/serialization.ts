@@ -0,0 +1,33 @@
+// src/lib/data/serialization.ts
+import { Timestamp } from 'firebase/firestore';
+
+const isTimestamp = (value: unknown): value is Timestamp => value instanceof Timestamp;
+
+// Compare field values; Timestamps by time, everything else by content
+export const sameValue = (a: unknown, b: unknown): boolean => {
+  if (isTimestamp(a) || isTimestamp(b)) {
+    return isTimestamp(a) && isTimestamp(b) && a.toMillis() === b.toMillis();
+  }
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+};
+
+// Timestamps don't survive JSON or IndexedDB (they come back as plain objects),
+// so data saved on the device stores them as { __timestamp: millis }
+export const encodeTimestamps = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return { __timestamp: value.toMillis() };
+  if (Array.isArray(value)) return value.map(encodeTimestamps);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, encodeTimestamps(item)]));
+  }
+  return value;
+};
+
+export const decodeTimestamps = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(decodeTimestamps);
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (typeof record.__timestamp === 'number') return Timestamp.fromMillis(record.__timestamp);
+    return Object.fromEntries(Object.entries(record).map(([key, item]) => [key, decodeTimestamps(item)]));
+  }
+  return value;
+};
@@ -0,0 +1,39 @@
+// src/lib/data/trash.ts
+import { Timestamp } from 'firebase/firestore';
+import { subDays } from 'date-fns';
+import type { DataRepository } from '@/lib/data/repository';
+import type { Trash } from '@/lib/data/types';
+
+// Trashed entries are deleted for good after this many days
+export const TRASH_RETENTION_DAYS = 30;
+
+export const trashCalorieEntry = (repository: DataRepository, id: string) =>
+  repository.updateCalorieEntry(id, { deletedAt: Timestamp.now() });
+
+export const restoreCalorieEntry = (repository: DataRepository, id: string) =>
+  repository.updateCalorieEntry(id, { deletedAt: null });
+
+export const trashWaterEntries = (repository: DataRepository, ids: string[]) =>
+  repository.setWaterEntriesDeletedAt(ids, Timestamp.now());
+
+export const restoreWaterEntries = (repository: DataRepository, ids: string[]) =>
+  repository.setWaterEntriesDeletedAt(ids, null);
+
+// Date on which a trashed entry is purged
+export const purgeDate = (deletedAt: Timestamp) => new Date(deletedAt.toMillis() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+// Delete entries in the trash for good, photos included
+export async function purgeTrash(repository: DataRepository, trash: Trash) {
+  await Promise.all(trash.calorieEntries.map(entry => repository.deleteCalorieEntry(entry.id)));
+  if (trash.waterEntries.length > 0) await repository.deleteWaterEntries(trash.waterEntries.map(entry => entry.id));
+}
+
+// Purge entries that have been in the trash longer than the retention period. Returns how many were purged.
+export async function purgeExpiredTrash(repository: DataRepository, userId: string, now = new Date()): Promise<number> {
+  const cutoff = subDays(now, TRASH_RETENTION_DAYS).getTime();
+  const isExpired = (entry: { deletedAt?: Timestamp | null }) => !!entry.deletedAt && entry.deletedAt.toMillis() <= cutoff;
+  const trash = await repository.getTrash(userId);
+  const expired = { calorieEntries: trash.calorieEntries.filter(isExpired), waterEntries: trash.waterEntries.filter(isExpired) };
+  await purgeTrash(repository, expired);
+  return expired.calorieEntries.length + expired.waterEntries.length;
+}
@@ -0,0 +1,144 @@
+// src/lib/data/types.ts
+import type { Timestamp } from 'firebase/firestore';
+import type { DetectedFoodItem, EstimateCalorieCountOutput, EstimationMetadata, Macronutrients } from '@/ai/schemas';
+
+export type MealType = 'Breakfast' | 'Lunch' | 'Dinner' | 'Snack';
+export type HealthGoal = 'muscleGain' | 'fatLoss' | 'maintenance';
+
+// One "refine" round in the estimation dialog: the user's correction and how the estimate changed
+export interface EstimateRefinement {
+  correction: string;
+  before: { foodItem: string; calorieEstimate: number };
+  after: { foodItem: string; calorieEstimate: number };
+}
+
+// The AI's first estimate of a logged meal, never changed afterwards, so how far the user moved away
+// from the model can always be seen (and the estimate restored)
+export interface OriginalEstimate {
+  foodItem: string;
+  calorieEstimate: number;
+  confidence: number | null;
+  macros: Macronutrients | null;
+  portionGrams: number | null;
+}
+
+// How the AI produced a logged meal's estimate, kept to compare models and prompts (see ai-corrections.ts)
+export interface AiEstimationMetadata extends EstimationMetadata {
+  rawOutput: Omit<EstimateCalorieCountOutput, 'metadata'>; // Exactly as the flow returned it, before any refinement or edit
+  overridden: boolean; // The logged food, calories or nutrients differ from the raw output
+}
+
+// Fields of a calorie entry whose edits are recorded (see revisions.ts)
+export type RevisedField =
+  | 'foodItem'
+  | 'calorieEstimate'
+  | 'macros'
+  | 'items'
+  | 'portionGrams'
+  | 'timestamp'
+  | 'mealType'
+  | 'location'
+  | 'cost'
+  | 'notes';
+
+// One field changed by an edit; values are null when the field wasn't set
+export interface FieldChange {
+  field: RevisedField;
+  from: unknown;
+  to: unknown;
+}
+
+// One saved edit of a calorie entry
+export interface EntryRevision {
+  editedAt: Timestamp;
+  editedBy: string; // UID of the user who saved the edit
+  editedByName?: string | null; // Their display name when they saved it; older revisions don't have one
+  changes: FieldChange[];
+}
+
+// A logged meal (document in `calorieEntries`)
+export interface CalorieLogEntry {
+  id: string; // Document ID
+  userId: string;
+  foodItem: string;
+  calorieEstimate: number;
+  imageUrl: string | null; // Storage download URL of the full photo (older entries: data URL), null if no image
+  thumbnailUrl?: string | null; // Storage download URL of the thumbnail shown in the summary list
+  imagePath?: string | null; // Storage paths of the photo objects, used to delete them with the entry
+  thumbnailPath?: string | null;
+  timestamp: Timestamp;
+  mealType: MealType | null;
+  location: string | null;
+  cost: number | null;
+  notes?: string; // Optional user notes
+  confidence?: number; // AI confidence score (0-1)
+  macros?: Macronutrients; // Macronutrient breakdown (missing on entries logged before macros were tracked)
+  items?: DetectedFoodItem[]; // Individual items on the plate (missing on entries logged before multi-item recognition)
+  portionGrams?: number; // Estimated portion weight in grams, used to rescale calories and macros
+  servingUnit?: string; // Serving description, e.g. 一碗
+  caloriesPer100g?: number; // Calorie density from the AI estimate
+  barcode?: string | null; // Barcode of the packaged product, if logged by scanning
+  refinements?: EstimateRefinement[]; // Corrections the user sent to the AI before logging, oldest first
+  planned?: boolean; // Logged from a meal suggestion as a plan; not counted as eaten until marked so
+  nutritionistComment?: string;
+  originalEstimate?: OriginalEstimate; // Missing on entries not estimated by the AI (products, suggestions, imports)
+  aiMetadata?: AiEstimationMetadata; // Only on entries estimated after the metadata was introduced
+  revisions?: EntryRevision[]; // Saved edits, oldest first
+  updatedAt?: Timestamp; // Time of the last write, used to resolve edits made on two devices
+  deletedAt?: Timestamp | null; // Moved to the trash at this time; trashed entries only show up in the trash
+  pendingSync?: boolean; // Client-only: the entry has local changes that haven't reached the server yet
+}
+
+// A drink of water (document in `waterEntries`)
+export interface WaterLogEntry {
+  id: string; // Document ID
+  userId: string;
+  timestamp: Timestamp;
+  amount: number; // in ml
+  deletedAt?: Timestamp | null; // Moved to the trash at this time; trashed entries only show up in the trash
+  pendingSync?: boolean; // Client-only: logged on this device and not yet on the server
+}
+
+// Profile fields of the user document (in `users`, keyed by auth uid)
+export interface UserProfile {
+  id: string; // Document ID (the auth uid)
+  age: number | null;
+  gender: 'male' | 'female' | 'other' | null;
+  height: number | null; // cm
+  weight: number | null; // kg
+  activityLevel: 'sedentary' | 'light' | 'moderate' | 'active' | 'veryActive' | null;
+  healthGoal: HealthGoal | null;
+}
+
+// Account details copied from the auth provider on every sign-in
+export interface UserAccount {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  photoURL: string | null;
+}
+
+// Write inputs: the repository fills in `id`, `userId` and `updatedAt`
+export type NewCalorieEntry = Omit<CalorieLogEntry, 'id' | 'userId' | 'updatedAt' | 'pendingSync'>;
+export type CalorieEntryUpdate = Partial<NewCalorieEntry>;
+export type NewWaterEntry = Omit<WaterLogEntry, 'id' | 'userId' | 'pendingSync'>;
+export type ProfileUpdate = Partial<Omit<UserProfile, 'id'>>;
+
+// Entries in the trash, most recently deleted first
+export interface Trash {
+  calorieEntries: CalorieLogEntry[];
+  waterEntries: WaterLogEntry[];
+}
+
+// Documents and photos erased so far while deleting a user's data
+export interface DeletionProgress {
+  calorieEntries: number;
+  waterEntries: number;
+  photos: number; // Storage objects (full images and thumbnails)
+}
+
+// Half-open date range [start, end)
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
@@ -0,0 +1,621 @@
+// src/lib/data/write-queue.ts
+import { Timestamp } from 'firebase/firestore';
+import { encodeTimestamps, decodeTimestamps, sameValue } from '@/lib/data/serialization';
+import { openDatabase, requestResult } from '@/lib/data/indexed-db';
+import type { DataRepository, Unsubscribe } from '@/lib/data/repository';
+import type {
+  CalorieLogEntry,
+  WaterLogEntry,
+  UserProfile,
+  NewCalorieEntry,
+  CalorieEntryUpdate,
+  ProfileUpdate,
+  DateRange,
+  Trash,
+} from '@/lib/data/types';
+
+// A write that hasn't reached the server yet. Every operation is idempotent (IDs are generated up front),
+// so replaying one that did reach the server before the app closed is harmless.
+type PendingWrite =
+  | { kind: 'addCalorieEntry'; userId: string; id: string; entry: NewCalorieEntry; photoDataUrl: string | null }
+  // `base` holds the values the edited fields had before the edit, for the three-way merge when syncing
+  | { kind: 'updateCalorieEntry'; id: string; update: CalorieEntryUpdate; base: CalorieEntryUpdate; editedAt: number }
+  | { kind: 'deleteCalorieEntry'; id: string }
+  | { kind: 'addWaterEntry'; userId: string; id: string; amount: number; timestamp: Timestamp }
+  | { kind: 'setWaterEntriesDeletedAt'; ids: string[]; deletedAt: Timestamp | null }
+  | { kind: 'deleteWaterEntries'; ids: string[] }
+  | { kind: 'updateProfile'; userId: string; update: ProfileUpdate };
+
+interface QueuedWrite {
+  write: PendingWrite;
+  attempts: number; // Failed sync attempts so far
+  inFlight?: boolean; // Being sent; later changes to the same entry are queued separately
+}
+
+export interface SyncStatus {
+  online: boolean;
+  pendingCount: number; // Writes waiting to be synced
+  retrying: boolean; // The last sync attempt failed and will be retried
+}
+
+// Reported when a write couldn't be applied as made on this device
+export interface SyncIssue {
+  kind: 'merged' | 'dropped';
+  message: string;
+}
+
+export interface QueuedRepository extends DataRepository {
+  // Load the queue of the user who signed in (null when signed out); other users' queues stay stored
+  setUser(userId: string | null): Promise<void>;
+  subscribeSyncStatus(onChange: (status: SyncStatus) => void): Unsubscribe;
+  // Try to send the pending writes now instead of waiting for the next retry
+  syncNow(): void;
+}
+
+// Keeps each user's queue between sessions, in the form produced by encodeTimestamps
+export interface QueueStore {
+  load(userId: string): Promise<unknown>;
+  save(userId: string, queue: unknown): Promise<void>;
+}
+
+interface WriteQueueOptions {
+  store?: QueueStore | null; // IndexedDB by default; null keeps the queue in memory only
+  onIssue?: (issue: SyncIssue) => void;
+}
+
+const QUEUE_DB_NAME = 'caloriesnap-sync';
+const QUEUE_STORE_NAME = 'pendingWrites';
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+// Errors that retrying won't fix; the write is dropped and reported instead
+const PERMANENT_ERROR_CODES = ['permission-denied', 'invalid-argument', 'not-found', 'storage/unauthorized', 'storage/invalid-argument'];
+// Fields that are never written: the document ID, the owner and client-only state
+const UNWRITABLE_FIELDS = ['id', 'userId', 'updatedAt', 'pendingSync'];
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+const inRange = (timestamp: Timestamp, range: DateRange) => {
+  const millis = timestamp.toMillis();
+  return millis >= range.start.getTime() && millis < range.end.getTime();
+};
+
+// ID of the calorie entry a write applies to, if any
+const calorieEntryIdOf = (write: PendingWrite) =>
+  write.kind === 'addCalorieEntry' || write.kind === 'updateCalorieEntry' || write.kind === 'deleteCalorieEntry' ? write.id : null;
+
+const errorCode = (error: unknown) => (error as { code?: string } | null)?.code ?? '';
+
+// Queued meal photos are data URLs, far beyond the ~5 MB of localStorage, so queues are kept in IndexedDB.
+// They are keyed by uid: another account signing in on this device must not replay them.
+function createIndexedDbQueueStore(): QueueStore | null {
+  if (typeof indexedDB === 'undefined') return null;
+  const database = openDatabase(QUEUE_DB_NAME, QUEUE_STORE_NAME);
+  return {
+    load: async userId => requestResult((await database).transaction(QUEUE_STORE_NAME).objectStore(QUEUE_STORE_NAME).get(userId)),
+    async save(userId, queue) {
+      await requestResult((await database).transaction(QUEUE_STORE_NAME, 'readwrite').objectStore(QUEUE_STORE_NAME).put(queue, userId));
+    },
+  };
+}
+
+// Offline-first wrapper around a repository: writes are saved on this device and resolve right away,
+// then sent in order whenever the browser is online, retrying with backoff on failure. Reads and
+// subscriptions show pending writes on top of the server data, marked with `pendingSync`.
+// Edits are merged field by field with changes made on other devices in the meantime (see mergeUpdate).
+export function createQueuedRepository(inner: DataRepository, options: WriteQueueOptions = {}): QueuedRepository {
+  const store = options.store === undefined ? createIndexedDbQueueStore() : options.store;
+  let userId: string | null = null; // Whose queue this is
+  let loaded = true; // False while the user's stored queue is read
+  let queue: QueuedWrite[] = [];
+  let saving = Promise.resolve();
+  const knownCalorieEntries = new Map<string, CalorieLogEntry>(); // Last server version seen of each entry
+  const knownWaterEntries = new Map<string, WaterLogEntry>(); // Needed to show entries moved out of or into the trash
+  const viewListeners = new Set<() => void>();
+  const statusListeners = new Set<(status: SyncStatus) => void>();
+  let syncing = false;
+  let sending: Promise<unknown> = Promise.resolve(); // The write being sent, if any
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let retryAttempt = 0;
+
+  function saveQueue() {
+    // While loading, the stored queue is still to be read (and the writes made meanwhile appended to it)
+    if (!store || !userId || !loaded) return;
+    const owner = userId;
+    const encoded = encodeTimestamps(queue.map(({ write, attempts }) => ({ write, attempts })));
+    // Chained so an older queue never overwrites a newer one
+    saving = saving
+      .then(() => store.save(owner, encoded))
+      .catch(error => console.error("儲存待同步的寫入時發生錯誤:", error));
+  }
+
+  async function loadQueue(owner: string): Promise<QueuedWrite[]> {
+    if (!store) return [];
+    try {
+      const stored = await store.load(owner);
+      return stored ? (decodeTimestamps(stored) as QueuedWrite[]).map(({ write, attempts }) => ({ write, attempts })) : [];
+    } catch (error) {
+      console.error("讀取待同步的寫入時發生錯誤:", error);
+      return [];
+    }
+  }
+
+  function status(): SyncStatus {
+    return { online: isOnline(), pendingCount: queue.length, retrying: retryTimer !== null };
+  }
+
+  function changed() {
+    saveQueue();
+    viewListeners.forEach(listener => listener());
+    const current = status();
+    statusListeners.forEach(listener => listener(current));
+  }
+
+  function enqueue(write: PendingWrite) {
+    queue.push({ write, attempts: 0 });
+    changed();
+    void sync();
+  }
+
+  // Queued writes that can still be changed (not being sent right now)
+  const waiting = () => queue.filter(item => !item.inFlight);
+
+  // --- Local view: server data with pending writes applied ---
+
+  function applyToCalorieEntries(entries: CalorieLogEntry[], userId: string, range: DateRange): CalorieLogEntry[] {
+    const byId = new Map(entries.map(entry => [entry.id, entry]));
+    queue.forEach(({ write }) => {
+      switch (write.kind) {
+        case 'addCalorieEntry': {
+          if (write.userId !== userId) break;
+          // Show the photo from the queue until it is uploaded
+          const photo = write.photoDataUrl ? { imageUrl: write.photoDataUrl, thumbnailUrl: write.photoDataUrl } : {};
+          const entry = { ...write.entry, ...photo, id: write.id, userId, pendingSync: true };
+          if (inRange(entry.timestamp, range)) byId.set(write.id, entry);
+          else byId.delete(write.id);
+          break;
+        }
+        case 'updateCalorieEntry': {
+          // The edit may have moved the entry into this range from another one
+          const current = byId.get(write.id) ?? knownCalorieEntries.get(write.id);
+          if (!current || current.userId !== userId) break;
+          const entry = { ...current, ...write.update, pendingSync: true };
+          if (inRange(entry.timestamp, range)) byId.set(write.id, entry);
+          else byId.delete(write.id);
+          break;
+        }
+        case 'deleteCalorieEntry':
+          byId.delete(write.id);
+          break;
+      }
+    });
+    return Array.from(byId.values())
+      .filter(entry => !entry.deletedAt)
+      .sort((a, b) => b.timestamp.toMillis() - a.timestamp.toMillis());
+  }
+
+  function applyToWaterEntries(entries: WaterLogEntry[], userId: string, range: DateRange): WaterLogEntry[] {
+    const byId = new Map(entries.map(entry => [entry.id, entry]));
+    queue.forEach(({ write }) => {
+      if (write.kind === 'addWaterEntry' && write.userId === userId && inRange(write.timestamp, range)) {
+        byId.set(write.id, { id: write.id, userId, timestamp: write.timestamp, amount: write.amount, pendingSync: true });
+      } else if (write.kind === 'setWaterEntriesDeletedAt') {
+        write.ids.forEach(id => {
+          const known = knownWaterEntries.get(id);
+          if (write.deletedAt) byId.delete(id);
+          else if (known && known.userId === userId && inRange(known.timestamp, range)) byId.set(id, { ...known, deletedAt: null, pendingSync: true });
+        });
+      } else if (write.kind === 'deleteWaterEntries') {
+        write.ids.forEach(id => byId.delete(id));
+      }
+    });
+    return Array.from(byId.values());
+  }
+
+  function applyToTrash(trash: Trash, userId: string): Trash {
+    const calorieById = new Map(trash.calorieEntries.map(entry => [entry.id, entry]));
+    const waterById = new Map(trash.waterEntries.map(entry => [entry.id, entry]));
+    const unsentWater = new Map<string, WaterLogEntry>();
+    queue.forEach(({ write }) => {
+      switch (write.kind) {
+        case 'addCalorieEntry':
+          // Trashed before it was sent
+          if (write.userId === userId && write.entry.deletedAt) calorieById.set(write.id, { ...write.entry, id: write.id, userId, pendingSync: true });
+          break;
+        case 'updateCalorieEntry': {
+          if (!('deletedAt' in write.update)) break;
+          const current = calorieById.get(write.id) ?? knownCalorieEntries.get(write.id);
+          if (write.update.deletedAt && current?.userId === userId) calorieById.set(write.id, { ...current, ...write.update, pendingSync: true });
+          else calorieById.delete(write.id);
+          break;
+        }
+        case 'deleteCalorieEntry':
+          calorieById.delete(write.id);
+          break;
+        case 'addWaterEntry':
+          unsentWater.set(write.id, { id: write.id, userId: write.userId, timestamp: write.timestamp, amount: write.amount });
+          break;
+        case 'setWaterEntriesDeletedAt':
+          write.ids.forEach(id => {
+            const known = waterById.get(id) ?? knownWaterEntries.get(id) ?? unsentWater.get(id);
+            if (write.deletedAt && known?.userId === userId) waterById.set(id, { ...known, deletedAt: write.deletedAt, pendingSync: true });
+            else waterById.delete(id);
+          });
+          break;
+        case 'deleteWaterEntries':
+          write.ids.forEach(id => waterById.delete(id));
+          break;
+      }
+    });
+    const mostRecentlyDeletedFirst = (a: { deletedAt?: Timestamp | null }, b: { deletedAt?: Timestamp | null }) =>
+      (b.deletedAt?.toMillis() ?? 0) - (a.deletedAt?.toMillis() ?? 0);
+    return {
+      calorieEntries: Array.from(calorieById.values()).sort(mostRecentlyDeletedFirst),
+      waterEntries: Array.from(waterById.values()).sort(mostRecentlyDeletedFirst),
+    };
+  }
+
+  function applyToProfile(profile: UserProfile | null, userId: string): UserProfile | null {
+    return queue.reduce<UserProfile | null>((current, { write }) =>
+      write.kind === 'updateProfile' && write.userId === userId && current ? { ...current, ...write.update } : current,
+      profile);
+  }
+
+  // The entry as shown on this device (server version plus pending writes), or undefined if unknown
+  function localCalorieEntry(id: string): CalorieLogEntry | undefined {
+    let entry = knownCalorieEntries.get(id);
+    queue.forEach(({ write }) => {
+      if (write.kind === 'addCalorieEntry' && write.id === id) entry = { ...write.entry, id, userId: write.userId };
+      else if (write.kind === 'updateCalorieEntry' && write.id === id && entry) entry = { ...entry, ...write.update };
+      else if (write.kind === 'deleteCalorieEntry' && write.id === id) entry = undefined;
+    });
+    return entry;
+  }
+
+  function remember(entries: CalorieLogEntry[]) {
+    entries.forEach(entry => knownCalorieEntries.set(entry.id, entry));
+  }
+
+  function rememberWater(entries: WaterLogEntry[]) {
+    entries.forEach(entry => knownWaterEntries.set(entry.id, entry));
+  }
+
+  // --- Sync ---
+
+  // Three-way merge of a queued edit with the server version: fields only this device changed are written,
+  // fields only the other device changed are kept (they aren't part of the update), and fields both changed
+  // go to whichever edit is newer.
+  function mergeUpdate(write: Extract<PendingWrite, { kind: 'updateCalorieEntry' }>, server: CalorieLogEntry) {
+    const merged: Record<string, unknown> = {};
+    let conflicts = 0;
+    Object.entries(write.update).forEach(([field, value]) => {
+      const serverValue = server[field as keyof CalorieLogEntry];
+      if (sameValue(serverValue, value)) return; // Already there
+      if (!(field in write.base) || sameValue(serverValue, write.base[field as keyof CalorieEntryUpdate])) {
+        merged[field] = value; // The other device didn't touch this field
+        return;
+      }
+      conflicts++;
+      const serverEditedAt = server.updatedAt?.toMillis() ?? 0;
+      if (write.editedAt >= serverEditedAt) merged[field] = value;
+    });
+    return { update: merged as CalorieEntryUpdate, conflicts };
+  }
+
+  async function send(write: PendingWrite) {
+    switch (write.kind) {
+      case 'addCalorieEntry':
+        await inner.addCalorieEntry(write.userId, write.entry, { id: write.id, photoDataUrl: write.photoDataUrl });
+        break;
+      case 'updateCalorieEntry': {
+        const server = await inner.getCalorieEntry(write.id);
+        if (!server) {
+          options.onIssue?.({ kind: 'dropped', message: '這筆記錄已在其他裝置上刪除，此裝置的修改未儲存。' });
+          return;
+        }
+        const { update, conflicts } = mergeUpdate(write, server);
+        if (Object.keys(update).length > 0) await inner.updateCalorieEntry(write.id, update);
+        if (conflicts > 0) {
+          options.onIssue?.({ kind: 'merged', message: `「${server.foodItem}」也在其他裝置上修改過，已合併兩邊的變更 (同一欄位以較新的修改為準)。` });
+        }
+        break;
+      }
+      case 'deleteCalorieEntry':
+        await inner.deleteCalorieEntry(write.id);
+        break;
+      case 'addWaterEntry':
+        await inner.addWaterEntry(write.userId, write.amount, { id: write.id, timestamp: write.timestamp });
+        break;
+      case 'setWaterEntriesDeletedAt':
+        await inner.setWaterEntriesDeletedAt(write.ids, write.deletedAt);
+        break;
+      case 'deleteWaterEntries':
+        await inner.deleteWaterEntries(write.ids);
+        break;
+      case 'updateProfile':
+        await inner.updateProfile(write.userId, write.update);
+        break;
+    }
+  }
+
+  function scheduleRetry() {
+    if (retryTimer) return;
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** retryAttempt, RETRY_MAX_DELAY_MS);
+    retryAttempt++;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      void sync();
+    }, delay);
+  }
+
+  // Send queued writes one at a time, in the order they were made
+  async function sync() {
+    if (syncing || !loaded || !isOnline()) return;
+    syncing = true;
+    try {
+      while (loaded && queue.length > 0) {
+        const item = queue[0];
+        item.inFlight = true;
+        try {
+          sending = send(item.write);
+          await sending;
+          retryAttempt = 0;
+          queue = queue.filter(other => other !== item);
+          changed();
+        } catch (error) {
+          item.inFlight = false;
+          item.attempts++;
+          if (PERMANENT_ERROR_CODES.includes(errorCode(error))) {
+            console.error("同步寫入失敗，已放棄此筆變更:", item.write, error);
+            queue = queue.filter(other => other !== item);
+            changed();
+            options.onIssue?.({ kind: 'dropped', message: '有一筆變更無法同步到伺服器，已捨棄。' });
+            continue;
+          }
+          console.warn(`同步寫入失敗 (第 ${item.attempts} 次)，稍後重試:`, error);
+          scheduleRetry();
+          changed();
+          return;
+        }
+      }
+    } finally {
+      syncing = false;
+    }
+  }
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => {
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      retryAttempt = 0;
+      changed();
+      void sync();
+    });
+    window.addEventListener('offline', changed);
+  }
+
+  // Subscribe to an inner listener and re-emit its latest result whenever the queue changes
+  function overlay<T>(subscribe: (emit: (value: T) => void) => Unsubscribe, render: (value: T) => void): Unsubscribe {
+    let latest: { value: T } | null = null;
+    const rerender = () => {
+      if (latest) render(latest.value);
+    };
+    viewListeners.add(rerender);
+    const unsubscribe = subscribe(value => {
+      latest = { value };
+      rerender();
+    });
+    return () => {
+      viewListeners.delete(rerender);
+      unsubscribe();
+    };
+  }
+
+  return {
+    recordSignIn: account => inner.recordSignIn(account),
+
+    async setUser(nextUserId) {
+      if (nextUserId === userId) return;
+      // The previous user's queue is already stored. A write of theirs that is being sent finishes on its own;
+      // if it stays in their stored queue, replaying it later is harmless.
+      userId = nextUserId;
+      queue = [];
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      retryAttempt = 0;
+      if (!nextUserId) {
+        loaded = true;
+        changed();
+        return;
+      }
+      loaded = false;
+      changed();
+      const stored = await loadQueue(nextUserId);
+      if (userId !== nextUserId) return; // Switched again meanwhile
+      queue = [...stored, ...queue]; // Writes made while loading come last
+      loaded = true;
+      changed();
+      void sync(); // Writes left over from the last session
+    },
+
+    subscribeProfile(userId, onChange, onError) {
+      return overlay<UserProfile | null>(
+        emit => inner.subscribeProfile(userId, emit, onError),
+        profile => onChange(applyToProfile(profile, userId))
+      );
+    },
+
+    async updateProfile(userId, update) {
+      // Later edits of the profile are folded into a waiting one
+      const pending = waiting().find(item => item.write.kind === 'updateProfile' && item.write.userId === userId);
+      if (pending && pending.write.kind === 'updateProfile') {
+        pending.write.update = { ...pending.write.update, ...update };
+        changed();
+        void sync();
+      } else {
+        enqueue({ kind: 'updateProfile', userId, update });
+      }
+    },
+
+    subscribeCalorieEntries(userId, range, pageSize, onChange, onError) {
+      return overlay<{ entries: CalorieLogEntry[]; hasMore: boolean }>(
+        emit => inner.subscribeCalorieEntries(userId, range, pageSize, (entries, hasMore) => {
+          remember(entries);
+          emit({ entries, hasMore });
+        }, onError),
+        ({ entries, hasMore }) => onChange(applyToCalorieEntries(entries, userId, range), hasMore)
+      );
+    },
+
+    async getCalorieEntries(userId, range) {
+      const entries = await inner.getCalorieEntries(userId, range);
+      remember(entries);
+      return applyToCalorieEntries(entries, userId, range);
+    },
+
+    async getCalorieEntry(id) {
+      const entry = await inner.getCalorieEntry(id);
+      if (entry) remember([entry]);
+      return localCalorieEntry(id) ?? null;
+    },
+
+    newEntryId: () => inner.newEntryId(),
+
+    async addCalorieEntry(userId, entry, { id = inner.newEntryId(), photoDataUrl = null } = {}) {
+      enqueue({ kind: 'addCalorieEntry', userId, id, entry, photoDataUrl });
+      return id;
+    },
+
+    async updateCalorieEntry(id, update) {
+      const local = localCalorieEntry(id);
+      // Only write fields that actually change
+      const changes = Object.fromEntries(
+        Object.entries(update).filter(([field, value]) =>
+          !UNWRITABLE_FIELDS.includes(field) && (!local || !sameValue(local[field as keyof CalorieLogEntry], value)))
+      ) as CalorieEntryUpdate;
+      if (Object.keys(changes).length === 0) return;
+
+      const pending = waiting().filter(item => calorieEntryIdOf(item.write) === id).pop();
+      if (pending?.write.kind === 'addCalorieEntry') {
+        // Not on the server yet: change the entry that will be added
+        pending.write.entry = { ...pending.write.entry, ...changes };
+      } else if (pending?.write.kind === 'updateCalorieEntry') {
+        // Fold into the waiting edit, keeping the values from before the first edit as its base
+        const base = { ...pending.write.base };
+        Object.keys(changes).forEach(field => {
+          if (!(field in base)) (base as Record<string, unknown>)[field] = local?.[field as keyof CalorieLogEntry];
+        });
+        pending.write.update = { ...pending.write.update, ...changes };
+        pending.write.base = base;
+        pending.write.editedAt = Date.now();
+      } else {
+        // Without a known version every changed field counts as changed only here
+        const base = local
+          ? Object.fromEntries(Object.keys(changes).map(field => [field, local[field as keyof CalorieLogEntry]])) as CalorieEntryUpdate
+          : {};
+        enqueue({ kind: 'updateCalorieEntry', id, update: changes, base, editedAt: Date.now() });
+        return;
+      }
+      changed();
+      void sync();
+    },
+
+    async deleteCalorieEntry(id) {
+      const pendingAdd = waiting().find(item => item.write.kind === 'addCalorieEntry' && item.write.id === id);
+      if (pendingAdd) {
+        // Never reached the server: forget it and its edits
+        queue = queue.filter(item => item.inFlight || calorieEntryIdOf(item.write) !== id);
+        changed();
+        return;
+      }
+      enqueue({ kind: 'deleteCalorieEntry', id });
+    },
+
+    subscribeWaterEntries(userId, range, onChange, onError) {
+      return overlay<WaterLogEntry[]>(
+        emit => inner.subscribeWaterEntries(userId, range, entries => {
+          rememberWater(entries);
+          emit(entries);
+        }, onError),
+        entries => onChange(applyToWaterEntries(entries, userId, range))
+      );
+    },
+
+    async getWaterEntries(userId, range) {
+      const entries = await inner.getWaterEntries(userId, range);
+      rememberWater(entries);
+      return applyToWaterEntries(entries, userId, range);
+    },
+
+    async addWaterEntry(userId, amount, { id = inner.newEntryId(), timestamp = Timestamp.now() } = {}) {
+      enqueue({ kind: 'addWaterEntry', userId, id, amount, timestamp });
+      return id;
+    },
+
+    async deleteWaterEntries(ids) {
+      // Drinks that never reached the server are just forgotten
+      const unsent = new Set(
+        waiting().flatMap(item => (item.write.kind === 'addWaterEntry' && ids.includes(item.write.id) ? [item.write.id] : []))
+      );
+      queue = queue.filter(item => !(item.write.kind === 'addWaterEntry' && unsent.has(item.write.id) && !item.inFlight));
+      const sent = ids.filter(id => !unsent.has(id));
+      if (sent.length > 0) enqueue({ kind: 'deleteWaterEntries', ids: sent });
+      else changed();
+    },
+
+    async setWaterEntriesDeletedAt(ids, deletedAt) {
+      enqueue({ kind: 'setWaterEntriesDeletedAt', ids, deletedAt });
+    },
+
+    subscribeTrash(userId, onChange, onError) {
+      return overlay<Trash>(
+        emit => inner.subscribeTrash(userId, trash => {
+          remember(trash.calorieEntries);
+          rememberWater(trash.waterEntries);
+          emit(trash);
+        }, onError),
+        trash => onChange(applyToTrash(trash, userId))
+      );
+    },
+
+    async getTrash(userId) {
+      const trash = await inner.getTrash(userId);
+      remember(trash.calorieEntries);
+      rememberWater(trash.waterEntries);
+      return applyToTrash(trash, userId);
+    },
+
+    async addEntries(userId, entries) {
+      // Imports can hold thousands of entries, too many to queue on this device; they need a connection
+      if (!isOnline()) throw new Error("Bulk writes need a network connection.");
+      await inner.addEntries(userId, entries);
+    },
+
+    async deleteUserData(userId, onProgress) {
+      if (!isOnline()) throw new Error("Deleting user data needs a network connection.");
+      // Pending writes would recreate documents after they are deleted. The queue only holds writes
+      // made on this device, by the user who is deleting their data.
+      queue = queue.filter(item => item.inFlight);
+      changed();
+      await sending.catch(() => {}); // A write already on its way has to land before it can be deleted
+      queue = []; // Unless it failed, in which case it must not be retried
+      changed();
+      await inner.deleteUserData(userId, onProgress);
+    },
+
+    subscribeSyncStatus(onChange) {
+      statusListeners.add(onChange);
+      onChange(status());
+      return () => {
+        statusListeners.delete(onChange);
+      };
+    },
+
+    syncNow() {
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      retryAttempt = 0;
+      changed();
+      void sync();
+    },
+  };
+}
@@ -0,0 +1,18 @@
+// src/lib/firebase/admin.ts
+// Firebase Admin SDK for server code only (server actions). It bypasses the security rules.
+import { getApps, initializeApp, type App } from 'firebase-admin/app';
+import { getAuth, type Auth } from 'firebase-admin/auth';
+import { getFirestore, type Firestore } from 'firebase-admin/firestore';
+
+// Credentials come from the environment (Application Default Credentials): the service account on
+// Firebase App Hosting / Cloud Run, or GOOGLE_APPLICATION_CREDENTIALS locally. Verifying ID tokens only
+// needs the project ID; Firestore needs credentials, or FIRESTORE_EMULATOR_HOST for the emulator.
+function adminApp(): App {
+  return getApps()[0] ?? initializeApp({
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ?? process.env.GOOGLE_CLOUD_PROJECT,
+  });
+}
+
+export const adminAuth = (): Auth => getAuth(adminApp());
+
+export const adminDb = (): Firestore => getFirestore(adminApp());
@@ -2,6 +2,7 @@
 import { initializeApp, getApps, getApp, FirebaseApp } from 'firebase/app';
 import { getAuth, Auth } from 'firebase/auth';
 import { getFirestore, Firestore, initializeFirestore, persistentLocalCache, FirestoreSettings, CACHE_SIZE_UNLIMITED } from 'firebase/firestore'; // Import Firestore persistence functions
+import { getStorage, connectStorageEmulator, FirebaseStorage } from 'firebase/storage';
 
 // Log environment variables being read (for debugging)
 console.log("Reading Firebase config from environment variables:");
@@ -95,9 +96,10 @@ try {
 }
 
 
-// --- Initialize Auth and Firestore ---
+// --- Initialize Auth, Firestore and Storage ---
 let auth: Auth | null = null; // Initialize as null
 let db: Firestore | null = null; // Initialize as null
+let storage: FirebaseStorage | null = null; // Initialize as null
 
 if (app) { // Only proceed if app was successfully initialized or retrieved.
     try {
@@ -128,10 +130,26 @@ if (app) { // Only proceed if app was successfully initialized or retrieved.
             db = null; // Ensure db is null if all initialization fails
         }
     }
+
+    try {
+        storage = getStorage(app);
+        // Use the local Storage emulator (e.g. "127.0.0.1:9199") instead of the real bucket when configured
+        const storageEmulatorHost = process.env.NEXT_PUBLIC_FIREBASE_STORAGE_EMULATOR_HOST;
+        if (storageEmulatorHost) {
+            const [host, port] = storageEmulatorHost.split(':');
+            connectStorageEmulator(storage, host, Number(port) || 9199);
+            console.log(`Firebase Storage connected to emulator at ${storageEmulatorHost}.`);
+        } else {
+            console.log("Firebase Storage service obtained.");
+        }
+    } catch (error) {
+        console.error("!!! Error getting Firebase Storage instance:", error);
+        storage = null; // Ensure storage is null if getting it fails
+    }
 } else {
-    console.error("!!! Cannot get Auth/Firestore because Firebase App is not initialized. !!!");
+    console.error("!!! Cannot get Auth/Firestore/Storage because Firebase App is not initialized. !!!");
 }
 
 
-// Export potentially null app, auth and db, requiring checks where used.
-export { app, auth, db };
+// Export potentially null app, auth, db and storage, requiring checks where used.
+export { app, auth, db, storage };
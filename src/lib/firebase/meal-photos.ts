@@ -0,0 +1,113 @@
+// src/lib/firebase/meal-photos.ts
+import { ref, uploadString, getDownloadURL, deleteObject, listAll, type FirebaseStorage } from 'firebase/storage';
+import type { DataRepository } from '@/lib/data/repository';
+
+// Storage references saved on a calorie entry instead of the image data itself
+export interface MealPhotoRefs {
+  imageUrl: string; // Download URL of the full image (zoom modal)
+  thumbnailUrl: string; // Download URL of the thumbnail (summary list)
+  imagePath: string; // Storage paths, used to delete the objects with the entry
+  thumbnailPath: string;
+}
+
+const THUMBNAIL_MAX_SIZE = 240; // Longest side in px; list thumbnails are at most 80 px, leave room for high-DPI screens
+const THUMBNAIL_QUALITY = 0.8;
+const CACHE_CONTROL = 'private, max-age=31536000'; // Photos never change once uploaded
+
+const mealPhotoFolder = (userId: string) => `users/${userId}/meals`;
+
+export function isDataUrl(url: string | null | undefined): url is string {
+  return !!url && url.startsWith('data:');
+}
+
+// Downscale an image data URL to a JPEG thumbnail using a canvas
+export function createThumbnail(dataUrl: string, maxSize = THUMBNAIL_MAX_SIZE): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('無法建立縮圖 (無法取得 canvas context)。'));
+        return;
+      }
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY));
+    };
+    image.onerror = () => reject(new Error('無法載入影像以建立縮圖。'));
+    image.src = dataUrl;
+  });
+}
+
+// Upload the full photo and a generated thumbnail under the user's folder
+export async function uploadMealPhoto(
+  storage: FirebaseStorage,
+  userId: string,
+  photoId: string, // Usually the calorie entry's document ID
+  dataUrl: string
+): Promise<MealPhotoRefs> {
+  const imagePath = `${mealPhotoFolder(userId)}/${photoId}.jpg`;
+  const thumbnailPath = `${mealPhotoFolder(userId)}/${photoId}_thumb.jpg`;
+  const thumbnailDataUrl = await createThumbnail(dataUrl);
+
+  const [imageSnapshot, thumbnailSnapshot] = await Promise.all([
+    uploadString(ref(storage, imagePath), dataUrl, 'data_url', { cacheControl: CACHE_CONTROL }),
+    uploadString(ref(storage, thumbnailPath), thumbnailDataUrl, 'data_url', { cacheControl: CACHE_CONTROL }),
+  ]);
+  const [imageUrl, thumbnailUrl] = await Promise.all([
+    getDownloadURL(imageSnapshot.ref),
+    getDownloadURL(thumbnailSnapshot.ref),
+  ]);
+
+  return { imageUrl, thumbnailUrl, imagePath, thumbnailPath };
+}
+
+// Delete an entry's photo objects; objects that are already gone are ignored
+export async function deleteMealPhoto(
+  storage: FirebaseStorage,
+  paths: { imagePath?: string | null; thumbnailPath?: string | null }
+): Promise<void> {
+  const targets = [paths.imagePath, paths.thumbnailPath].filter((path): path is string => !!path);
+  await Promise.all(
+    targets.map(path =>
+      deleteObject(ref(storage, path)).catch(error => {
+        if (error?.code !== 'storage/object-not-found') throw error;
+      })
+    )
+  );
+}
+
+// Delete every object in the user's photo folder, including photos whose entry is already gone
+// (e.g. an upload that was never saved). Returns the number of objects deleted.
+export async function deleteAllMealPhotos(storage: FirebaseStorage, userId: string): Promise<number> {
+  const { items } = await listAll(ref(storage, mealPhotoFolder(userId)));
+  await Promise.all(items.map(item => deleteObject(item)));
+  return items.length;
+}
+
+// Move photos of entries logged before Storage was used (data URLs inside the document) to Storage.
+// Entries are migrated one at a time; failures are logged and retried on the next run.
+export async function migrateDataUrlPhotos(
+  repository: DataRepository,
+  storage: FirebaseStorage,
+  userId: string,
+  entries: { id: string; imageUrl: string | null }[]
+): Promise<{ migrated: number; failed: number }> {
+  let migrated = 0;
+  let failed = 0;
+  for (const entry of entries) {
+    if (!isDataUrl(entry.imageUrl)) continue;
+    try {
+      const photoRefs = await uploadMealPhoto(storage, userId, entry.id, entry.imageUrl);
+      await repository.updateCalorieEntry(entry.id, { ...photoRefs });
+      migrated++;
+    } catch (error) {
+      console.error(`遷移記錄 ${entry.id} 的照片時發生錯誤:`, error);
+      failed++;
+    }
+  }
+  return { migrated, failed };
+}
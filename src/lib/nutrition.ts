@@ -0,0 +1,111 @@
+import type { DetectedFoodItem, Macronutrients, NutritionLabel } from '@/ai/schemas';
+
+// Display metadata for each macronutrient field, in the order they are shown in forms
+export const macroFields: { key: keyof Macronutrients; label: string; unit: string }[] = [
+  { key: 'protein', label: '蛋白質', unit: '克' },
+  { key: 'carbohydrates', label: '碳水化合物', unit: '克' },
+  { key: 'fat', label: '脂肪', unit: '克' },
+  { key: 'fiber', label: '膳食纖維', unit: '克' },
+  { key: 'sugar', label: '糖', unit: '克' },
+  { key: 'sodium', label: '鈉', unit: '毫克' },
+];
+
+export const emptyMacros: Macronutrients = {
+  protein: 0,
+  carbohydrates: 0,
+  fat: 0,
+  fiber: 0,
+  sugar: 0,
+  sodium: 0,
+};
+
+// Parse a macro input value, clamping invalid or negative input to 0
+export function parseMacroValue(value: string): number {
+  const parsed = parseFloat(value);
+  if (isNaN(parsed) || parsed < 0) return 0;
+  return parsed;
+}
+
+// Format a macro value for display (one decimal place, trailing zero removed)
+export function formatMacroValue(value: number | undefined): string {
+  if (value === undefined || isNaN(value)) return '0';
+  return String(Math.round(value * 10) / 10);
+}
+
+// Add up a list of macro breakdowns field by field
+export function sumMacros(list: (Macronutrients | undefined)[]): Macronutrients {
+  return list.reduce<Macronutrients>((total, macros) => {
+    if (!macros) return total;
+    return {
+      protein: total.protein + (macros.protein || 0),
+      carbohydrates: total.carbohydrates + (macros.carbohydrates || 0),
+      fat: total.fat + (macros.fat || 0),
+      fiber: total.fiber + (macros.fiber || 0),
+      sugar: total.sugar + (macros.sugar || 0),
+      sodium: total.sodium + (macros.sodium || 0),
+    };
+  }, { ...emptyMacros });
+}
+
+// Total calories and macros of the given food items
+export function summarizeItems(items: DetectedFoodItem[]): { calorieEstimate: number; macros: Macronutrients } {
+  return {
+    calorieEstimate: items.reduce((total, item) => total + (item.calorieEstimate || 0), 0),
+    macros: sumMacros(items.map(item => item.macros)),
+  };
+}
+
+// Multiply every macro value by the given factor
+export function scaleMacros(macros: Macronutrients, factor: number): Macronutrients {
+  return {
+    protein: macros.protein * factor,
+    carbohydrates: macros.carbohydrates * factor,
+    fat: macros.fat * factor,
+    fiber: macros.fiber * factor,
+    sugar: macros.sugar * factor,
+    sodium: macros.sodium * factor,
+  };
+}
+
+interface ScalableNutrition {
+  calorieEstimate: number;
+  macros?: Macronutrients;
+  items?: DetectedFoodItem[];
+  portionGrams?: number;
+}
+
+// Rescale calories, macros and items proportionally to a new portion weight.
+// Without a known previous weight there is nothing to scale from, so only the weight is updated.
+export function scaleToPortion<T extends ScalableNutrition>(nutrition: T, newPortionGrams: number): T {
+  const previousGrams = nutrition.portionGrams ?? 0;
+  if (previousGrams <= 0) {
+    return { ...nutrition, portionGrams: newPortionGrams };
+  }
+  const factor = newPortionGrams / previousGrams;
+  const scaled: T = {
+    ...nutrition,
+    portionGrams: newPortionGrams,
+    calorieEstimate: Math.round(nutrition.calorieEstimate * factor),
+  };
+  // Only set optional fields that exist: Firestore rejects undefined field values
+  if (nutrition.macros) {
+    scaled.macros = scaleMacros(nutrition.macros, factor);
+  }
+  if (nutrition.items) {
+    scaled.items = nutrition.items.map(item => ({
+      ...item,
+      calorieEstimate: Math.round(item.calorieEstimate * factor),
+      macros: scaleMacros(item.macros, factor),
+    }));
+  }
+  return scaled;
+}
+
+// Calories, macros and weight for a number of servings read from a nutrition label
+export function nutritionForServings(label: NutritionLabel, servings: number): { calorieEstimate: number; macros: Macronutrients; portionGrams: number } {
+  return {
+    calorieEstimate: Math.round(label.perServing.calories * servings),
+    macros: scaleMacros(label.perServing.macros, servings),
+    portionGrams: Math.round(label.servingGrams * servings),
+  };
+}
@@ -0,0 +1,36 @@
+import type { Macronutrients } from '@/ai/schemas';
+import sampleProducts from '@/data/sample-packaged-foods.json';
+
+// A packaged food looked up by barcode; nutrition values are per serving
+export interface PackagedProduct {
+  barcode: string;
+  name: string;
+  servingDescription: string; // e.g. "1 包"、"400 毫升 / 瓶"
+  servingGrams: number;
+  calories: number;
+  macros: Macronutrients;
+  sample?: boolean; // From the bundled sample list: illustrative values, not read from a real label
+}
+
+// Products created by the user for barcodes missing from the sample list, keyed by barcode
+export type CustomProducts = Record<string, PackagedProduct>;
+
+// localStorage key for user-created products
+export const CUSTOM_PRODUCTS_STORAGE_KEY = 'customProducts';
+
+// Made-up products that demonstrate the barcode lookup. Their barcodes use the GS1 prefix 200, which is
+// reserved for in-store use, so they never match a product on sale.
+const sampleProductsByBarcode = new Map<string, PackagedProduct>(
+  (sampleProducts.products as PackagedProduct[]).map(product => [product.barcode, { ...product, sample: true }])
+);
+
+// Strip whitespace and dashes from a scanned or typed barcode
+export function normalizeBarcode(barcode: string): string {
+  return barcode.replace(/[\s-]/g, '');
+}
+
+// User-created products take precedence so users can replace sample data
+export function findProductByBarcode(barcode: string, customProducts: CustomProducts): PackagedProduct | null {
+  const normalized = normalizeBarcode(barcode);
+  return customProducts[normalized] ?? sampleProductsByBarcode.get(normalized) ?? null;
+}
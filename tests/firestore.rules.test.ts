@@ -0,0 +1,240 @@
+// tests/firestore.rules.test.ts
+// Security rule tests, run against the Firestore emulator: npm run test:rules
+import { readFileSync } from 'node:fs';
+import { after, afterEach, before, describe, test } from 'node:test';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestContext,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  type Firestore,
+} from 'firebase/firestore';
+
+const ALICE = 'alice';
+const BOB = 'bob';
+
+let testEnv: RulesTestEnvironment;
+
+// The test contexts hand out compat instances, which the modular API accepts as well
+const firestoreOf = (context: RulesTestContext) => context.firestore() as unknown as Firestore;
+const asAlice = () => firestoreOf(testEnv.authenticatedContext(ALICE));
+const asBob = () => firestoreOf(testEnv.authenticatedContext(BOB));
+const asGuest = () => firestoreOf(testEnv.unauthenticatedContext());
+
+// Seed documents as the admin would, bypassing the rules
+const seed = (path: string, data: Record<string, unknown>) =>
+  testEnv.withSecurityRulesDisabled(context => setDoc(doc(firestoreOf(context), path), data));
+
+// Shapes written by the Firestore repository
+const newProfile = (uid: string) => ({
+  uid,
+  email: `${uid}@example.com`,
+  displayName: uid,
+  photoURL: null,
+  createdAt: Timestamp.now(),
+  lastLogin: Timestamp.now(),
+  age: null,
+  gender: null,
+  height: null,
+  weight: null,
+  activityLevel: null,
+  healthGoal: null,
+});
+
+const calorieEntry = (userId: string, overrides: Record<string, unknown> = {}) => ({
+  userId,
+  foodItem: '牛肉麵',
+  calorieEstimate: 650,
+  imageUrl: null,
+  timestamp: Timestamp.now(),
+  mealType: 'Lunch',
+  location: null,
+  cost: 180,
+  updatedAt: Timestamp.now(),
+  ...overrides,
+});
+
+const waterEntry = (userId: string, amount: unknown = 250) => ({ userId, timestamp: Timestamp.now(), amount });
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-caloriesnap',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+  });
+});
+
+afterEach(() => testEnv.clearFirestore());
+
+after(() => testEnv.cleanup());
+
+describe('users', () => {
+  test('a user can create and read their own profile', async () => {
+    await assertSucceeds(setDoc(doc(asAlice(), 'users', ALICE), newProfile(ALICE), { merge: true }));
+    await assertSucceeds(getDoc(doc(asAlice(), 'users', ALICE)));
+  });
+
+  test('a user can delete their own profile (account deletion)', async () => {
+    await seed(`users/${ALICE}`, newProfile(ALICE));
+    await assertSucceeds(deleteDoc(doc(asAlice(), 'users', ALICE)));
+  });
+
+  test('nobody else can read or write the profile', async () => {
+    await seed(`users/${ALICE}`, newProfile(ALICE));
+    await assertFails(getDoc(doc(asBob(), 'users', ALICE)));
+    await assertFails(getDoc(doc(asGuest(), 'users', ALICE)));
+    await assertFails(updateDoc(doc(asBob(), 'users', ALICE), { weight: 80 }));
+    await assertFails(deleteDoc(doc(asBob(), 'users', ALICE)));
+    await assertFails(setDoc(doc(asBob(), 'users', BOB), newProfile(ALICE)));
+  });
+
+  test('profile updates must keep the field types', async () => {
+    await seed(`users/${ALICE}`, newProfile(ALICE));
+    const profileRef = doc(asAlice(), 'users', ALICE);
+    await assertSucceeds(updateDoc(profileRef, { age: 30, gender: 'female', activityLevel: 'moderate', healthGoal: 'fatLoss' }));
+    await assertFails(updateDoc(profileRef, { age: '30' }));
+    await assertFails(updateDoc(profileRef, { healthGoal: 'bulk' }));
+    await assertFails(updateDoc(profileRef, { isAdmin: true }));
+  });
+});
+
+describe('calorieEntries', () => {
+  test('a user can log, edit and delete their own meals', async () => {
+    const entryRef = doc(asAlice(), 'calorieEntries', 'meal-1');
+    await assertSucceeds(setDoc(entryRef, calorieEntry(ALICE)));
+    await assertSucceeds(updateDoc(entryRef, { calorieEstimate: 700, notes: '加滷蛋', updatedAt: Timestamp.now() }));
+    await assertSucceeds(getDoc(entryRef));
+    await assertSucceeds(deleteDoc(entryRef));
+  });
+
+  test('meals cannot be logged for another user', async () => {
+    await assertFails(setDoc(doc(asAlice(), 'calorieEntries', 'meal-1'), calorieEntry(BOB)));
+    await assertFails(setDoc(doc(asGuest(), 'calorieEntries', 'meal-1'), calorieEntry(ALICE)));
+  });
+
+  test("another user's meals cannot be read, edited or deleted", async () => {
+    await seed('calorieEntries/meal-1', calorieEntry(ALICE));
+    await assertFails(getDoc(doc(asBob(), 'calorieEntries', 'meal-1')));
+    await assertFails(getDoc(doc(asGuest(), 'calorieEntries', 'meal-1')));
+    await assertFails(updateDoc(doc(asBob(), 'calorieEntries', 'meal-1'), { calorieEstimate: 1 }));
+    await assertFails(deleteDoc(doc(asBob(), 'calorieEntries', 'meal-1')));
+  });
+
+  test('an entry cannot be handed over to another user', async () => {
+    await seed('calorieEntries/meal-1', calorieEntry(ALICE));
+    await assertFails(updateDoc(doc(asAlice(), 'calorieEntries', 'meal-1'), { userId: BOB }));
+  });
+
+  test('list queries must be limited to the signed-in user', async () => {
+    await seed('calorieEntries/meal-1', calorieEntry(ALICE));
+    await seed('calorieEntries/meal-2', calorieEntry(BOB));
+    const entries = collection(asAlice(), 'calorieEntries');
+    await assertSucceeds(getDocs(query(entries, where('userId', '==', ALICE))));
+    await assertFails(getDocs(query(entries, where('userId', '==', BOB))));
+    await assertFails(getDocs(entries));
+  });
+
+  test('entries must keep the field types', async () => {
+    const entryRef = doc(asAlice(), 'calorieEntries', 'meal-1');
+    await assertFails(setDoc(entryRef, calorieEntry(ALICE, { calorieEstimate: '650' })));
+    await assertFails(setDoc(entryRef, calorieEntry(ALICE, { calorieEstimate: -1 })));
+    await assertFails(setDoc(entryRef, calorieEntry(ALICE, { mealType: 'Brunch' })));
+    await assertFails(setDoc(entryRef, calorieEntry(ALICE, { timestamp: '2025-01-01' })));
+    await assertFails(setDoc(entryRef, calorieEntry(ALICE, { pendingSync: true })));
+    await assertFails(setDoc(entryRef, calorieEntry(ALICE, { aiMetadata: 'googleai/gemini-2.0-flash' })));
+    await assertSucceeds(setDoc(entryRef, calorieEntry(ALICE, { mealType: null })));
+    await assertFails(updateDoc(entryRef, { mealType: 'Brunch' }));
+    await assertFails(updateDoc(entryRef, { calorieEstimate: null }));
+  });
+
+  test('a meal can be moved to the trash and restored', async () => {
+    await seed('calorieEntries/meal-1', calorieEntry(ALICE));
+    const entryRef = doc(asAlice(), 'calorieEntries', 'meal-1');
+    await assertSucceeds(updateDoc(entryRef, { deletedAt: Timestamp.now() }));
+    await assertSucceeds(updateDoc(entryRef, { deletedAt: null }));
+    await assertFails(updateDoc(entryRef, { deletedAt: 'yesterday' }));
+    await assertFails(updateDoc(doc(asBob(), 'calorieEntries', 'meal-1'), { deletedAt: Timestamp.now() }));
+  });
+
+  test('AI-logged meals store the estimation metadata', async () => {
+    const aiMetadata = {
+      model: 'googleai/gemini-2.0-flash',
+      promptVersion: 'estimateCalorieCount@1',
+      promptVariant: 'default',
+      latencyMs: 2300,
+      rawOutput: { isFoodItem: true, foodItem: '牛肉麵', calorieEstimate: 650, confidence: 0.8, foodCategory: 'riceAndNoodles' },
+      overridden: false,
+    };
+    const entryRef = doc(asAlice(), 'calorieEntries', 'meal-1');
+    await assertSucceeds(setDoc(entryRef, calorieEntry(ALICE, { aiMetadata })));
+    await assertSucceeds(updateDoc(entryRef, { calorieEstimate: 720, aiMetadata: { ...aiMetadata, overridden: true } }));
+  });
+
+  test('the original AI estimate is kept when a meal is edited', async () => {
+    const originalEstimate = { foodItem: '牛肉麵', calorieEstimate: 650, confidence: 0.8, macros: null, portionGrams: null };
+    await assertSucceeds(setDoc(doc(asAlice(), 'calorieEntries', 'meal-2'), calorieEntry(ALICE, { originalEstimate })));
+    await seed('calorieEntries/meal-1', calorieEntry(ALICE, { originalEstimate }));
+    const entryRef = doc(asAlice(), 'calorieEntries', 'meal-1');
+    const revisions = [{ editedAt: Timestamp.now(), editedBy: ALICE, changes: [{ field: 'calorieEstimate', from: 650, to: 720 }] }];
+    await assertSucceeds(updateDoc(entryRef, { calorieEstimate: 720, revisions }));
+    await assertFails(updateDoc(entryRef, { originalEstimate: { ...originalEstimate, calorieEstimate: 720 } }));
+    await assertFails(updateDoc(entryRef, { revisions: 'none' }));
+  });
+});
+
+describe('waterEntries', () => {
+  test('a user can log and delete their own water', async () => {
+    const entryRef = doc(asAlice(), 'waterEntries', 'water-1');
+    await assertSucceeds(setDoc(entryRef, waterEntry(ALICE)));
+    await assertSucceeds(getDocs(query(collection(asAlice(), 'waterEntries'), where('userId', '==', ALICE))));
+    await assertSucceeds(deleteDoc(entryRef));
+  });
+
+  test("another user's water cannot be read, logged or deleted", async () => {
+    await seed('waterEntries/water-1', waterEntry(ALICE));
+    await assertFails(getDoc(doc(asBob(), 'waterEntries', 'water-1')));
+    await assertFails(getDocs(query(collection(asBob(), 'waterEntries'), where('userId', '==', ALICE))));
+    await assertFails(deleteDoc(doc(asBob(), 'waterEntries', 'water-1')));
+    await assertFails(setDoc(doc(asBob(), 'waterEntries', 'water-2'), waterEntry(ALICE)));
+  });
+
+  test('the amount must be a positive number', async () => {
+    const entryRef = doc(asAlice(), 'waterEntries', 'water-1');
+    await assertFails(setDoc(entryRef, waterEntry(ALICE, 0)));
+    await assertFails(setDoc(entryRef, waterEntry(ALICE, -250)));
+    await assertFails(setDoc(entryRef, waterEntry(ALICE, '250')));
+  });
+
+  test('water entries can only be moved to the trash and restored', async () => {
+    await seed('waterEntries/water-1', waterEntry(ALICE));
+    const entryRef = doc(asAlice(), 'waterEntries', 'water-1');
+    await assertFails(updateDoc(entryRef, { amount: 5000 }));
+    await assertFails(updateDoc(entryRef, { deletedAt: Timestamp.now(), amount: 5000 }));
+    await assertFails(updateDoc(entryRef, { deletedAt: 'yesterday' }));
+    await assertFails(updateDoc(doc(asBob(), 'waterEntries', 'water-1'), { deletedAt: Timestamp.now() }));
+    await assertSucceeds(updateDoc(entryRef, { deletedAt: Timestamp.now() }));
+    await assertSucceeds(updateDoc(entryRef, { deletedAt: null }));
+  });
+});
+
+describe('aiUsage', () => {
+  test('clients cannot read or reset their AI estimation quota', async () => {
+    await seed(`aiUsage/${ALICE}`, { day: '2025-01-01', dayCount: 50, minute: 0, minuteCount: 5 });
+    await assertFails(getDoc(doc(asAlice(), 'aiUsage', ALICE)));
+    await assertFails(setDoc(doc(asAlice(), 'aiUsage', ALICE), { day: '2025-01-01', dayCount: 0, minute: 0, minuteCount: 0 }));
+    await assertFails(deleteDoc(doc(asAlice(), 'aiUsage', ALICE)));
+    await assertFails(getDoc(doc(asBob(), 'aiUsage', ALICE)));
+  });
+});
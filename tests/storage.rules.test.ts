@@ -0,0 +1,73 @@
+// tests/storage.rules.test.ts
+// Security rule tests for meal photos, run against the Storage emulator: npm run test:rules
+import { readFileSync } from 'node:fs';
+import { after, afterEach, before, describe, test } from 'node:test';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestContext,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { deleteObject, getBytes, listAll, ref, uploadBytes, type FirebaseStorage } from 'firebase/storage';
+
+const ALICE = 'alice';
+const BOB = 'bob';
+const PHOTO = `users/${ALICE}/meals/meal-1.jpg`;
+const JPEG = { contentType: 'image/jpeg' };
+
+let testEnv: RulesTestEnvironment;
+
+// The test contexts hand out compat instances, which the modular API accepts as well
+const storageOf = (context: RulesTestContext) => context.storage() as unknown as FirebaseStorage;
+const asAlice = () => storageOf(testEnv.authenticatedContext(ALICE));
+const asBob = () => storageOf(testEnv.authenticatedContext(BOB));
+const asGuest = () => storageOf(testEnv.unauthenticatedContext());
+
+const bytes = (size: number) => new Uint8Array(size);
+
+// Upload as the admin would, bypassing the rules
+const seed = (path: string) =>
+  testEnv.withSecurityRulesDisabled(context => uploadBytes(ref(storageOf(context), path), bytes(100), JPEG).then(() => {}));
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-caloriesnap',
+    storage: { rules: readFileSync('storage.rules', 'utf8') },
+  });
+});
+
+afterEach(() => testEnv.clearStorage());
+
+after(() => testEnv.cleanup());
+
+describe('meal photos', () => {
+  test('a user can upload, read, list and delete their own photos', async () => {
+    await assertSucceeds(uploadBytes(ref(asAlice(), PHOTO), bytes(100), JPEG));
+    await assertSucceeds(uploadBytes(ref(asAlice(), `users/${ALICE}/meals/meal-1_thumb.jpg`), bytes(100), JPEG));
+    await assertSucceeds(getBytes(ref(asAlice(), PHOTO)));
+    await assertSucceeds(listAll(ref(asAlice(), `users/${ALICE}/meals`)));
+    await assertSucceeds(deleteObject(ref(asAlice(), PHOTO)));
+  });
+
+  test('nobody else can read, list, overwrite or delete them', async () => {
+    await seed(PHOTO);
+    await assertFails(getBytes(ref(asBob(), PHOTO)));
+    await assertFails(getBytes(ref(asGuest(), PHOTO)));
+    await assertFails(listAll(ref(asBob(), `users/${ALICE}/meals`)));
+    await assertFails(uploadBytes(ref(asBob(), PHOTO), bytes(100), JPEG));
+    await assertFails(uploadBytes(ref(asGuest(), `users/${ALICE}/meals/meal-2.jpg`), bytes(100), JPEG));
+    await assertFails(deleteObject(ref(asBob(), PHOTO)));
+  });
+
+  test('uploads must be images under 5 MB', async () => {
+    await assertFails(uploadBytes(ref(asAlice(), PHOTO), bytes(100), { contentType: 'text/html' }));
+    await assertFails(uploadBytes(ref(asAlice(), PHOTO), bytes(5 * 1024 * 1024), JPEG));
+    await assertSucceeds(uploadBytes(ref(asAlice(), PHOTO), bytes(5 * 1024 * 1024 - 1), { contentType: 'image/png' }));
+  });
+
+  test('nothing outside the users folders is accessible', async () => {
+    await assertFails(uploadBytes(ref(asAlice(), 'public/meal.jpg'), bytes(100), JPEG));
+    await assertFails(getBytes(ref(asAlice(), 'public/meal.jpg')));
+  });
+});
@@ -0,0 +1,81 @@
+// tests/unit/estimation-request.test.ts
+// Photo checks and per-user quotas of the AI server actions: npm test
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { countEstimation, type EstimationUsage } from '@/ai/estimation-quota';
+import { MAX_PHOTO_BYTES, validatePhotoDataUri } from '@/ai/estimation-request';
+
+// A data URI whose base64 data decodes to `bytes` bytes
+const photo = (bytes: number, mimeType = 'image/jpeg') => `data:${mimeType};base64,${Buffer.alloc(bytes).toString('base64')}`;
+
+describe('validatePhotoDataUri', () => {
+  test('accepts photos up to MAX_PHOTO_BYTES, counting base64 padding', () => {
+    // 4 MB is one more than a multiple of 3, so these end in one, no and two padding characters
+    for (const size of [MAX_PHOTO_BYTES - 2, MAX_PHOTO_BYTES - 1, MAX_PHOTO_BYTES]) {
+      assert.equal(validatePhotoDataUri(photo(size)), null, `${size} bytes`);
+    }
+    for (const size of [MAX_PHOTO_BYTES + 1, MAX_PHOTO_BYTES + 2, MAX_PHOTO_BYTES + 3]) {
+      assert.equal(validatePhotoDataUri(photo(size)), 'imageTooLarge', `${size} bytes`);
+    }
+  });
+
+  test('allows only the listed image types, in any case', () => {
+    assert.equal(validatePhotoDataUri(photo(10, 'image/png')), null);
+    assert.equal(validatePhotoDataUri(photo(10, 'IMAGE/JPEG')), null);
+    assert.equal(validatePhotoDataUri(photo(10, 'image/heic')), null);
+    assert.equal(validatePhotoDataUri(photo(10, 'image/gif')), 'unsupportedImageType');
+    assert.equal(validatePhotoDataUri(photo(10, 'image/svg+xml')), 'unsupportedImageType');
+    assert.equal(validatePhotoDataUri(photo(10, 'text/html')), 'unsupportedImageType');
+  });
+
+  test('rejects data URIs that are not base64', () => {
+    assert.equal(validatePhotoDataUri('data:image/jpeg,%FF%D8%FF'), 'invalidRequest');
+    assert.equal(validatePhotoDataUri('data:image/jpeg;charset=utf-8,abc'), 'invalidRequest');
+    assert.equal(validatePhotoDataUri('https://example.com/meal.jpg'), 'invalidRequest');
+    assert.equal(validatePhotoDataUri(''), 'invalidRequest');
+  });
+});
+
+describe('countEstimation', () => {
+  const LIMITS = { perDay: 100, perMinute: 10 };
+
+  // Sends `count` requests at `now`, returning the usage after the last one that was counted
+  const sendRequests = (usage: EstimationUsage | undefined, now: Date, count: number) => {
+    let current = usage;
+    for (let i = 0; i < count; i++) {
+      const result = countEstimation(current, now, LIMITS);
+      assert.ok('usage' in result, `request ${i + 1} is allowed`);
+      current = result.usage;
+    }
+    return current!;
+  };
+
+  test('allows 10 requests a minute and starts over the next minute', () => {
+    const now = new Date('2025-01-15T04:00:30Z');
+    const usage = sendRequests(undefined, now, 10);
+    assert.deepEqual(countEstimation(usage, new Date('2025-01-15T04:00:59Z'), LIMITS), { error: 'rateLimited' });
+    const nextMinute = countEstimation(usage, new Date('2025-01-15T04:01:00Z'), LIMITS);
+    assert.ok('usage' in nextMinute);
+    assert.equal(nextMinute.usage.minuteCount, 1);
+    assert.equal(nextMinute.usage.dayCount, 11);
+  });
+
+  test('the daily quota starts over at midnight in Taipei, not UTC', () => {
+    // 2025-01-15 23:59 in Taipei (UTC+8)
+    const beforeMidnight = new Date('2025-01-15T15:59:00Z');
+    const usage: EstimationUsage = { day: '2025-01-15', dayCount: 100, minute: 0, minuteCount: 0 };
+    assert.deepEqual(countEstimation(usage, beforeMidnight, LIMITS), { error: 'dailyQuotaExceeded' });
+
+    const afterMidnight = countEstimation(usage, new Date('2025-01-15T16:00:00Z'), LIMITS);
+    assert.ok('usage' in afterMidnight);
+    assert.equal(afterMidnight.usage.day, '2025-01-16');
+    assert.equal(afterMidnight.usage.dayCount, 1);
+  });
+
+  test('the daily quota is checked before the per-minute one', () => {
+    const now = new Date('2025-01-15T04:00:00Z');
+    const minute = Math.floor(now.getTime() / 60_000);
+    const usage: EstimationUsage = { day: '2025-01-15', dayCount: 100, minute, minuteCount: 10 };
+    assert.deepEqual(countEstimation(usage, now, LIMITS), { error: 'dailyQuotaExceeded' });
+  });
+});
@@ -0,0 +1,71 @@
+// tests/unit/eval-metrics.test.ts
+// Offline evaluation metrics of the photo estimation prompt: npm test
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { EvalLabelSchema, computeMetrics, namesMatch, type EvalLabel, type EvalPrediction, type EvalSampleResult } from '@/ai/eval/metrics';
+
+const sample = (label: EvalLabel, prediction: EvalPrediction | null, latencyMs = 100): EvalSampleResult => ({
+  label,
+  mediaSha256: label.file,
+  prediction,
+  ...(prediction ? {} : { error: 'failed' }),
+  latencyMs,
+});
+
+const food = (file: string, foodItem: string, calories: number): EvalLabel => ({ file, isFoodItem: true, foodItem, calories });
+const predicted = (foodItem: string, calorieEstimate: number, confidence: number, isFoodItem = true): EvalPrediction =>
+  ({ isFoodItem, foodItem, calorieEstimate, confidence });
+
+describe('eval metrics', () => {
+  test('labels of food photos need a name and calories', () => {
+    assert.equal(EvalLabelSchema.safeParse({ file: 'a.png', isFoodItem: true, foodItem: '牛肉麵' }).success, false);
+    assert.equal(EvalLabelSchema.safeParse({ file: 'b.png', isFoodItem: false }).success, true);
+  });
+
+  test('names match when one contains the other, ignoring spaces and case', () => {
+    assert.equal(namesMatch('紅燒 牛肉麵', '牛肉麵'), true);
+    assert.equal(namesMatch('Bubble Tea', 'bubble tea'), true);
+    assert.equal(namesMatch('雞腿便當', '牛肉麵'), false);
+    assert.equal(namesMatch('', '牛肉麵'), false);
+  });
+
+  test('errors and rates are computed over the photos the flow answered', () => {
+    const metrics = computeMetrics([
+      sample(food('noodles.png', '牛肉麵', 600), predicted('紅燒牛肉麵', 660, 0.9), 100), // Within tolerance
+      sample(food('bento.png', '雞腿便當', 800), predicted('炸雞', 500, 0.3), 300), // Off by more than 20%
+      sample(food('tea.png', '珍珠奶茶', 400), predicted('書', 0, 0, false), 200), // Missed food
+      sample({ file: 'book.png', isFoodItem: false }, predicted('蛋糕', 300, 0.5), 200), // False alarm
+      sample(food('rice.png', '滷肉飯', 500), null, 1000), // Failed
+    ]);
+    assert.equal(metrics.samples, 5);
+    assert.equal(metrics.failed, 1);
+    assert.equal(metrics.calorieMae, (60 + 300) / 2);
+    assert.equal(metrics.calorieMape, (10 + 37.5) / 2);
+    assert.equal(metrics.nameMatchRate, 0.5);
+    assert.equal(metrics.foodPrecision, 2 / 3);
+    assert.equal(metrics.foodRecall, 2 / 3);
+    assert.equal(metrics.meanLatencyMs, 200);
+  });
+
+  test('calibration compares confidence with accuracy in each bin', () => {
+    const metrics = computeMetrics([
+      sample(food('a.png', '牛肉麵', 600), predicted('牛肉麵', 600, 1)),
+      sample(food('b.png', '牛肉麵', 600), predicted('牛肉麵', 1200, 0.9)),
+      sample(food('c.png', '牛肉麵', 600), predicted('牛肉麵', 610, 0.1)),
+    ]);
+    assert.deepEqual(metrics.calibration.map(bin => bin.count), [1, 0, 0, 0, 2], 'a confidence of 1 falls in the last bin');
+    const lastBin = metrics.calibration[4];
+    assert.equal(lastBin.accuracy, 0.5);
+    assert.ok(Math.abs(lastBin.meanConfidence - 0.95) < 1e-9);
+    // (2/3)·|0.5 − 0.95| + (1/3)·|1 − 0.1|
+    assert.ok(Math.abs(metrics.expectedCalibrationError! - 0.6) < 1e-9);
+  });
+
+  test('metrics without any answered photo are null', () => {
+    const metrics = computeMetrics([sample(food('a.png', '牛肉麵', 600), null)]);
+    assert.equal(metrics.calorieMae, null);
+    assert.equal(metrics.foodPrecision, null);
+    assert.equal(metrics.expectedCalibrationError, null);
+    assert.equal(metrics.meanLatencyMs, null);
+  });
+});
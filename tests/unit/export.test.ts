@@ -0,0 +1,135 @@
+// tests/unit/export.test.ts
+// CSV and JSON data export: npm test
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import JSZip from 'jszip';
+import { Timestamp } from 'firebase/firestore';
+import { exportUserData } from '@/lib/data/export';
+import { parseCsv } from '@/lib/data/import';
+import { createInMemoryRepository } from '@/lib/data/memory-repository';
+import type { CalorieLogEntry, UserProfile } from '@/lib/data/types';
+
+const ALICE = 'alice';
+const RANGE = { start: new Date(2025, 0, 15), end: new Date(2025, 0, 16) };
+const at = (hours: number, minutes = 0) => Timestamp.fromDate(new Date(2025, 0, 15, hours, minutes));
+
+const meal = (id: string, fields: Partial<CalorieLogEntry>): CalorieLogEntry => ({
+  id,
+  userId: ALICE,
+  foodItem: 'Oatmeal',
+  calorieEstimate: 300,
+  imageUrl: null,
+  timestamp: at(8),
+  mealType: 'Breakfast',
+  location: null,
+  cost: null,
+  ...fields,
+});
+
+const PROFILE: UserProfile = {
+  id: ALICE,
+  age: 30,
+  gender: 'female',
+  height: 165,
+  weight: 58,
+  activityLevel: 'moderate',
+  healthGoal: 'fatLoss',
+};
+
+const exportCsvFiles = async (entries: CalorieLogEntry[]) => {
+  const repository = createInMemoryRepository({ profiles: [PROFILE], calorieEntries: entries });
+  const { blob, fileName } = await exportUserData(repository, ALICE, PROFILE, RANGE, { format: 'csv', includePhotos: false });
+  assert.equal(fileName, 'caloriesnap_20250115-20250115.zip');
+  const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+  const read = (name: string) => zip.file(name)!.async('string');
+  return { calories: await read('calorie-entries.csv'), water: await read('water-entries.csv'), profile: await read('profile.csv') };
+};
+
+describe('CSV export', () => {
+  test('starts every file with a BOM and ends every row with CRLF', async () => {
+    const files = await exportCsvFiles([meal('m1', {})]);
+    for (const csv of Object.values(files)) {
+      assert.ok(csv.startsWith('\uFEFF'), 'BOM so Excel reads the file as UTF-8');
+      assert.ok(csv.endsWith('\r\n'));
+      assert.doesNotMatch(csv.replace(/\r\n/g, ''), /\r/);
+    }
+    assert.equal(files.water, '\uFEFF日期,時間,飲水量 (毫升),記錄 ID\r\n');
+    assert.ok(files.profile.includes('\r\n年齡,30\r\n'));
+  });
+
+  test('quotes cells with delimiters, quotes and line breaks', async () => {
+    const { calories } = await exportCsvFiles([
+      meal('m1', { foodItem: 'Noodles, beef', notes: 'Say "hi"\nthere', location: 'Plain' }),
+    ]);
+    const row = calories.split('\r\n')[1];
+    assert.ok(row.startsWith('2025-01-15,08:00,早餐,"Noodles, beef",300,'));
+    assert.ok(row.includes(',Plain,,"Say ""hi""\nthere",'));
+
+    const { rows } = parseCsv(calories);
+    assert.equal(rows[0][3], 'Noodles, beef');
+    assert.equal(rows[0][17], 'Say "hi"\nthere');
+    assert.equal(rows[0][24], 'm1');
+  });
+
+  test('escapes text that a spreadsheet would run as a formula', async () => {
+    const { calories } = await exportCsvFiles([
+      meal('m1', { foodItem: '=HYPERLINK("http://evil.example")', location: '+886 2 1234', notes: '@SUM(A1)', timestamp: at(8) }),
+      meal('m2', { foodItem: '-5 kcal snack', location: 'Taipei', notes: 'a = b', cost: -40, timestamp: at(9) }),
+    ]);
+    const { rows } = parseCsv(calories);
+    assert.deepEqual(rows.map(row => [row[3], row[15], row[16], row[17]]), [
+      ["'=HYPERLINK(\"http://evil.example\")", "'+886 2 1234", '', "'@SUM(A1)"],
+      ["'-5 kcal snack", 'Taipei', '-40', 'a = b'],
+    ]);
+  });
+});
+
+describe('JSON export', () => {
+  test('writes the profile and entries oldest first, with ISO timestamps and without client-only fields', async () => {
+    const repository = createInMemoryRepository({
+      profiles: [PROFILE],
+      calorieEntries: [
+        meal('m2', { foodItem: 'Curry', calorieEstimate: 650, mealType: 'Lunch', timestamp: at(12, 30), pendingSync: true, notes: undefined }),
+        meal('m1', { macros: { protein: 10, carbohydrates: 50, fat: 5, fiber: 8, sugar: 1, sodium: 5 } }),
+        meal('m3', { timestamp: Timestamp.fromDate(new Date(2025, 0, 16, 8)) }), // Outside the range
+      ],
+      waterEntries: [{ id: 'w1', userId: ALICE, timestamp: at(10), amount: 250, pendingSync: true }],
+    });
+    const result = await exportUserData(repository, ALICE, PROFILE, RANGE, { format: 'json', includePhotos: false });
+    assert.equal(result.fileName, 'caloriesnap_20250115-20250115.json');
+    assert.equal(result.blob.type, 'application/json');
+    assert.deepEqual([result.calorieCount, result.waterCount, result.missingPhotos], [2, 1, 0]);
+
+    const json = JSON.parse(await result.blob.text());
+    assert.deepEqual(Object.keys(json), ['exportedAt', 'range', 'profile', 'calorieEntries', 'waterEntries']);
+    assert.ok(!Number.isNaN(Date.parse(json.exportedAt)));
+    assert.deepEqual(json.range, { start: RANGE.start.toISOString(), end: RANGE.end.toISOString() });
+    assert.deepEqual(json.profile, PROFILE);
+    assert.deepEqual(json.calorieEntries, [
+      {
+        id: 'm1',
+        userId: ALICE,
+        foodItem: 'Oatmeal',
+        calorieEstimate: 300,
+        imageUrl: null,
+        timestamp: at(8).toDate().toISOString(),
+        mealType: 'Breakfast',
+        location: null,
+        cost: null,
+        macros: { protein: 10, carbohydrates: 50, fat: 5, fiber: 8, sugar: 1, sodium: 5 },
+      },
+      {
+        id: 'm2',
+        userId: ALICE,
+        foodItem: 'Curry',
+        calorieEstimate: 650,
+        imageUrl: null,
+        timestamp: at(12, 30).toDate().toISOString(),
+        mealType: 'Lunch',
+        location: null,
+        cost: null,
+      },
+    ]);
+    assert.deepEqual(json.waterEntries, [{ id: 'w1', userId: ALICE, timestamp: at(10).toDate().toISOString(), amount: 250 }]);
+  });
+});
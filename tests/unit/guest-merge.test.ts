@@ -0,0 +1,55 @@
+// tests/unit/guest-merge.test.ts
+// Moving guest data into the account: npm test
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Timestamp } from 'firebase/firestore';
+import { buildGuestMergePreview, mergeGuestData } from '@/lib/data/guest-merge';
+import { createLocalRepository, GUEST_ACCOUNT, GUEST_USER_ID } from '@/lib/data/local-repository';
+import { createInMemoryRepository } from '@/lib/data/memory-repository';
+import type { DataRepository } from '@/lib/data/repository';
+
+const ALICE = 'alice';
+const ALL_TIME = { start: new Date(0), end: new Date(8.64e15) };
+
+// Node has no IndexedDB, so the guest data lives in memory
+const createGuest = async () => {
+  const guest = createLocalRepository();
+  await guest.recordSignIn(GUEST_ACCOUNT);
+  await guest.addCalorieEntry(GUEST_USER_ID, {
+    foodItem: '牛肉麵',
+    calorieEstimate: 650,
+    imageUrl: null,
+    timestamp: Timestamp.fromDate(new Date(2025, 0, 15, 12)),
+    mealType: 'Lunch',
+    location: null,
+    cost: null,
+  });
+  await guest.addWaterEntry(GUEST_USER_ID, 250, { timestamp: Timestamp.fromDate(new Date(2025, 0, 15, 9)) });
+  return guest;
+};
+
+describe('mergeGuestData', () => {
+  test('copies the entries into the account, then empties the guest data', async () => {
+    const guest = await createGuest();
+    const account = createInMemoryRepository();
+    const preview = await buildGuestMergePreview(guest, account, ALICE);
+    await mergeGuestData(guest, account, ALICE, preview, false);
+    assert.equal((await account.getCalorieEntries(ALICE, ALL_TIME)).length, 1);
+    assert.equal((await account.getWaterEntries(ALICE, ALL_TIME)).length, 1);
+    assert.equal(await guest.hasEntries(), false);
+  });
+
+  test('keeps the guest data when a write is not confirmed', async () => {
+    const guest = await createGuest();
+    const inner = createInMemoryRepository();
+    const account: DataRepository = {
+      ...inner,
+      addEntries: async () => {
+        throw { code: 'unavailable' };
+      },
+    };
+    const preview = await buildGuestMergePreview(guest, account, ALICE);
+    await assert.rejects(mergeGuestData(guest, account, ALICE, preview, false));
+    assert.equal(await guest.hasEntries(), true);
+  });
+});
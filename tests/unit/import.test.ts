@@ -0,0 +1,108 @@
+// tests/unit/import.test.ts
+// CSV import parsing and duplicate detection: npm test
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Timestamp } from 'firebase/firestore';
+import { findNewEntries, guessColumnMapping, parseCsv, parseImportRows } from '@/lib/data/import';
+import { createInMemoryRepository } from '@/lib/data/memory-repository';
+
+const ALICE = 'alice';
+
+describe('parseCsv', () => {
+  test('reads quoted fields with delimiters, quotes and line breaks', () => {
+    const csv = parseCsv('\uFEFFDate,Food,Calories\r\n2025-01-15,"Noodles, beef",650\n2025-01-15,"Say ""hi""\nthere",120\n');
+    assert.deepEqual(csv.headers, ['Date', 'Food', 'Calories']);
+    assert.deepEqual(csv.rows, [
+      ['2025-01-15', 'Noodles, beef', '650'],
+      ['2025-01-15', 'Say "hi"\nthere', '120'],
+    ]);
+  });
+
+  test('takes the delimiter from the header line', () => {
+    assert.deepEqual(parseCsv('日期;熱量\n2025/01/15;650').rows, [['2025/01/15', '650']]);
+    assert.deepEqual(parseCsv('date\twater\n2025-01-15\t250').rows, [['2025-01-15', '250']]);
+  });
+});
+
+describe('parseImportRows', () => {
+  test('turns meal rows into entries, with typical meal times for rows without a time', () => {
+    const csv = parseCsv([
+      'Date,Meal,Food Name,Calories,Protein (g),Cost',
+      '2025-01-15,Breakfast,Oatmeal,300,10,"NT$1,200"',
+      '01/16/2025 19:30,dinner,Curry,"1,050",,',
+      '2025-01-17,,,420,,',
+    ].join('\n'));
+    const { calorieEntries, issues } = parseImportRows(csv, {
+      kind: 'calories',
+      mapping: guessColumnMapping(csv.headers, 'calories'),
+      dayFirst: false,
+    });
+    assert.deepEqual(issues, []);
+    assert.deepEqual(calorieEntries.map(entry => [entry.foodItem, entry.calorieEstimate, entry.mealType, entry.cost]), [
+      ['Oatmeal', 300, 'Breakfast', 1200],
+      ['Curry', 1050, 'Dinner', null],
+      ['匯入的餐點', 420, null, null],
+    ]);
+    assert.deepEqual(calorieEntries.map(entry => entry.timestamp.toDate()), [
+      new Date(2025, 0, 15, 8),
+      new Date(2025, 0, 16, 19, 30),
+      new Date(2025, 0, 17, 12),
+    ]);
+    assert.deepEqual(calorieEntries[0].macros, { protein: 10, carbohydrates: 0, fat: 0, fiber: 0, sugar: 0, sodium: 0 });
+    assert.equal(calorieEntries[1].macros, undefined, 'no macro columns filled in');
+  });
+
+  test('reports rows that cannot be read by their line number and skips them', () => {
+    const csv = parseCsv('date,calories,fat\n2025-13-45,300,\n2025-01-15,lots,\n\n2025-01-15,300,a bit\n2025-01-15,300,5');
+    const { calorieEntries, issues } = parseImportRows(csv, { kind: 'calories', mapping: { date: 0, calories: 1, fat: 2 }, dayFirst: false });
+    assert.deepEqual(issues.map(issue => issue.row), [2, 3, 5]);
+    assert.equal(calorieEntries.length, 1);
+  });
+
+  test('reads slash dates day first when asked', () => {
+    const csv = parseCsv('date,water\n03/02/2025,250\n03/02/2025,0');
+    const { waterEntries, issues } = parseImportRows(csv, { kind: 'water', mapping: { date: 0, water: 1 }, dayFirst: true });
+    assert.deepEqual(waterEntries.map(entry => [entry.timestamp.toDate(), entry.amount]), [[new Date(2025, 1, 3, 12), 250]]);
+    assert.deepEqual(issues.map(issue => issue.row), [3]);
+  });
+});
+
+describe('findNewEntries', () => {
+  const at = (hours: number, minutes = 0) => Timestamp.fromDate(new Date(2025, 0, 15, hours, minutes));
+  const meal = (foodItem: string, calorieEstimate: number, timestamp: Timestamp) => ({
+    foodItem,
+    calorieEstimate,
+    imageUrl: null,
+    timestamp,
+    mealType: null,
+    location: null,
+    cost: null,
+  });
+
+  test('drops entries the user already has and repeats within the file', async () => {
+    const repository = createInMemoryRepository({
+      calorieEntries: [{ ...meal('牛肉麵', 650, at(12)), id: 'meal-1', userId: ALICE }],
+      waterEntries: [{ id: 'water-1', userId: ALICE, timestamp: at(9), amount: 250 }],
+    });
+    const result = await findNewEntries(
+      repository,
+      ALICE,
+      [meal('牛肉麵 ', 650, at(12)), meal('牛肉麵', 650, at(18)), meal('牛肉麵', 650, at(18))],
+      [{ timestamp: at(9), amount: 250 }, { timestamp: at(9), amount: 500 }]
+    );
+    assert.deepEqual(result.calorieEntries.map(entry => entry.timestamp), [at(18)]);
+    assert.deepEqual(result.waterEntries.map(entry => entry.amount), [500]);
+    assert.equal(result.duplicates, 3);
+    assert.equal(result.existingCalorieCount, 1);
+    assert.equal(result.existingWaterCount, 1);
+  });
+
+  test("other users' entries are not duplicates", async () => {
+    const repository = createInMemoryRepository({
+      calorieEntries: [{ ...meal('牛肉麵', 650, at(12)), id: 'meal-1', userId: 'bob' }],
+    });
+    const result = await findNewEntries(repository, ALICE, [meal('牛肉麵', 650, at(12))], []);
+    assert.equal(result.calorieEntries.length, 1);
+    assert.equal(result.duplicates, 0);
+  });
+});
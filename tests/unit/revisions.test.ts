@@ -0,0 +1,71 @@
+// tests/unit/revisions.test.ts
+// Edit history and reverting: npm test
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Timestamp } from 'firebase/firestore';
+import { diffEntry, valuesBeforeRevision, valuesOfOriginalEstimate, withRevision } from '@/lib/data/revisions';
+import type { CalorieLogEntry } from '@/lib/data/types';
+
+const ALICE = 'alice';
+const EDITOR = { uid: ALICE, displayName: 'Alice' };
+
+const meal = (overrides: Partial<CalorieLogEntry> = {}): CalorieLogEntry => ({
+  id: 'meal-1',
+  userId: ALICE,
+  foodItem: '牛肉麵',
+  calorieEstimate: 650,
+  imageUrl: null,
+  timestamp: Timestamp.fromDate(new Date(2025, 0, 15, 12)),
+  mealType: 'Lunch',
+  location: null,
+  cost: 180,
+  ...overrides,
+});
+
+// Apply an edit the way the edit dialog saves it
+const edit = (entry: CalorieLogEntry, update: Partial<CalorieLogEntry>): CalorieLogEntry => {
+  const revised = withRevision(entry, update, EDITOR);
+  assert.ok(revised, 'the edit changes a recorded field');
+  return { ...entry, ...revised };
+};
+
+describe('revisions', () => {
+  test('only fields that change are recorded', () => {
+    assert.deepEqual(diffEntry(meal(), { foodItem: '牛肉麵', calorieEstimate: 700, notes: '加辣' }), [
+      { field: 'calorieEstimate', from: 650, to: 700 },
+      { field: 'notes', from: null, to: '加辣' },
+    ]);
+    assert.equal(withRevision(meal(), { foodItem: '牛肉麵' }, EDITOR), null);
+  });
+
+  test('edits are appended with the editor, oldest first', () => {
+    const entry = edit(edit(meal(), { calorieEstimate: 700 }), { foodItem: '紅燒牛肉麵', cost: 200 });
+    assert.equal(entry.revisions?.length, 2);
+    assert.equal(entry.revisions?.[0].editedBy, ALICE);
+    assert.equal(entry.revisions?.[0].editedByName, 'Alice', 'shown in the history without looking up the uid');
+    assert.deepEqual(entry.revisions?.[1].changes.map(change => change.field), ['foodItem', 'cost']);
+  });
+
+  test('reverting to before a revision undoes it and every later one', () => {
+    const entry = edit(edit(edit(meal(), { calorieEstimate: 700 }), { foodItem: '紅燒牛肉麵' }), { calorieEstimate: 750, notes: '大碗' });
+    assert.deepEqual(valuesBeforeRevision(entry, 2), { calorieEstimate: 700, notes: '' });
+    assert.deepEqual(valuesBeforeRevision(entry, 1), { calorieEstimate: 700, foodItem: '牛肉麵', notes: '' });
+    assert.deepEqual(valuesBeforeRevision(entry, 0), { calorieEstimate: 650, foodItem: '牛肉麵', notes: '' });
+  });
+
+  test('AI entries without a stored original estimate keep their values before the first edit', () => {
+    const aiEntry = meal({ confidence: 0.8, portionGrams: 500 });
+    const entry = edit(aiEntry, { calorieEstimate: 700 });
+    assert.deepEqual(entry.originalEstimate, { foodItem: '牛肉麵', calorieEstimate: 650, confidence: 0.8, macros: null, portionGrams: 500 });
+    assert.equal(edit(entry, { calorieEstimate: 720 }).originalEstimate, entry.originalEstimate, 'never replaced by later edits');
+    assert.equal(edit(meal(), { calorieEstimate: 700 }).originalEstimate, undefined, 'manual entries have none');
+    assert.equal(edit(meal({ confidence: 1, barcode: '4710000000000' }), { calorieEstimate: 700 }).originalEstimate, undefined);
+  });
+
+  test('reverting to the AI estimate leaves out the values it did not have', () => {
+    assert.deepEqual(
+      valuesOfOriginalEstimate({ foodItem: '牛肉麵', calorieEstimate: 650, confidence: 0.8, macros: null, portionGrams: null }),
+      { foodItem: '牛肉麵', calorieEstimate: 650 }
+    );
+  });
+});
@@ -0,0 +1,192 @@
+// tests/unit/write-queue.test.ts
+// Offline write queue on top of the in-memory repository: npm test
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import { Timestamp } from 'firebase/firestore';
+import { createInMemoryRepository } from '@/lib/data/memory-repository';
+import { createQueuedRepository, type QueueStore, type QueuedRepository, type SyncIssue, type SyncStatus } from '@/lib/data/write-queue';
+import type { DataRepository } from '@/lib/data/repository';
+import type { CalorieLogEntry } from '@/lib/data/types';
+
+const ALICE = 'alice';
+const DAY = { start: new Date(2025, 0, 15), end: new Date(2025, 0, 16) };
+
+// The queue reads navigator.onLine; Node has no navigator (or a read-only one), so it is replaced
+const setOnline = (onLine: boolean) =>
+  Object.defineProperty(globalThis, 'navigator', { value: { onLine }, configurable: true, writable: true });
+
+// Stands in for IndexedDB, which Node doesn't have
+const createMemoryQueueStore = (): QueueStore => {
+  const queues = new Map<string, string>();
+  return {
+    load: async userId => {
+      const stored = queues.get(userId);
+      return stored ? JSON.parse(stored) : undefined;
+    },
+    save: async (userId, queue) => {
+      queues.set(userId, JSON.stringify(queue));
+    },
+  };
+};
+
+// Lets the queue finish sending and the in-memory listeners fire
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+const statusOf = (repository: QueuedRepository) => {
+  let current: SyncStatus | null = null;
+  repository.subscribeSyncStatus(status => {
+    current = status;
+  })();
+  return current!;
+};
+
+const meal = (overrides: Partial<CalorieLogEntry> = {}): CalorieLogEntry => ({
+  id: 'meal-1',
+  userId: ALICE,
+  foodItem: '牛肉麵',
+  calorieEstimate: 650,
+  imageUrl: null,
+  timestamp: Timestamp.fromDate(new Date(2025, 0, 15, 12)),
+  mealType: 'Lunch',
+  location: null,
+  cost: 180,
+  updatedAt: Timestamp.fromDate(new Date(2025, 0, 15, 12, 5)),
+  ...overrides,
+});
+
+afterEach(() => setOnline(true));
+
+describe('write queue', () => {
+  test('writes made offline are shown as pending and sent once online', async () => {
+    setOnline(false);
+    const inner = createInMemoryRepository();
+    const repository = createQueuedRepository(inner);
+
+    const { id: _id, userId: _userId, updatedAt: _updatedAt, ...entry } = meal();
+    const id = await repository.addCalorieEntry(ALICE, entry);
+    await repository.updateCalorieEntry(id, { calorieEstimate: 700 });
+    assert.equal(statusOf(repository).pendingCount, 1, 'the edit is folded into the pending add');
+    const [pending] = await repository.getCalorieEntries(ALICE, DAY);
+    assert.equal(pending.pendingSync, true);
+    assert.equal(pending.calorieEstimate, 700);
+    assert.equal((await inner.getCalorieEntries(ALICE, DAY)).length, 0);
+
+    setOnline(true);
+    repository.syncNow();
+    await settle();
+    assert.equal(statusOf(repository).pendingCount, 0);
+    const [synced] = await inner.getCalorieEntries(ALICE, DAY);
+    assert.equal(synced.id, id);
+    assert.equal(synced.calorieEstimate, 700);
+  });
+
+  test('edits are merged field by field with changes made on another device', async () => {
+    const inner = createInMemoryRepository({ calorieEntries: [meal()] });
+    const issues: SyncIssue[] = [];
+    const repository = createQueuedRepository(inner, { onIssue: issue => issues.push(issue) });
+    await repository.getCalorieEntry('meal-1'); // The version this device has seen
+
+    setOnline(false);
+    await repository.updateCalorieEntry('meal-1', { foodItem: '紅燒牛肉麵', calorieEstimate: 700 });
+    await settle();
+    // Later, another device changes the calories and the cost
+    await inner.updateCalorieEntry('meal-1', { calorieEstimate: 800, cost: 200 });
+
+    setOnline(true);
+    repository.syncNow();
+    await settle();
+    const merged = await inner.getCalorieEntry('meal-1');
+    assert.equal(merged?.foodItem, '紅燒牛肉麵', 'only this device changed the name');
+    assert.equal(merged?.cost, 200, 'only the other device changed the cost');
+    assert.equal(merged?.calorieEstimate, 800, 'both changed the calories; the newer edit wins');
+    assert.deepEqual(issues.map(issue => issue.kind), ['merged']);
+  });
+
+  test('the newer edit wins a conflict when it was made on this device', async () => {
+    const inner = createInMemoryRepository({ calorieEntries: [meal()] });
+    const repository = createQueuedRepository(inner);
+    await repository.getCalorieEntry('meal-1');
+
+    await inner.updateCalorieEntry('meal-1', { calorieEstimate: 800 });
+    await settle();
+    setOnline(false);
+    await repository.updateCalorieEntry('meal-1', { calorieEstimate: 700 });
+
+    setOnline(true);
+    repository.syncNow();
+    await settle();
+    assert.equal((await inner.getCalorieEntry('meal-1'))?.calorieEstimate, 700);
+  });
+
+  test('an edit of an entry deleted on another device is dropped', async () => {
+    const inner = createInMemoryRepository({ calorieEntries: [meal()] });
+    const issues: SyncIssue[] = [];
+    const repository = createQueuedRepository(inner, { onIssue: issue => issues.push(issue) });
+    await repository.getCalorieEntry('meal-1');
+
+    setOnline(false);
+    await repository.updateCalorieEntry('meal-1', { calorieEstimate: 700 });
+    await inner.deleteCalorieEntry('meal-1');
+
+    setOnline(true);
+    repository.syncNow();
+    await settle();
+    assert.equal(statusOf(repository).pendingCount, 0);
+    assert.equal(await inner.getCalorieEntry('meal-1'), null, 'the edit must not recreate the entry');
+    assert.deepEqual(issues.map(issue => issue.kind), ['dropped']);
+  });
+
+  test('failed writes are retried, unless retrying cannot help', async () => {
+    const inner = createInMemoryRepository();
+    let failure: { code: string } | null = { code: 'unavailable' };
+    const flaky: DataRepository = {
+      ...inner,
+      addWaterEntry: async (userId, amount, options) => {
+        if (failure) throw failure;
+        return inner.addWaterEntry(userId, amount, options);
+      },
+    };
+    const issues: SyncIssue[] = [];
+    const repository = createQueuedRepository(flaky, { onIssue: issue => issues.push(issue) });
+
+    await repository.addWaterEntry(ALICE, 250, { timestamp: Timestamp.fromDate(new Date(2025, 0, 15, 9)) });
+    await settle();
+    assert.deepEqual(statusOf(repository), { online: true, pendingCount: 1, retrying: true });
+
+    failure = null;
+    repository.syncNow();
+    await settle();
+    assert.equal(statusOf(repository).pendingCount, 0);
+    assert.equal((await inner.getWaterEntries(ALICE, DAY)).length, 1);
+
+    failure = { code: 'permission-denied' };
+    await repository.addWaterEntry(ALICE, 500, { timestamp: Timestamp.fromDate(new Date(2025, 0, 15, 10)) });
+    await settle();
+    assert.deepEqual(statusOf(repository), { online: true, pendingCount: 0, retrying: false });
+    assert.equal((await inner.getWaterEntries(ALICE, DAY)).length, 1);
+    assert.deepEqual(issues.map(issue => issue.kind), ['dropped']);
+  });
+
+  test('queued writes are stored per user and only sent when that user is signed in', async () => {
+    setOnline(false);
+    const store = createMemoryQueueStore();
+    const inner = createInMemoryRepository();
+    const repository = createQueuedRepository(inner, { store });
+    await repository.setUser(ALICE);
+    await repository.addWaterEntry(ALICE, 250, { timestamp: Timestamp.fromDate(new Date(2025, 0, 15, 9)) });
+    await settle();
+
+    // The app is reopened on the same device with another account
+    setOnline(true);
+    const reopened = createQueuedRepository(inner, { store });
+    await reopened.setUser('bob');
+    await settle();
+    assert.equal(statusOf(reopened).pendingCount, 0);
+    assert.equal((await inner.getWaterEntries(ALICE, DAY)).length, 0, "bob's session must not replay alice's writes");
+
+    await reopened.setUser(ALICE);
+    await settle();
+    assert.equal(statusOf(reopened).pendingCount, 0);
+    assert.equal((await inner.getWaterEntries(ALICE, DAY)).length, 1);
+  });
+});